@@ -1,4 +1,6 @@
 import { EnforcementMode } from "../types";
+import type { WebBotAuthResult } from "../web-bot-auth";
+import type { VerifiedCrawlerResult } from "../crawlers";
 import { normalizeClientIp } from "./ip";
 import { AnalyticsEvent, CdnRequestSignals, Decision, SCHEMA_VERSION, SourceCdn } from "./types";
 
@@ -12,6 +14,10 @@ export interface BuildAnalyticsEventContext {
   tlsFingerprint?: string | null;
   // CDN plumbing not derivable from the portable Request (request.cf, etc.).
   cdnSignals?: CdnRequestSignals;
+  // Web Bot Auth verification result; omitted when verification is not enabled.
+  webBotAuth?: WebBotAuthResult | null;
+  // Crawler claimed by the User-Agent and its IP verification; omitted when not enabled.
+  crawler?: VerifiedCrawlerResult | null;
 }
 
 // Defensive cap on client-controlled free-form strings, applied at the edge
@@ -142,10 +148,16 @@ export function buildAnalyticsEvent(
     token_outcome: decision.tokenOutcome,
     final_action: decision.finalAction,
     enforcement_mode: enforcementModeToWire(decision.enforcementMode),
+    policy_rule: decision.policyRule ?? null,
+    rate_limited: decision.rateLimited ?? false,
 
     signature_agent: headers.get("signature-agent"),
     signature_input: headers.get("signature-input"),
     signature: headers.get("signature"),
+    web_bot_auth_outcome: context.webBotAuth?.outcome ?? null,
+    verified_agent: context.webBotAuth?.outcome === "verified" ? context.webBotAuth.agent : null,
+    crawler_id: context.crawler?.id ?? null,
+    crawler_verified: context.crawler ? context.crawler.verified : null,
 
     // --- Capture v2: portable header signals ---
     sec_fetch_mode: headers.get("sec-fetch-mode"),
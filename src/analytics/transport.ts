@@ -1,5 +1,6 @@
 import { ExecutionContext, FASTLY_BACKEND, FetchOptions } from "../types";
 import { SDK_USER_AGENT } from "../version";
+import { sdkFetch } from "../fetch";
 import { AnalyticsEvent, AnalyticsTransport } from "./types";
 
 export const ANALYTICS_EVENTS_PATH = "/ingest/events";
@@ -38,7 +39,7 @@ export class HttpAnalyticsTransport implements AnalyticsTransport {
 
     const promise = (async () => {
       try {
-        const response = await fetch(this.url, options);
+        const response = await sdkFetch(this.url, options);
         if (!response.ok && this.debug) {
           let detail = "";
           try {
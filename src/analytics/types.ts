@@ -1,8 +1,9 @@
 import { EnforcementMode, ExecutionContext, LicenseTokenInvalidReason } from "../types";
+import type { WebBotAuthOutcome } from "../web-bot-auth";
 
-export const SCHEMA_VERSION = 2;
+export const SCHEMA_VERSION = 3;
 
-export type SourceCdn = "cloudflare" | "fastly" | "cloudfront";
+export type SourceCdn = "cloudflare" | "fastly" | "cloudfront" | "akamai" | "netlify";
 
 export type TokenOutcome =
   | "absent"
@@ -12,6 +13,8 @@ export type TokenOutcome =
   | "invalid_audience"
   | "invalid_resource"
   | "invalid_issuer"
+  | "revoked"
+  | "insufficient_scope"
   | "malformed"
   | "server_error"
   | "not_validated";
@@ -23,6 +26,10 @@ export interface Decision {
   tokenOutcome: TokenOutcome;
   finalAction: FinalAction;
   enforcementMode: EnforcementMode;
+  // Label of the enforcement rule that selected enforcementMode; null/absent for the instance default.
+  policyRule?: string | null;
+  // True when the request was answered with 429 by a rate limit.
+  rateLimited?: boolean;
 }
 
 export interface AnalyticsEvent {
@@ -49,10 +56,24 @@ export interface AnalyticsEvent {
   final_action: FinalAction;
   enforcement_mode: "observe" | "enforce" | "disabled";
 
+  // --- schema_version 3: policy, rate-limit and bot-verification outcomes ---
+  // Name (or pattern) of the enforcement rule that matched the request; null when none did.
+  policy_rule: string | null;
+  rate_limited: boolean;
+
   // HTTP Message Signature headers — platform-agnostic, read directly from request headers.
   signature_agent: string | null;
   signature_input: string | null;
   signature: string | null;
+  // Outcome of verifying those signatures. null when Web Bot Auth verification is not enabled.
+  web_bot_auth_outcome: WebBotAuthOutcome | null;
+  // Signing agent origin (from Signature-Agent), set only when the signature verified.
+  verified_agent: string | null;
+  // Known crawler claimed by the User-Agent (e.g. "googlebot"); null when none is claimed or
+  // verified-crawler recognition is not enabled.
+  crawler_id: string | null;
+  // Whether the client IP backs that claim (published IP ranges or reverse DNS).
+  crawler_verified: boolean | null;
 
   // --- Capture v2 (schema_version 2): spoof-detection signals ---
   // Portable header signals — read directly from request headers (every CDN).
@@ -121,6 +142,8 @@ export const TOKEN_OUTCOME_BY_REASON: Record<LicenseTokenInvalidReason, TokenOut
   [LicenseTokenInvalidReason.SIGNATURE_VERIFICATION_FAILED]: "invalid_signature",
   [LicenseTokenInvalidReason.INVALID_AUDIENCE]: "invalid_audience",
   [LicenseTokenInvalidReason.INVALID_ISSUER]: "invalid_issuer",
+  [LicenseTokenInvalidReason.REVOKED]: "revoked",
+  [LicenseTokenInvalidReason.INSUFFICIENT_SCOPE]: "insufficient_scope",
   [LicenseTokenInvalidReason.INVALID_HEADER]: "malformed",
   [LicenseTokenInvalidReason.INVALID_PAYLOAD]: "malformed",
   [LicenseTokenInvalidReason.INVALID_ALG]: "malformed",
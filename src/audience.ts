@@ -0,0 +1,40 @@
+import { scorePathPattern } from "./url-pattern";
+
+/**
+ * Maps alternate hostnames to the canonical host they should be treated as for audience matching,
+ * e.g. `{ "www.example.com": "example.com", "staging.example.com": "example.com" }`.
+ */
+export type AudienceHostAliases = Record<string, string>;
+
+function canonicalHost(host: string, aliases: AudienceHostAliases | undefined): string {
+  const lower = host.toLowerCase();
+  return aliases?.[lower]?.toLowerCase() ?? lower;
+}
+
+/**
+ * Whether a license token audience covers a request URL. The scheme and (alias-resolved) host must
+ * match exactly; the audience path is then matched against the request path with
+ * `scorePathPattern` semantics — segment-boundary prefixes, `*` wildcards and a trailing `$`
+ * anchor. Query strings and fragments are ignored on both sides.
+ */
+export function audienceMatches(
+  audience: string,
+  requestUrl: string,
+  hostAliases?: AudienceHostAliases
+): boolean {
+  let aud: URL;
+  let req: URL;
+  try {
+    aud = new URL(audience.trim());
+    req = new URL(requestUrl);
+  } catch {
+    return false;
+  }
+
+  if (aud.protocol !== req.protocol) return false;
+  if (canonicalHost(aud.host, hostAliases) !== canonicalHost(req.host, hostAliases)) return false;
+
+  // A trailing slash on the audience names the same resource as its absence ("/news/" ≡ "/news").
+  const pattern = aud.pathname.replace(/\/+$/, "") || "/";
+  return scorePathPattern(pattern, req.pathname) >= 0;
+}
@@ -1,41 +1,58 @@
+import { BotSignals, ExecutionContext } from "./types";
+
+/** Lowercase User-Agent substrings that `defaultBotDetector` treats as bots. */
+export const DEFAULT_BOT_USER_AGENTS: readonly string[] = [
+  "chatgpt-user",
+  "perplexitybot",
+  "gptbot",
+  "anthropic-ai",
+  "ccbot",
+  "claude-web",
+  "claudebot",
+  "cohere-ai",
+  "youbot",
+  "diffbot",
+  "oai-searchbot",
+  "meta-externalagent",
+  "timpibot",
+  "amazonbot",
+  "bytespider",
+  "perplexity-user",
+  "googlebot",
+  "bot",
+  "curl",
+  "wget",
+];
+
 /**
  * Default bot detection logic using multiple signals.
- * Checks User-Agent patterns, headless browser indicators, missing headers, and Cloudflare bot scores.
+ * Checks verified Web Bot Auth signatures and crawlers, User-Agent patterns, headless browser indicators, missing headers,
+ * and Cloudflare bot scores.
  * @param request The incoming request to analyze
+ * @param _ctx Execution context (unused)
+ * @param signals Verified signals resolved by the SDK (e.g. Web Bot Auth, verified crawlers)
  * @returns true if the request appears to be from a bot, false otherwise
  */
-export function defaultBotDetector(request: Request): boolean {
+export function defaultBotDetector(
+  request: Request,
+  _ctx?: ExecutionContext,
+  signals?: BotSignals
+): boolean {
+  // A verified signature or crawler IP proves an agent. A failed verification proves nothing,
+  // so such requests fall through to the heuristics below like any other.
+  if (signals?.webBotAuth?.outcome === "verified" || signals?.crawler?.verified) {
+    return true;
+  }
+
   const userAgent = request.headers.get("User-Agent") || "";
   const accept = request.headers.get("accept") || "";
   const secChUa = request.headers.get("sec-ch-ua");
   const acceptLanguage = request.headers.get("accept-language");
   const botScore = (request as any).cf?.botManagement?.score;
 
-  const botList = [
-    "chatgpt-user",
-    "perplexitybot",
-    "gptbot",
-    "anthropic-ai",
-    "ccbot",
-    "claude-web",
-    "claudebot",
-    "cohere-ai",
-    "youbot",
-    "diffbot",
-    "oai-searchbot",
-    "meta-externalagent",
-    "timpibot",
-    "amazonbot",
-    "bytespider",
-    "perplexity-user",
-    "googlebot",
-    "bot",
-    "curl",
-    "wget",
-  ];
   // 1. Basic substring check from known list
   const lowerCaseUserAgent = userAgent.toLowerCase();
-  const botUaMatch = botList.some((bot) => lowerCaseUserAgent.includes(bot));
+  const botUaMatch = DEFAULT_BOT_USER_AGENTS.some((bot) => lowerCaseUserAgent.includes(bot));
 
   // 2. Headless browser detection
   const headlessIndicators =
@@ -0,0 +1,89 @@
+import { CacheEnvelope, CacheStore, unwrapCacheValue, wrapCacheValue } from "./types";
+
+// Workers KV rejects an expirationTtl below 60 seconds.
+const KV_MIN_TTL_SECONDS = 60;
+
+/** Subset of the Workers `KVNamespace` binding used by the adapter. */
+export interface KVNamespaceLike {
+  get(key: string, type: "json"): Promise<unknown>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** Subset of the Workers Cache API (`caches.default` or `await caches.open(name)`). */
+export interface CacheApiLike {
+  match(request: Request | string): Promise<Response | undefined>;
+  put(request: Request | string, response: Response): Promise<void>;
+  delete(request: Request | string): Promise<boolean>;
+}
+
+/**
+ * Cloudflare Workers KV adapter. Shared across isolates and data centers; writes are
+ * eventually consistent, which is fine for JWKS / license.xml / tokens.
+ */
+export class CloudflareKVCacheStore implements CacheStore {
+  private readonly namespace: KVNamespaceLike;
+  private readonly prefix: string;
+
+  constructor(namespace: KVNamespaceLike, opts: { prefix?: string } = {}) {
+    this.namespace = namespace;
+    this.prefix = opts.prefix ?? "";
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const envelope = (await this.namespace.get(this.prefix + key, "json")) as CacheEnvelope<T> | null;
+    return unwrapCacheValue(envelope);
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    await this.namespace.put(this.prefix + key, JSON.stringify(wrapCacheValue(value, ttlSeconds)), {
+      expirationTtl: Math.max(KV_MIN_TTL_SECONDS, Math.ceil(ttlSeconds)),
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.namespace.delete(this.prefix + key);
+  }
+}
+
+/**
+ * Cloudflare Cache API adapter. Local to a data center and free of KV write limits; entries
+ * are stored as synthetic responses under `baseUrl`.
+ */
+export class CloudflareCacheApiStore implements CacheStore {
+  private readonly cache: CacheApiLike;
+  private readonly baseUrl: string;
+
+  constructor(cache: CacheApiLike, opts: { baseUrl?: string } = {}) {
+    this.cache = cache;
+    this.baseUrl = opts.baseUrl ?? "https://supertab-connect.cache/";
+  }
+
+  private keyUrl(key: string): string {
+    return `${this.baseUrl}${encodeURIComponent(key)}`;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const response = await this.cache.match(this.keyUrl(key));
+    if (!response) return undefined;
+    try {
+      return unwrapCacheValue((await response.json()) as CacheEnvelope<T>);
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    const response = new Response(JSON.stringify(wrapCacheValue(value, ttlSeconds)), {
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": `max-age=${Math.ceil(ttlSeconds)}`,
+      },
+    });
+    await this.cache.put(this.keyUrl(key), response);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.cache.delete(this.keyUrl(key));
+  }
+}
@@ -0,0 +1,87 @@
+import { CacheEnvelope, CacheStore, unwrapCacheValue, wrapCacheValue } from "./types";
+
+/** Subset of a `fastly:kv-store` `KVStore` instance used by the adapter. */
+export interface FastlyKVStoreLike {
+  get(key: string): Promise<{ text(): Promise<string> } | null>;
+  put(key: string, value: string, options?: { ttl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** Subset of the `fastly:cache` `SimpleCache` static API used by the adapter. */
+export interface FastlySimpleCacheLike {
+  get(key: string): { text(): Promise<string> } | null;
+  getOrSet(key: string, set: () => Promise<{ value: string; ttl: number }>): Promise<unknown>;
+  purge(key: string, options: { scope: "pop" | "global" }): void;
+}
+
+async function readEnvelope<T>(entry: { text(): Promise<string> } | null): Promise<T | undefined> {
+  if (!entry) return undefined;
+  try {
+    return unwrapCacheValue(JSON.parse(await entry.text()) as CacheEnvelope<T>);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Fastly KV Store adapter — globally shared, durable across Compute instances. */
+export class FastlyKVCacheStore implements CacheStore {
+  private readonly store: FastlyKVStoreLike;
+  private readonly prefix: string;
+
+  constructor(store: FastlyKVStoreLike, opts: { prefix?: string } = {}) {
+    this.store = store;
+    this.prefix = opts.prefix ?? "";
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return readEnvelope<T>(await this.store.get(this.prefix + key));
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    await this.store.put(this.prefix + key, JSON.stringify(wrapCacheValue(value, ttlSeconds)), {
+      ttl: Math.ceil(ttlSeconds),
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(this.prefix + key);
+  }
+}
+
+/**
+ * Fastly SimpleCache adapter — POP-local, no provisioning needed. Loads `fastly:cache`
+ * lazily unless a SimpleCache implementation is passed in (e.g. an in-memory stand-in).
+ */
+export class FastlySimpleCacheStore implements CacheStore {
+  private cache?: FastlySimpleCacheLike;
+
+  constructor(cache?: FastlySimpleCacheLike) {
+    this.cache = cache;
+  }
+
+  private async simpleCache(): Promise<FastlySimpleCacheLike> {
+    if (!this.cache) {
+      const { SimpleCache } = await import("fastly:cache");
+      this.cache = SimpleCache as unknown as FastlySimpleCacheLike;
+    }
+    return this.cache;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return readEnvelope<T>((await this.simpleCache()).get(key));
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    const cache = await this.simpleCache();
+    // getOrSet never overwrites, so drop any existing entry first.
+    cache.purge(key, { scope: "pop" });
+    await cache.getOrSet(key, async () => ({
+      value: JSON.stringify(wrapCacheValue(value, ttlSeconds)),
+      ttl: Math.ceil(ttlSeconds),
+    }));
+  }
+
+  async delete(key: string): Promise<void> {
+    (await this.simpleCache()).purge(key, { scope: "pop" });
+  }
+}
@@ -0,0 +1,25 @@
+import { MemoryCacheStore } from "./memory";
+import { CacheStore } from "./types";
+
+// Process-wide store shared by the JWKS, license.xml and license-token caches.
+let sharedCacheStore: CacheStore = new MemoryCacheStore();
+
+export function getCacheStore(): CacheStore {
+  return sharedCacheStore;
+}
+
+export function setCacheStore(store: CacheStore): void {
+  sharedCacheStore = store;
+}
+
+/** Restore a fresh in-memory store (drops every cached entry). */
+export function resetCacheStore(): void {
+  sharedCacheStore = new MemoryCacheStore();
+}
+
+export { MemoryCacheStore } from "./memory";
+export { CloudflareKVCacheStore, CloudflareCacheApiStore } from "./cloudflare";
+export { FastlyKVCacheStore, FastlySimpleCacheStore } from "./fastly";
+export type { CacheStore } from "./types";
+export type { KVNamespaceLike, CacheApiLike } from "./cloudflare";
+export type { FastlyKVStoreLike, FastlySimpleCacheLike } from "./fastly";
@@ -0,0 +1,46 @@
+import { CacheStore } from "./types";
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * In-process LRU cache — the default store. Lives as long as the isolate / Lambda container,
+ * so it is lost on cold start; configure a shared store to survive those.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, { value: unknown; expiresAt: number }>();
+  private readonly maxEntries: number;
+
+  constructor(opts: { maxEntries?: number } = {}) {
+    this.maxEntries = opts.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Re-insert so Map iteration order tracks recency.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Key/value store backing the SDK's caches (platform JWKS, license.xml, license tokens).
+ * Values are JSON-serializable. Implementations must honour `ttlSeconds`, but callers still
+ * re-check freshness on read, so a store that keeps entries slightly longer is harmless.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Envelope persisted by the remote adapters. Carrying the expiry with the value lets every
+ * adapter enforce the TTL itself, independent of the backend's own expiry granularity
+ * (e.g. the 60-second minimum on Workers KV).
+ */
+export interface CacheEnvelope<T> {
+  value: T;
+  expiresAt: number;
+}
+
+export function wrapCacheValue<T>(value: T, ttlSeconds: number): CacheEnvelope<T> {
+  return { value, expiresAt: Date.now() + ttlSeconds * 1000 };
+}
+
+export function unwrapCacheValue<T>(envelope: CacheEnvelope<T> | null | undefined): T | undefined {
+  if (!envelope || typeof envelope.expiresAt !== "number") return undefined;
+  return envelope.expiresAt > Date.now() ? envelope.value : undefined;
+}
@@ -6,9 +6,18 @@ import {
   CloudFrontHeaders,
   CloudFrontRequestEvent,
   CloudFrontRequestResult,
+  CloudFrontResultResponse,
+  CloudFrontResponseEvent,
+  AkamaiClientRequest,
+  AkamaiClientResponse,
+  AkamaiHttpRequest,
+  NetlifyContextLike,
 } from "./types";
-import { CdnRequestSignals } from "./analytics/types";
-import { hostRSLicenseXML } from "./license";
+import { CdnRequestSignals, SourceCdn } from "./analytics/types";
+import { hostRSLicenseXML, relayRSLicenseXML } from "./license";
+import { RobotsTxtOptions, RobotsTxtPolicy, ROBOTS_BODY_HEADERS, rewriteRobotsTxt, serveRobotsTxt } from "./robots";
+import { allowedLicenseStatus, HtmlLicenseLinkOptions, injectLicenseLink } from "./html";
+import { FetchLike, sdkFetch, withFetch } from "./fetch";
 
 /** Parse a CDN ASN header (e.g. "13335" or "AS13335") to a positive integer, or null. */
 export function parseAsn(raw: string | null | undefined): number | null {
@@ -56,7 +65,7 @@ export function extractCloudflareCdnSignals(cf: Record<string, any>): CdnRequest
 export interface HandleRequestContext {
   ctx?: ExecutionContext;
   // Omitted when the request did not pass through a CDN (e.g. invoked directly via the SDK).
-  sourceCdn?: "cloudflare" | "fastly" | "cloudfront";
+  sourceCdn?: SourceCdn;
   clientIp?: string;
   requestId?: string;
   requestCountry?: string | null;
@@ -71,7 +80,7 @@ interface RequestHandler {
   handleRequest(request: Request, context?: HandleRequestContext): Promise<HandlerResult>;
 }
 
-function applyResponseHeaders(response: Response, headers?: Record<string, string>): Response {
+export function applyResponseHeaders(response: Response, headers?: Record<string, string>): Response {
   if (!headers) return response;
   const merged = new Response(response.body, response);
   for (const [key, value] of Object.entries(headers)) {
@@ -80,12 +89,54 @@ function applyResponseHeaders(response: Response, headers?: Record<string, strin
   return merged;
 }
 
+/** Where `/license.xml` is served from when RSL hosting is enabled. */
+export interface RSLHostingOptions {
+  baseUrl: string;
+  merchantSystemUrn: string;
+}
+
+/** robots.txt rewriting options plus the enforcement policy its Disallow group is built from. */
+export interface RobotsTxtHandling {
+  options: RobotsTxtOptions;
+  policy: RobotsTxtPolicy;
+}
+
+function isRobotsTxtRequest(method: string, pathname: string): boolean {
+  return method === "GET" && pathname === "/robots.txt";
+}
+
+// When `originUrl` is provided, forward to that host while preserving
+// path / query / method / headers / body. Decouples validation URL
+// (request.url, used for token audience checks) from fetch destination.
+// Production Cloudflare deployments can omit this — Workers Routes put
+// the Worker on the publisher's hostname, so `fetch(request)` already
+// resolves to the origin via the edge.
+function cloudflareOriginRequest(request: Request, originUrl?: string): Request {
+  return originUrl
+    ? new Request(
+        `${new URL(originUrl).origin}${new URL(request.url).pathname}${new URL(request.url).search}`,
+        request
+      )
+    : request;
+}
+
 export async function handleCloudflareRequest(
   handler: RequestHandler,
   request: Request,
   ctx: ExecutionContext,
-  originUrl?: string
+  originUrl?: string,
+  rslOptions?: RSLHostingOptions,
+  robotsTxt?: RobotsTxtHandling,
+  htmlLicenseLink?: HtmlLicenseLinkOptions
 ): Promise<Response> {
+  if (rslOptions && new URL(request.url).pathname === "/license.xml") {
+    return await hostRSLicenseXML(rslOptions.baseUrl, rslOptions.merchantSystemUrn, request);
+  }
+  if (robotsTxt && isRobotsTxtRequest(request.method, new URL(request.url).pathname)) {
+    const originResponse = await fetch(cloudflareOriginRequest(request, originUrl));
+    return await serveRobotsTxt(originResponse, request.url, robotsTxt.options, robotsTxt.policy);
+  }
+
   const cf = (request as unknown as { cf?: Record<string, any> }).cf;
   const result = await handler.handleRequest(request, {
     ctx,
@@ -106,24 +157,53 @@ export async function handleCloudflareRequest(
         headers: new Headers(result.headers),
       });
     case HandlerAction.ALLOW: {
-      // When `originUrl` is provided, forward to that host while preserving
-      // path / query / method / headers / body. Decouples validation URL
-      // (request.url, used for token audience checks) from fetch destination.
-      // Production Cloudflare deployments can omit this — Workers Routes put
-      // the Worker on the publisher's hostname, so `fetch(request)` already
-      // resolves to the origin via the edge.
-      const fetchTarget = originUrl
-        ? new Request(
-            `${new URL(originUrl).origin}${new URL(request.url).pathname}${new URL(request.url).search}`,
-            request
-          )
-        : request;
-      const originResponse = await fetch(fetchTarget);
-      return applyResponseHeaders(originResponse, result.headers);
+      const originResponse = await fetch(cloudflareOriginRequest(request, originUrl));
+      const response = applyResponseHeaders(originResponse, result.headers);
+      return htmlLicenseLink
+        ? injectLicenseLink(response, request.url, htmlLicenseLink, allowedLicenseStatus(result))
+        : response;
     }
   }
 }
 
+/**
+ * Handles a request in a Netlify Edge Function. Allowed requests reach the origin through
+ * `context.next()`, with the signal headers merged into its response.
+ * @param handler Request handler instance that inspects the request and decides whether to allow or block it.
+ * @param request The edge function's request.
+ * @param context The Netlify edge function context.
+ */
+export async function handleNetlifyRequest(
+  handler: RequestHandler,
+  request: Request,
+  context: NetlifyContextLike
+): Promise<Response> {
+  // Without context.waitUntil the emits must settle before the response is returned.
+  const pending: Promise<void>[] = [];
+  const ctx: ExecutionContext = context.waitUntil
+    ? { waitUntil: (promise) => context.waitUntil!(promise) }
+    : { waitUntil: (promise) => void pending.push(promise) };
+  const result = await handler.handleRequest(request, {
+    ctx,
+    sourceCdn: "netlify",
+    requestId: context.requestId ?? request.headers.get("x-nf-request-id") ?? undefined,
+    clientIp: context.ip,
+    requestCountry: context.geo?.country?.code ?? null,
+  });
+  await Promise.allSettled(pending);
+
+  switch (result.action) {
+    case HandlerAction.RESPOND:
+    case HandlerAction.BLOCK:
+      return new Response(result.body, {
+        status: result.status,
+        headers: new Headers(result.headers),
+      });
+    case HandlerAction.ALLOW:
+      return applyResponseHeaders(await context.next(), result.headers);
+  }
+}
+
 /**
  * Handles an Origin request in Fastly. Expects `X-Original-Request-URL` header to contain the original viewer request URL.
  * @param handler Request handler instance that inspects the request and decides whether to allow or block it.
@@ -137,10 +217,7 @@ export async function handleFastlyRequest(
   handler: RequestHandler,
   request: Request,
   originBackend: string,
-  rslOptions?: {
-    baseUrl: string;
-    merchantSystemUrn: string;
-  },
+  rslOptions?: RSLHostingOptions,
   // On Fastly Compute, client IP, geo, and JA3 are on the FetchEvent, not request
   // headers. The caller (fastlyHandleRequests) passes them through from event.client.
   clientContext?: {
@@ -152,16 +229,22 @@ export async function handleFastlyRequest(
   // Wraps FetchEvent.waitUntil so post-response analytics emits stay alive until
   // they settle — the BLOCK path returns immediately, with no origin fetch to
   // incidentally keep the instance up.
-  ctx?: ExecutionContext
+  ctx?: ExecutionContext,
+  robotsTxt?: RobotsTxtHandling
 ): Promise<Response> {
   const originalUrl = request.headers.get("x-original-request-url") || request.url;
 
   if (rslOptions && new URL(originalUrl).pathname === "/license.xml") {
     return await hostRSLicenseXML(
       rslOptions.baseUrl,
-      rslOptions.merchantSystemUrn
+      rslOptions.merchantSystemUrn,
+      request
     );
   }
+  if (robotsTxt && isRobotsTxtRequest(request.method, new URL(originalUrl).pathname)) {
+    const originResponse = await fetch(request, { backend: originBackend } as RequestInit);
+    return await serveRobotsTxt(originResponse, originalUrl, robotsTxt.options, robotsTxt.policy);
+  }
 
   const asnHeader = request.headers.get("fastly-client-asn");
   const webRequest = new Request(originalUrl, {
@@ -201,14 +284,42 @@ export async function handleFastlyRequest(
 
 function statusDescription(status: number): CDNStatusDescription {
   switch (status) {
+    case 200: return CDNStatusDescription.OK;
+    case 304: return CDNStatusDescription.NotModified;
     case 401: return CDNStatusDescription.Unauthorized;
     case 402: return CDNStatusDescription.PaymentRequired;
     case 403: return CDNStatusDescription.Forbidden;
+    case 404: return CDNStatusDescription.NotFound;
+    case 429: return CDNStatusDescription.TooManyRequests;
+    case 502: return CDNStatusDescription.BadGateway;
     case 503: return CDNStatusDescription.ServiceUnavailable;
     default: return CDNStatusDescription.Error;
   }
 }
 
+function toCloudfrontResponse(
+  status: number,
+  headers: Record<string, string>,
+  body: string
+): CloudFrontResultResponse {
+  const responseHeaders: CloudFrontHeaders = {};
+  Object.entries(headers).forEach(([key, value]) => {
+    responseHeaders[key.toLowerCase()] = [{ key, value }];
+  });
+
+  return {
+    status: status.toString(),
+    statusDescription: statusDescription(status),
+    headers: responseHeaders,
+    body,
+  };
+}
+
+// Carries ALLOW signal headers from the origin-request trigger to the origin-response trigger.
+// Lambda@Edge offers no other channel between them, so the origin receives it as well. The
+// response trigger runs on cache misses only, so the routing header must be in the cache key.
+export const CLOUDFRONT_SIGNAL_HEADER = "x-supertab-signal-headers";
+
 /**
  * Handles an Origin request in CloudFront. Expects X-Original-Request-URL header to contain the original viewer request URL.
  * @param handler
@@ -216,11 +327,29 @@ function statusDescription(status: number): CDNStatusDescription {
  */
 export async function handleCloudfrontRequest<TRequest extends Record<string, any>>(
   handler: RequestHandler,
-  event: CloudFrontRequestEvent<TRequest>
+  event: CloudFrontRequestEvent<TRequest>,
+  rslOptions?: RSLHostingOptions,
+  robotsTxt?: RobotsTxtHandling
 ): Promise<CloudFrontRequestResult<TRequest>> {
   const cfRequest = event.Records[0].cf.request;
   const config = event.Records[0].cf.config;
 
+  if (rslOptions && cfRequest.uri === "/license.xml") {
+    // CloudFront caches this response, so conditionals go upstream (see relayRSLicenseXML).
+    const ifNoneMatch = cfRequest.headers["if-none-match"]?.[0]?.value;
+    const response = await relayRSLicenseXML(
+      rslOptions.baseUrl,
+      rslOptions.merchantSystemUrn,
+      new Request(`https://${cfRequest.headers.host[0].value}/license.xml`, {
+        headers: ifNoneMatch ? { "If-None-Match": ifNoneMatch } : {},
+      })
+    );
+    return toCloudfrontResponse(response.status, Object.fromEntries(response.headers), await response.text());
+  }
+
+  // CloudFront fetches robots.txt from the origin itself; see rewriteCloudfrontRobotsTxt.
+  if (robotsTxt && isRobotsTxtRequest(cfRequest.method, cfRequest.uri)) return cfRequest;
+
   // Convert CloudFront request to Web API Request
   const viewerRequestUrl = cfRequest.headers?.["x-original-request-url"]?.[0]?.value;
   const originRequestUrl = `${cfRequest.headers.host[0].value}${cfRequest.uri}`;
@@ -247,19 +376,240 @@ export async function handleCloudfrontRequest<TRequest extends Record<string, an
   });
 
   if (result.action === HandlerAction.BLOCK || result.action === HandlerAction.RESPOND) {
-    const responseHeaders: CloudFrontHeaders = {};
-    Object.entries(result.headers).forEach(([key, value]) => {
-      responseHeaders[key.toLowerCase()] = [{ key, value }];
-    });
+    return toCloudfrontResponse(result.status, result.headers, result.body);
+  }
+
+  // Allow request to continue to origin, handing the signal headers to the origin-response trigger
+  if (result.headers && Object.keys(result.headers).length > 0) {
+    cfRequest.headers[CLOUDFRONT_SIGNAL_HEADER] = [
+      { key: CLOUDFRONT_SIGNAL_HEADER, value: JSON.stringify(result.headers) },
+    ];
+  }
+  return cfRequest;
+}
+
+/**
+ * Handles an origin-response event in CloudFront: copies the signal headers recorded by
+ * `handleCloudfrontRequest` onto the origin response.
+ * @param event The CloudFront origin-response event
+ */
+export function applyCloudfrontSignalHeaders<TResponse extends Record<string, any>>(
+  event: CloudFrontResponseEvent<TResponse>
+): CloudFrontResponseEvent<TResponse>["Records"][number]["cf"]["response"] {
+  const { request, response } = event.Records[0].cf;
+  const stashed = request.headers[CLOUDFRONT_SIGNAL_HEADER]?.[0]?.value;
+  if (!stashed) return response;
+
+  const headers = JSON.parse(stashed) as Record<string, string>;
+  for (const [key, value] of Object.entries(headers)) {
+    response.headers[key.toLowerCase()] = [{ key, value }];
+  }
+  return response;
+}
+
+/** Base URL of the origin a CloudFront event is bound for, or null when the event names none. */
+function cloudfrontOriginBase(origin: CloudFrontRequestEvent["Records"][number]["cf"]["request"]["origin"]): string | null {
+  const custom = origin?.custom;
+  if (custom) {
+    const protocol = custom.protocol ?? "https";
+    const defaultPort = protocol === "https" ? 443 : 80;
+    const port = custom.port && custom.port !== defaultPort ? `:${custom.port}` : "";
+    return `${protocol}://${custom.domainName}${port}${custom.path ?? ""}`;
+  }
+  return origin?.s3 ? `https://${origin.s3.domainName}${origin.s3.path ?? ""}` : null;
+}
+
+/**
+ * Handles robots.txt in a CloudFront origin-response event. A missing origin robots.txt (404, or
+ * the 403 an S3 origin answers for a missing key) is replaced by one holding just the directives.
+ * Lambda@Edge does not expose the origin's body to this trigger, so an existing one is fetched
+ * again from the origin, with the origin's custom headers, and the response body is replaced by
+ * its rewrite. If that fetch fails, the response is left as it is.
+ * @param event The CloudFront origin-response event
+ * @param robotsTxt The robots.txt options and the policy the Disallow group is derived from
+ */
+export async function rewriteCloudfrontRobotsTxt<TResponse extends Record<string, any>>(
+  event: CloudFrontResponseEvent<TResponse>,
+  robotsTxt: RobotsTxtHandling
+): Promise<CloudFrontResponseEvent<TResponse>["Records"][number]["cf"]["response"]> {
+  const { request, response } = event.Records[0].cf;
+  if (!isRobotsTxtRequest(request.method, request.uri)) return response;
+
+  const viewerRequestUrl = request.headers["x-original-request-url"]?.[0]?.value;
+  const host = viewerRequestUrl ? new URL(`https://${viewerRequestUrl}`).host : request.headers.host[0].value;
+  const requestUrl = `https://${host}/robots.txt`;
+  const missing = response.status === "404" || (response.status === "403" && request.origin?.s3 !== undefined);
+  if (missing) {
+    response.status = "200";
+    response.statusDescription = "OK";
+    response.headers = { "content-type": [{ key: "Content-Type", value: "text/plain; charset=utf-8" }] };
+    response.body = rewriteRobotsTxt("", requestUrl, robotsTxt.options, robotsTxt.policy);
+    return response;
+  }
+
+  const originBase = cloudfrontOriginBase(request.origin);
+  if (!response.status.startsWith("2") || !originBase) return response;
+  // Fetching the origin directly: a request to the distribution would re-enter these triggers.
+  const origin = request.origin?.custom ?? request.origin?.s3;
+  const originHeaders: Record<string, string> = {};
+  for (const values of Object.values(origin?.customHeaders ?? {})) {
+    for (const { key, value } of values) if (key) originHeaders[key] = value;
+  }
+  const originResponse = await sdkFetch(`${originBase}/robots.txt`, { headers: originHeaders });
+  if (!originResponse.ok) return response;
+
+  response.body = rewriteRobotsTxt(await originResponse.text(), requestUrl, robotsTxt.options, robotsTxt.policy);
+  for (const name of ROBOTS_BODY_HEADERS) delete response.headers[name];
+  const etag = response.headers.etag?.[0];
+  if (etag && !etag.value.startsWith("W/")) etag.value = `W/${etag.value}`;
+  return response;
+}
+
+export const AKAMAI_SIGNAL_HEADERS_VARIABLE = "PMUSER_SUPERTAB_HEADERS";
 
+function headerRecord(headers: HeadersInit | undefined): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (!headers) return record;
+  if (Array.isArray(headers)) {
+    for (const [name, value] of headers) record[name] = value;
+  } else if (typeof (headers as Headers).forEach === "function") {
+    (headers as Headers).forEach((value, name) => (record[name] = value));
+  } else {
+    Object.assign(record, headers);
+  }
+  return record;
+}
+
+/**
+ * Adapt the `http-request` built-in module to the SDK's `FetchLike`. Only string bodies are sent
+ * (every SDK request has one or none), and the response is wrapped in the `Response` subset the
+ * SDK reads, so no global `Response` or `Headers` is needed.
+ */
+export function akamaiFetch(httpRequest: AkamaiHttpRequest): FetchLike {
+  return async (input, init = {}) => {
+    const response = await httpRequest(input, {
+      method: init.method,
+      headers: headerRecord(init.headers),
+      body: typeof init.body === "string" ? init.body : undefined,
+    });
     return {
-      status: result.status.toString(),
-      statusDescription: statusDescription(result.status),
-      headers: responseHeaders,
-      body: result.body,
-    };
+      ok: response.ok,
+      status: response.status,
+      statusText: "",
+      headers: { get: (name: string) => response.getHeader(name)?.join(", ") ?? null },
+      text: () => response.text(),
+      json: () => response.json(),
+    } as unknown as Response;
+  };
+}
+
+// Invocations relying on the `globalThis.crypto` installed by `withAkamaiRuntime`.
+let akamaiCryptoScopes = 0;
+
+/**
+ * Run `run` against the EdgeWorkers built-ins, which the runtime does not expose as globals:
+ * outbound requests go through `httpRequest`, and `webCrypto` is installed as `globalThis.crypto`
+ * when there is none (jose reads the global). Both are removed again once the last overlapping
+ * invocation settles.
+ */
+export async function withAkamaiRuntime<T>(
+  httpRequest: AkamaiHttpRequest | undefined,
+  webCrypto: Crypto | undefined,
+  run: () => Promise<T>
+): Promise<T> {
+  const installCrypto = webCrypto !== undefined && (akamaiCryptoScopes > 0 || !globalThis.crypto);
+  if (installCrypto) {
+    if (akamaiCryptoScopes === 0) {
+      Object.defineProperty(globalThis, "crypto", { value: webCrypto, configurable: true, writable: true });
+    }
+    akamaiCryptoScopes += 1;
   }
+  try {
+    return httpRequest ? await withFetch(akamaiFetch(httpRequest), run) : await run();
+  } finally {
+    if (installCrypto) {
+      akamaiCryptoScopes -= 1;
+      if (akamaiCryptoScopes === 0) delete (globalThis as { crypto?: Crypto }).crypto;
+    }
+  }
+}
 
-  // Allow request to continue to origin
-  return cfRequest;
+/**
+ * Wrap an EdgeWorkers request in the `Request` subset the SDK reads (`url`, `method` and
+ * `headers.get` / `has` / `keys` / `entries` / `forEach`), so no global `Request` or `Headers` is
+ * needed. Repeated header values are joined with ", ".
+ */
+export function akamaiWebRequest(request: AkamaiClientRequest): Request {
+  const values = new Map<string, string>();
+  for (const [name, list] of Object.entries(request.getHeaders())) {
+    values.set(name.toLowerCase(), list.join(", "));
+  }
+  const headers = {
+    get: (name: string) => values.get(name.toLowerCase()) ?? null,
+    has: (name: string) => values.has(name.toLowerCase()),
+    keys: () => values.keys(),
+    entries: () => values.entries(),
+    forEach: (callback: (value: string, name: string) => void) => values.forEach(callback),
+    [Symbol.iterator]: () => values.entries(),
+  };
+  return {
+    url: `${request.scheme}://${request.host}${request.url}`,
+    method: request.method,
+    headers,
+  } as unknown as Request;
+}
+
+/**
+ * Handles an EdgeWorkers `onClientRequest` event. BLOCK/RESPOND results are answered with
+ * `request.respondWith`; ALLOW signal headers are stashed in a property variable for
+ * `applyAkamaiSignalHeaders`, since `onClientResponse` runs as a separate invocation.
+ * @param handler Request handler instance that inspects the request and decides whether to allow or block it.
+ * @param request The EdgeWorkers client request.
+ * @param signalHeadersVariable PMUSER_ variable used to hand the signal headers to `onClientResponse`.
+ */
+export async function handleAkamaiRequest(
+  handler: RequestHandler,
+  request: AkamaiClientRequest,
+  signalHeadersVariable: string = AKAMAI_SIGNAL_HEADERS_VARIABLE
+): Promise<void> {
+  const webRequest = akamaiWebRequest(request);
+
+  // EdgeWorkers has no waitUntil; the event handler's promise must cover analytics emits.
+  const pending: Promise<void>[] = [];
+  const result = await handler.handleRequest(webRequest, {
+    ctx: { waitUntil: (promise) => void pending.push(promise) },
+    sourceCdn: "akamai",
+    clientIp: request.clientIp,
+    requestCountry: request.userLocation?.country ?? null,
+  });
+  await Promise.allSettled(pending);
+
+  switch (result.action) {
+    case HandlerAction.RESPOND:
+    case HandlerAction.BLOCK:
+      request.respondWith(result.status, result.headers, result.body);
+      return;
+    case HandlerAction.ALLOW:
+      if (result.headers && Object.keys(result.headers).length > 0) {
+        request.setVariable(signalHeadersVariable, JSON.stringify(result.headers));
+      }
+      return;
+  }
+}
+
+/**
+ * Handles an EdgeWorkers `onClientResponse` event: copies the signal headers stashed by
+ * `handleAkamaiRequest` onto the response.
+ */
+export function applyAkamaiSignalHeaders(
+  request: AkamaiClientRequest,
+  response: AkamaiClientResponse,
+  signalHeadersVariable: string = AKAMAI_SIGNAL_HEADERS_VARIABLE
+): void {
+  const stashed = request.getVariable(signalHeadersVariable);
+  if (!stashed) return;
+  const headers = JSON.parse(stashed) as Record<string, string>;
+  for (const [name, value] of Object.entries(headers)) {
+    response.setHeader(name, value);
+  }
 }
@@ -0,0 +1,46 @@
+#!/usr/bin/env node
+import { readFileSync } from "node:fs";
+import { loadProxyConfig } from "../server/proxy-config";
+import { startProxyServer } from "../server/proxy";
+
+const USAGE = `Usage: supertab-connect-proxy [--config <file.json>]
+
+Reverse proxy that enforces Supertab Connect in front of an origin.
+Configured by a JSON file (--config or SUPERTAB_CONFIG) and/or environment variables:
+  MERCHANT_API_KEY      Supertab merchant API key (required)
+  SUPERTAB_ORIGIN       Origin URL to forward allowed traffic to (required)
+  SUPERTAB_ENFORCEMENT  disabled | observe | enforce (default: observe)
+  SUPERTAB_ANALYTICS    Emit analytics events (true/false)
+  SUPERTAB_PORT, PORT   Listen port (default: 8080)
+  SUPERTAB_HOST         Listen address (default: 0.0.0.0)
+  SUPERTAB_TRUST_PROXY  Trust X-Forwarded-* from a load balancer (true/false)
+  SUPERTAB_FAIL_OPEN    Forward requests when the SDK fails (default: false under enforce)
+  SUPERTAB_DEBUG        Debug logging (true/false)`;
+
+async function main(argv: string[]): Promise<void> {
+  if (argv.includes("--help") || argv.includes("-h")) {
+    console.log(USAGE);
+    return;
+  }
+  const flag = argv.indexOf("--config");
+  const configPath = flag >= 0 ? argv[flag + 1] : process.env.SUPERTAB_CONFIG;
+  if (flag >= 0 && !configPath) {
+    throw new Error("--config requires a file path");
+  }
+
+  const options = loadProxyConfig(process.env, configPath ? readFileSync(configPath, "utf-8") : undefined);
+  const server = await startProxyServer(options);
+  const address = server.address();
+  const listening = typeof address === "object" && address ? `${address.address}:${address.port}` : address;
+  console.log(`[SupertabConnect] proxy listening on ${listening}, forwarding to ${options.origin}`);
+
+  const shutdown = () => server.close(() => process.exit(0));
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+main(process.argv.slice(2)).catch((err) => {
+  console.error(`[SupertabConnect] ${err instanceof Error ? err.message : err}`);
+  console.error(USAGE);
+  process.exit(1);
+});
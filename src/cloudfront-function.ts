@@ -0,0 +1,70 @@
+import { DEFAULT_BOT_USER_AGENTS } from "./bots";
+
+/**
+ * Options for `buildCloudFrontFunction`, which generates a CloudFront Functions (JavaScript
+ * runtime 2.0) viewer-request script that pre-filters traffic for the Lambda@Edge verifier.
+ */
+export interface CloudFrontFunctionOptions {
+  /** Lowercase User-Agent substrings marking bot traffic. Default: the `defaultBotDetector` list. */
+  botUserAgents?: readonly string[];
+  /** Rewrite `/license.xml` to this origin path (e.g. "/static/license.xml"). Left alone when omitted. */
+  licenseXmlUri?: string;
+}
+
+// Presence of this header is what makes `cloudfrontHandleRequests` verify a request; the value
+// records why the function routed it ("token" or "bot").
+export const CLOUDFRONT_ROUTING_HEADER = "x-license-auth";
+
+const LICENSE_PREFIX = "license ";
+// CloudFront rejects function code above 10 KB.
+const MAX_FUNCTION_SIZE_BYTES = 10 * 1024;
+
+/**
+ * Generate the source of a CloudFront Functions viewer-request handler. It does the cheap checks at
+ * the edge: `/license.xml` rewriting, `Authorization: License` token presence and User-Agent bot
+ * matching. Token-bearing and bot requests get the `x-license-auth` routing header and
+ * `x-original-request-url`, so the origin-request Lambda@Edge verifier only does work for them.
+ * Add both headers to the behaviour's origin request policy, and `x-license-auth` to its cache key.
+ */
+export function buildCloudFrontFunction(options: CloudFrontFunctionOptions = {}): string {
+  const botUserAgents = (options.botUserAgents ?? DEFAULT_BOT_USER_AGENTS).map((ua) => ua.toLowerCase());
+  const source = `// Generated by @getsupertab/supertab-connect-sdk buildCloudFrontFunction().
+// CloudFront Functions JavaScript runtime 2.0, viewer-request event.
+var BOT_USER_AGENTS = ${JSON.stringify(botUserAgents)};
+var LICENSE_XML_URI = ${JSON.stringify(options.licenseXmlUri ?? null)};
+var ROUTING_HEADER = ${JSON.stringify(CLOUDFRONT_ROUTING_HEADER)};
+
+function routingReason(headers) {
+  var auth = headers.authorization ? headers.authorization.value : "";
+  if (auth.toLowerCase().indexOf(${JSON.stringify(LICENSE_PREFIX)}) === 0) return "token";
+  if (headers["signature-input"]) return "bot";
+  var ua = headers["user-agent"] ? headers["user-agent"].value.toLowerCase() : "";
+  for (var i = 0; i < BOT_USER_AGENTS.length; i++) {
+    if (ua.indexOf(BOT_USER_AGENTS[i]) !== -1) return "bot";
+  }
+  return null;
+}
+
+function handler(event) {
+  var request = event.request;
+  var headers = request.headers;
+
+  if (request.uri === "/license.xml") {
+    if (LICENSE_XML_URI) request.uri = LICENSE_XML_URI;
+    return request;
+  }
+
+  var reason = routingReason(headers);
+  if (reason) {
+    headers[ROUTING_HEADER] = { value: reason };
+    var host = headers.host ? headers.host.value : event.context.distributionDomainName;
+    headers["x-original-request-url"] = { value: host + request.uri };
+  }
+  return request;
+}
+`;
+  if (new TextEncoder().encode(source).length > MAX_FUNCTION_SIZE_BYTES) {
+    throw new Error(`Generated CloudFront Function exceeds the ${MAX_FUNCTION_SIZE_BYTES}-byte limit`);
+  }
+  return source;
+}
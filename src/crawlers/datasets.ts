@@ -0,0 +1,151 @@
+export type CrawlerCategory = "search" | "ai";
+
+/**
+ * A crawler that can be verified. A request claims to be the crawler when its User-Agent contains
+ * `userAgentToken`; the claim is verified when the client IP falls in `ipRanges` (or the refreshed
+ * `ipRangesUrl` list), or when reverse DNS resolves under `reverseDnsSuffixes` and forward DNS
+ * confirms the IP.
+ */
+export interface CrawlerDefinition {
+  id: string;
+  operator: string;
+  category: CrawlerCategory;
+  /** Case-insensitive User-Agent substring the crawler identifies itself with. */
+  userAgentToken: string;
+  /** Bundled CIDR blocks, used until (and alongside) a refreshed list. */
+  ipRanges?: string[];
+  /** Operator-published range file in the `{ "prefixes": [...] }` format. */
+  ipRangesUrl?: string;
+  /** Hostname suffixes the operator documents for reverse DNS verification. */
+  reverseDnsSuffixes?: string[];
+}
+
+/**
+ * Built-in crawler definitions. The bundled ranges are a snapshot of the operators' published
+ * lists, so every crawler with a published list can be verified offline; enable `refreshRanges`
+ * to load the current lists as operators add ranges.
+ */
+export const DEFAULT_CRAWLERS: CrawlerDefinition[] = [
+  {
+    id: "googlebot",
+    operator: "Google",
+    category: "search",
+    userAgentToken: "googlebot",
+    ipRanges: ["66.249.64.0/19"],
+    ipRangesUrl: "https://developers.google.com/static/search/apis/ipranges/googlebot.json",
+    reverseDnsSuffixes: ["googlebot.com", "google.com"],
+  },
+  {
+    id: "bingbot",
+    operator: "Microsoft",
+    category: "search",
+    userAgentToken: "bingbot",
+    ipRanges: [
+      "157.55.39.0/24",
+      "207.46.13.0/24",
+      "40.77.167.0/24",
+      "13.66.139.0/24",
+      "13.66.144.0/24",
+      "52.167.144.0/24",
+      "40.77.177.0/24",
+      "40.77.178.0/23",
+      "40.77.188.0/22",
+      "40.77.202.0/24",
+      "65.55.210.0/24",
+      "199.30.24.0/23",
+    ],
+    ipRangesUrl: "https://www.bing.com/toolbox/bingbot.json",
+    reverseDnsSuffixes: ["search.msn.com"],
+  },
+  {
+    id: "applebot",
+    operator: "Apple",
+    category: "search",
+    userAgentToken: "applebot",
+    ipRangesUrl: "https://search.developer.apple.com/applebot.json",
+    reverseDnsSuffixes: ["applebot.apple.com"],
+  },
+  {
+    id: "yandexbot",
+    operator: "Yandex",
+    category: "search",
+    userAgentToken: "yandexbot",
+    reverseDnsSuffixes: ["yandex.ru", "yandex.net", "yandex.com"],
+  },
+  {
+    id: "gptbot",
+    operator: "OpenAI",
+    category: "ai",
+    userAgentToken: "gptbot",
+    ipRanges: [
+      "20.171.206.0/24",
+      "20.171.207.0/24",
+      "52.230.152.0/24",
+      "52.233.106.0/24",
+      "4.227.36.0/25",
+      "20.125.66.80/28",
+      "172.182.204.0/24",
+      "172.182.214.0/24",
+      "172.182.215.0/24",
+    ],
+    ipRangesUrl: "https://openai.com/gptbot.json",
+  },
+  {
+    id: "oai-searchbot",
+    operator: "OpenAI",
+    category: "ai",
+    userAgentToken: "oai-searchbot",
+    ipRanges: [
+      "20.42.10.176/28",
+      "172.203.190.128/28",
+      "104.210.140.128/28",
+      "51.8.102.0/24",
+      "135.234.64.0/24",
+    ],
+    ipRangesUrl: "https://openai.com/searchbot.json",
+  },
+  {
+    id: "chatgpt-user",
+    operator: "OpenAI",
+    category: "ai",
+    userAgentToken: "chatgpt-user",
+    ipRanges: [
+      "23.98.142.176/28",
+      "40.84.180.224/28",
+      "13.65.240.240/28",
+      "20.97.189.96/28",
+      "20.161.75.208/28",
+      "52.225.75.208/28",
+      "52.156.77.144/28",
+      "40.84.221.208/28",
+      "40.84.221.224/28",
+      "40.84.180.64/28",
+    ],
+    ipRangesUrl: "https://openai.com/chatgpt-user.json",
+  },
+  {
+    id: "perplexitybot",
+    operator: "Perplexity",
+    category: "ai",
+    userAgentToken: "perplexitybot",
+    ipRanges: [
+      "107.20.236.150/32",
+      "3.224.62.45/32",
+      "18.210.92.235/32",
+      "3.222.232.239/32",
+      "3.211.124.183/32",
+      "3.231.139.107/32",
+      "18.97.1.228/30",
+      "18.97.9.96/29",
+    ],
+    ipRangesUrl: "https://www.perplexity.ai/perplexitybot.json",
+  },
+  {
+    id: "perplexity-user",
+    operator: "Perplexity",
+    category: "ai",
+    userAgentToken: "perplexity-user",
+    ipRanges: ["44.208.221.197/32", "34.193.163.52/32", "18.97.21.0/30", "18.97.43.80/29"],
+    ipRangesUrl: "https://www.perplexity.ai/perplexity-user.json",
+  },
+];
@@ -0,0 +1,60 @@
+import { parseIp } from "./ip-range";
+import { sdkFetch } from "../fetch";
+
+/** DNS lookups used for reverse/forward confirmation of crawler IPs. */
+export interface DnsResolver {
+  /** PTR hostnames for an IP address. */
+  reverse(ip: string): Promise<string[]>;
+  /** A and AAAA addresses for a hostname. */
+  forward(hostname: string): Promise<string[]>;
+}
+
+/** The `in-addr.arpa` / `ip6.arpa` name for a PTR lookup, or null for an invalid IP. */
+export function reverseDnsName(ip: string): string | null {
+  const parsed = parseIp(ip);
+  if (!parsed) return null;
+  if (parsed.bits === 32) {
+    const octets = [24n, 16n, 8n, 0n].map((shift) => ((parsed.value >> shift) & 0xffn).toString());
+    return `${octets.reverse().join(".")}.in-addr.arpa`;
+  }
+  const nibbles = parsed.value.toString(16).padStart(32, "0").split("");
+  return `${nibbles.reverse().join(".")}.ip6.arpa`;
+}
+
+type DohAnswer = { Answer?: { type: number; data: string }[] };
+
+const DNS_TYPE = { A: 1, PTR: 12, AAAA: 28 } as const;
+
+/**
+ * DNS-over-HTTPS resolver using the JSON API (`application/dns-json`) offered by Cloudflare and
+ * Google. Works in every edge runtime, since it only needs `fetch`.
+ */
+export class DohDnsResolver implements DnsResolver {
+  private readonly endpoint: string;
+
+  constructor(opts: { endpoint?: string } = {}) {
+    this.endpoint = opts.endpoint ?? "https://cloudflare-dns.com/dns-query";
+  }
+
+  private async query(name: string, type: keyof typeof DNS_TYPE): Promise<string[]> {
+    const url = `${this.endpoint}?name=${encodeURIComponent(name)}&type=${type}`;
+    const response = await sdkFetch(url, { headers: { Accept: "application/dns-json" } });
+    if (!response.ok) {
+      throw new Error(`DNS query for ${name} (${type}) failed: ${response.status}`);
+    }
+    const body = (await response.json()) as DohAnswer;
+    return (body.Answer ?? [])
+      .filter((answer) => answer.type === DNS_TYPE[type])
+      .map((answer) => answer.data.replace(/\.$/, ""));
+  }
+
+  async reverse(ip: string): Promise<string[]> {
+    const name = reverseDnsName(ip);
+    return name ? this.query(name, "PTR") : [];
+  }
+
+  async forward(hostname: string): Promise<string[]> {
+    const [v4, v6] = await Promise.all([this.query(hostname, "A"), this.query(hostname, "AAAA")]);
+    return [...v4, ...v6];
+  }
+}
@@ -0,0 +1,258 @@
+import { FASTLY_BACKEND, FetchOptions } from "../types";
+import { SDK_USER_AGENT } from "../version";
+import { sdkFetch } from "../fetch";
+import { getCacheStore } from "../cache";
+import { CrawlerCategory, CrawlerDefinition, DEFAULT_CRAWLERS } from "./datasets";
+import { DnsResolver } from "./dns";
+import { IpRange, ipInRanges, parseCidr, parseIp, parsePublishedRanges } from "./ip-range";
+
+const RANGES_CACHE_PREFIX = "stc:crawler-ranges:";
+const RANGES_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+// Parsed published ranges are reused in-process for this long before re-reading the cache store.
+const RANGES_MEMO_MS = 60 * 60 * 1000; // 1 hour
+// A failed range fetch is not retried for this long; bundled ranges still apply meanwhile.
+const RANGES_FAILURE_RETRY_MS = 5 * 60 * 1000; // 5 minutes
+const DNS_CACHE_PREFIX = "stc:crawler-dns:";
+const DNS_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+// Failed confirmations are remembered in-process only, in a bounded map.
+const DNS_FAILURE_MEMO_MS = 60 * 60 * 1000; // 1 hour
+const MAX_DNS_FAILURE_MEMO = 1000;
+// Reverse DNS confirmations started per isolate per minute; further claims count as unverified.
+const DNS_LOOKUPS_PER_MINUTE = 60;
+
+export interface VerifiedCrawlerOptions {
+  /** Crawler definitions to recognise. Default: DEFAULT_CRAWLERS. */
+  crawlers?: CrawlerDefinition[];
+  /** Fetch operators' published IP range files (cached 24h in the shared cache store). Default: false. */
+  refreshRanges?: boolean;
+  /** Resolver for reverse/forward DNS confirmation. Without one, only IP ranges are checked. */
+  dnsResolver?: DnsResolver;
+  /**
+   * Crawler ids or categories (`"search"`, `"ai"`) whose verified requests bypass enforcement when
+   * they carry no token, e.g. `["search"]` to keep genuine search engines indexing. Verification is
+   * only as trustworthy as the client IP the integration reports, so only exempt crawlers where
+   * that IP cannot be set by the client (see the `trustProxy` options of the Node adapters).
+   */
+  exempt?: string[];
+}
+
+/**
+ * Outcome for a request whose User-Agent claims a known crawler. `verified` is false for a claim
+ * the client IP does not back up — i.e. a likely spoofer.
+ */
+export interface VerifiedCrawlerResult {
+  id: string;
+  operator: string;
+  category: CrawlerCategory;
+  verified: boolean;
+  method: "ip_range" | "reverse_dns" | null;
+}
+
+// Parsed bundled ranges per crawler id, computed once per isolate.
+const bundledRanges = new Map<string, IpRange[]>();
+// Parsed published ranges per range file URL; an empty list with a short expiry after a failure.
+const publishedRangeMemo = new Map<string, { ranges: IpRange[]; expiresAt: number }>();
+// Expiry of failed DNS confirmations per suffix list and IP. Any client can send a crawler
+// User-Agent from a fresh IP, so failures must not write to the shared store or grow unbounded.
+const dnsFailureMemo = new Map<string, number>();
+let dnsLookupWindow = { startedAt: 0, lookups: 0 };
+
+function toRanges(cidrs: string[]): IpRange[] {
+  return cidrs.map(parseCidr).filter((range): range is IpRange => range !== null);
+}
+
+function buildFetchOptions(): FetchOptions {
+  let options: FetchOptions = { method: "GET", headers: { "User-Agent": SDK_USER_AGENT } };
+  if (globalThis.fastly) {
+    options = { ...options, backend: FASTLY_BACKEND };
+  }
+  return options;
+}
+
+async function publishedRanges(crawler: CrawlerDefinition, debug: boolean): Promise<IpRange[]> {
+  const url = crawler.ipRangesUrl;
+  if (!url) return [];
+  const memo = publishedRangeMemo.get(url);
+  if (memo && memo.expiresAt > Date.now()) return memo.ranges;
+
+  const remember = (ranges: IpRange[], forMs: number) => {
+    publishedRangeMemo.set(url, { ranges, expiresAt: Date.now() + forMs });
+    return ranges;
+  };
+
+  const store = getCacheStore();
+  const cacheKey = RANGES_CACHE_PREFIX + url;
+  try {
+    const cached = await store.get<string[]>(cacheKey);
+    if (cached) return remember(toRanges(cached), RANGES_MEMO_MS);
+  } catch (error) {
+    if (debug) console.error("Crawler range cache read failed:", error);
+  }
+
+  try {
+    const response = await sdkFetch(url, buildFetchOptions());
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${crawler.id} IP ranges: ${response.status}`);
+    }
+    const cidrs = parsePublishedRanges(await response.json());
+    await store.set(cacheKey, cidrs, RANGES_TTL_SECONDS).catch(() => undefined);
+    return remember(toRanges(cidrs), RANGES_MEMO_MS);
+  } catch (error) {
+    if (debug) console.error(`Crawler range refresh for ${crawler.id} failed:`, error);
+    return remember([], RANGES_FAILURE_RETRY_MS);
+  }
+}
+
+/** Drop the in-process range and DNS memos and the lookup budget (the cache store is left alone). */
+export function clearCrawlerRangeMemo(): void {
+  publishedRangeMemo.clear();
+  dnsFailureMemo.clear();
+  dnsLookupWindow = { startedAt: 0, lookups: 0 };
+}
+
+function rememberDnsFailure(key: string): void {
+  dnsFailureMemo.delete(key);
+  dnsFailureMemo.set(key, Date.now() + DNS_FAILURE_MEMO_MS);
+  while (dnsFailureMemo.size > MAX_DNS_FAILURE_MEMO) {
+    dnsFailureMemo.delete(dnsFailureMemo.keys().next().value as string);
+  }
+}
+
+function takeDnsLookup(): boolean {
+  const now = Date.now();
+  if (now - dnsLookupWindow.startedAt >= 60 * 1000) {
+    dnsLookupWindow = { startedAt: now, lookups: 0 };
+  }
+  if (dnsLookupWindow.lookups >= DNS_LOOKUPS_PER_MINUTE) return false;
+  dnsLookupWindow.lookups += 1;
+  return true;
+}
+
+async function rangesFor(crawler: CrawlerDefinition, refresh: boolean, debug: boolean): Promise<IpRange[]> {
+  let bundled = bundledRanges.get(crawler.id);
+  if (!bundled) {
+    bundled = toRanges(crawler.ipRanges ?? []);
+    bundledRanges.set(crawler.id, bundled);
+  }
+  return refresh ? [...bundled, ...(await publishedRanges(crawler, debug))] : bundled;
+}
+
+function sameIp(a: string, b: string): boolean {
+  const left = parseIp(a);
+  const right = parseIp(b);
+  return !!left && !!right && left.bits === right.bits && left.value === right.value;
+}
+
+/**
+ * Reverse-resolve `ip`, require a hostname under one of `suffixes`, then forward-confirm it.
+ * Only confirmations are written to the shared store; failures stay in a bounded in-process memo.
+ */
+async function confirmReverseDns(
+  ip: string,
+  suffixes: string[],
+  resolver: DnsResolver,
+  debug: boolean
+): Promise<boolean> {
+  const memoKey = `${suffixes.join(",")}:${ip}`;
+  const failedUntil = dnsFailureMemo.get(memoKey);
+  if (failedUntil !== undefined) {
+    if (failedUntil > Date.now()) return false;
+    dnsFailureMemo.delete(memoKey);
+  }
+
+  const store = getCacheStore();
+  const cacheKey = DNS_CACHE_PREFIX + memoKey;
+  try {
+    if (await store.get<boolean>(cacheKey)) return true;
+  } catch (error) {
+    if (debug) console.error("Crawler DNS cache read failed:", error);
+  }
+
+  if (!takeDnsLookup()) {
+    if (debug) console.debug(`Crawler DNS lookup budget exhausted; ${ip} left unverified`);
+    return false;
+  }
+
+  let confirmed = false;
+  try {
+    const hostnames = await resolver.reverse(ip);
+    for (const hostname of hostnames) {
+      const host = hostname.toLowerCase();
+      if (!suffixes.some((suffix) => host === suffix || host.endsWith(`.${suffix}`))) continue;
+      const addresses = await resolver.forward(host);
+      if (addresses.some((address) => sameIp(address, ip))) {
+        confirmed = true;
+        break;
+      }
+    }
+  } catch (error) {
+    // Resolver outages are not cached, so the next request retries.
+    if (debug) console.error("Crawler DNS verification failed:", error);
+    return false;
+  }
+
+  if (confirmed) {
+    await store.set(cacheKey, true, DNS_TTL_SECONDS).catch(() => undefined);
+  } else {
+    rememberDnsFailure(memoKey);
+  }
+  return confirmed;
+}
+
+/**
+ * Identify the crawler a request claims to be (by User-Agent) and verify the claim against the
+ * client IP. Returns null when the User-Agent claims no known crawler.
+ */
+export async function verifyCrawler(
+  request: Request,
+  clientIp: string | undefined,
+  options: VerifiedCrawlerOptions,
+  debug = false
+): Promise<VerifiedCrawlerResult | null> {
+  const userAgent = (request.headers.get("User-Agent") ?? "").toLowerCase();
+  const crawler = (options.crawlers ?? DEFAULT_CRAWLERS).find((candidate) =>
+    userAgent.includes(candidate.userAgentToken.toLowerCase())
+  );
+  if (!crawler) return null;
+
+  const result: VerifiedCrawlerResult = {
+    id: crawler.id,
+    operator: crawler.operator,
+    category: crawler.category,
+    verified: false,
+    method: null,
+  };
+  if (!clientIp) return result;
+
+  if (ipInRanges(clientIp, await rangesFor(crawler, options.refreshRanges ?? false, debug))) {
+    return { ...result, verified: true, method: "ip_range" };
+  }
+  if (
+    options.dnsResolver &&
+    crawler.reverseDnsSuffixes?.length &&
+    (await confirmReverseDns(clientIp, crawler.reverseDnsSuffixes, options.dnsResolver, debug))
+  ) {
+    return { ...result, verified: true, method: "reverse_dns" };
+  }
+
+  if (debug) {
+    console.debug(`User-Agent claims ${crawler.id} but ${clientIp} could not be verified`);
+  }
+  return result;
+}
+
+/** Whether a verified crawler is exempt from enforcement under `options.exempt`. */
+export function isExemptCrawler(
+  crawler: VerifiedCrawlerResult | null,
+  options: VerifiedCrawlerOptions
+): boolean {
+  if (!crawler?.verified || !options.exempt) return false;
+  return options.exempt.includes(crawler.id) || options.exempt.includes(crawler.category);
+}
+
+export { DEFAULT_CRAWLERS } from "./datasets";
+export { DohDnsResolver, reverseDnsName } from "./dns";
+export { ipInRanges, parseCidr, parsePublishedRanges } from "./ip-range";
+export type { CrawlerCategory, CrawlerDefinition } from "./datasets";
+export type { DnsResolver } from "./dns";
+export type { IpRange } from "./ip-range";
@@ -0,0 +1,97 @@
+/** A parsed CIDR block: `bits` is 32 for IPv4 and 128 for IPv6. */
+export interface IpRange {
+  bits: 32 | 128;
+  network: bigint;
+  prefixLength: number;
+}
+
+function parseIpv4(ip: string): bigint | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = (value << 8n) | BigInt(octet);
+  }
+  return value;
+}
+
+function parseIpv6(ip: string): bigint | null {
+  let address = ip;
+  // An embedded IPv4 tail (e.g. ::ffff:192.0.2.1) becomes two hextets.
+  const v4Tail = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4Tail) {
+    const v4 = parseIpv4(v4Tail[2]);
+    if (v4 === null) return null;
+    address = `${v4Tail[1]}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const hextets = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  let value = 0n;
+  for (const hextet of hextets) {
+    if (!/^[0-9a-fA-F]{1,4}$/.test(hextet)) return null;
+    value = (value << 16n) | BigInt(parseInt(hextet, 16));
+  }
+  return value;
+}
+
+/** Parse an IPv4 or IPv6 address. IPv4-mapped IPv6 addresses are returned as IPv4. */
+export function parseIp(ip: string): { bits: 32 | 128; value: bigint } | null {
+  const trimmed = ip.trim();
+  if (trimmed.includes(":")) {
+    const value = parseIpv6(trimmed);
+    if (value === null) return null;
+    if (value >> 32n === 0xffffn) {
+      return { bits: 32, value: value & 0xffffffffn };
+    }
+    return { bits: 128, value };
+  }
+  const value = parseIpv4(trimmed);
+  return value === null ? null : { bits: 32, value };
+}
+
+/** Parse a CIDR block such as `66.249.64.0/27` or `2001:4860:4801:10::/64`. */
+export function parseCidr(cidr: string): IpRange | null {
+  const [address, prefix] = cidr.trim().split("/");
+  const parsed = parseIp(address);
+  if (!parsed) return null;
+  const prefixLength = prefix === undefined ? parsed.bits : Number(prefix);
+  if (!Number.isInteger(prefixLength) || prefixLength < 0 || prefixLength > parsed.bits) return null;
+  const shift = BigInt(parsed.bits - prefixLength);
+  return { bits: parsed.bits, network: (parsed.value >> shift) << shift, prefixLength };
+}
+
+export function ipInRanges(ip: string, ranges: IpRange[]): boolean {
+  const parsed = parseIp(ip);
+  if (!parsed) return false;
+  return ranges.some((range) => {
+    if (range.bits !== parsed.bits) return false;
+    const shift = BigInt(range.bits - range.prefixLength);
+    return (parsed.value >> shift) << shift === range.network;
+  });
+}
+
+/**
+ * Extract CIDR strings from a published crawler range file. Google, Bing, OpenAI and Perplexity
+ * all use `{ "prefixes": [{ "ipv4Prefix": "…" } | { "ipv6Prefix": "…" }] }`.
+ */
+export function parsePublishedRanges(body: unknown): string[] {
+  const prefixes = (body as { prefixes?: unknown })?.prefixes;
+  if (!Array.isArray(prefixes)) return [];
+  const cidrs: string[] = [];
+  for (const entry of prefixes) {
+    const cidr = (entry as { ipv4Prefix?: unknown; ipv6Prefix?: unknown })?.ipv4Prefix ??
+      (entry as { ipv6Prefix?: unknown })?.ipv6Prefix;
+    if (typeof cidr === "string") cidrs.push(cidr);
+  }
+  return cidrs;
+}
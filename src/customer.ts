@@ -1,16 +1,29 @@
 import { loadKeyImport, loadJwtSign, loadDecodeJwt } from "./jose";
-import { scorePathPattern } from "./url-pattern";
+import { findBestPatternMatch } from "./url-pattern";
 import { SDK_USER_AGENT } from "./version";
+import { getCacheStore } from "./cache";
+import { parseXml, XmlElement, XmlParseError } from "./xml";
+import {
+  readRslContent,
+  readRslLicense,
+  RslContent,
+  RslLicense,
+  rslChildren,
+  rslContentElements,
+  rslLicensePermitsUsage,
+} from "./rsl";
 
 type SupportedAlg = "RS256" | "ES256";
 
 type CachedToken = { token: string; exp: number };
 
-// In-memory cache for license tokens, keyed by "clientId:server:urlPattern"
-const licenseTokenCache = new Map<string, CachedToken>();
+// License tokens are cached in the shared CacheStore, keyed by "clientId:server:urlPattern"
+const LICENSE_TOKEN_CACHE_PREFIX = "stc:license-token:";
 
 type CachedLicenseXml = { xml: string; fetchedAt: number };
 const LICENSE_XML_TTL_SECONDS = 15 * 60; // 15 minutes
+// license.xml content is cached in the shared CacheStore, keyed by origin (e.g. "https://example.com")
+const LICENSE_XML_CACHE_PREFIX = "stc:license-xml:";
 
 // Default Supertab Connect API base. A merchant's robots.txt may advertise several
 // licensing providers (e.g. rslcollective + Supertab); selection prefers the block whose
@@ -18,23 +31,30 @@ const LICENSE_XML_TTL_SECONDS = 15 * 60; // 15 minutes
 // Mirrors SupertabConnect.baseUrl in index.ts; the class passes its configured value.
 const DEFAULT_SUPERTAB_BASE_URL = "https://api-connect.supertab.co";
 
-// In-memory cache for license.xml content, keyed by origin (e.g. "https://example.com")
-const licenseXmlCache = new Map<string, CachedLicenseXml>();
+/** Read from the shared cache store, treating a store failure as a miss. */
+async function readCache<T>(key: string, debug: boolean | undefined): Promise<T | undefined> {
+  try {
+    return await getCacheStore().get<T>(key);
+  } catch (err) {
+    if (debug) console.debug(`Cache read for ${key} failed (${String(err)}); treating as a miss`);
+    return undefined;
+  }
+}
 
-function evictExpiredLicenseXml(): void {
-  const now = Math.floor(Date.now() / 1000);
-  for (const [origin, entry] of licenseXmlCache) {
-    if (now - entry.fetchedAt >= LICENSE_XML_TTL_SECONDS) {
-      licenseXmlCache.delete(origin);
-    }
+/** Write to the shared cache store; a store failure only costs a refetch later. */
+async function writeCache<T>(key: string, value: T, ttlSeconds: number, debug: boolean | undefined): Promise<void> {
+  try {
+    await getCacheStore().set(key, value, ttlSeconds);
+  } catch (err) {
+    if (debug) console.debug(`Cache write for ${key} failed (${String(err)})`);
   }
 }
 
-function getCachedToken(
+async function getCachedToken(
   cacheKey: string,
   debug?: boolean
-): string | null {
-  const cached = licenseTokenCache.get(cacheKey);
+): Promise<string | null> {
+  const cached = await readCache<CachedToken>(LICENSE_TOKEN_CACHE_PREFIX + cacheKey, debug);
   if (!cached) return null;
 
   const now = Math.floor(Date.now() / 1000);
@@ -50,7 +70,6 @@ function getCachedToken(
   if (debug) {
     console.debug("Cached license token expired or expiring soon, refreshing");
   }
-  licenseTokenCache.delete(cacheKey);
   return null;
 }
 
@@ -83,10 +102,14 @@ type ObtainLicenseTokenParams = {
 
 type ContentBlock = {
   urlPattern: string;
+  /** Source of the block's first `<license>` element. */
   licenseXml: string;
   server?: string;
 };
 
+// Typed `<content>` models of the blocks returned by parseContentElements.
+const blockContents = new WeakMap<ContentBlock, RslContent>();
+
 async function retrieveLicenseToken(
     tokenEndpoint: string,
     requestOptions: RequestInit,
@@ -227,9 +250,13 @@ function parseRobotsLicenseDirectives(robotsTxt: string): string[] {
   return urls;
 }
 
-function cacheLicenseXml(origin: string, xml: string): void {
-  evictExpiredLicenseXml();
-  licenseXmlCache.set(origin, { xml, fetchedAt: Math.floor(Date.now() / 1000) });
+async function cacheLicenseXml(origin: string, xml: string, debug: boolean | undefined): Promise<void> {
+  await writeCache<CachedLicenseXml>(
+    LICENSE_XML_CACHE_PREFIX + origin,
+    { xml, fetchedAt: Math.floor(Date.now() / 1000) },
+    LICENSE_XML_TTL_SECONDS,
+    debug
+  );
 }
 
 /** Fetch ${origin}/license.xml. Returns the XML, or null on any non-ok / network error. */
@@ -362,7 +389,7 @@ async function fetchLicenseXml(
 ): Promise<string> {
   const origin = new URL(resourceUrl).origin;
 
-  const cached = licenseXmlCache.get(origin);
+  const cached = await readCache<CachedLicenseXml>(LICENSE_XML_CACHE_PREFIX + origin, debug);
   if (cached) {
     const now = Math.floor(Date.now() / 1000);
     if (now - cached.fetchedAt < LICENSE_XML_TTL_SECONDS) {
@@ -372,12 +399,11 @@ async function fetchLicenseXml(
       return cached.xml;
     }
     if (debug) console.debug(`Cached license.xml for origin ${origin} expired, re-fetching`);
-    licenseXmlCache.delete(origin);
   }
 
   const originXml = await tryFetchOriginLicenseXml(origin, debug);
   if (originXml !== null) {
-    cacheLicenseXml(origin, originXml);
+    await cacheLicenseXml(origin, originXml, debug);
     return originXml;
   }
 
@@ -386,94 +412,105 @@ async function fetchLicenseXml(
   // per merchant covers the whole origin. If a merchant ever publishes multiple
   // resource-partitioned mintable directives, key the cache by resolved license URL
   // (or resource pattern) instead, or this will serve the wrong license for some paths.
-  cacheLicenseXml(origin, discovered);
+  await cacheLicenseXml(origin, discovered, debug);
   return discovered;
 }
 
+/** A `<content>` element with the source it was parsed from, for slicing out its `<license>`. */
+type ParsedContentElement = { element: XmlElement; source: string };
+
+const CONTENT_START_TAG = /<((?:[^\s/>=<"':]+:)?content)[\s/>]/g;
+const ROOT_NAMESPACE_DECLARATIONS = /\sxmlns(?::[^\s/>=<"']+)?\s*=\s*(?:"[^"]*"|'[^']*')/g;
+
+/**
+ * Parse each `<content>` element of a document that is not well-formed on its own, so one broken
+ * block does not hide the others. Elements are wrapped in an `<rsl>` carrying the namespace
+ * declarations of the document's root start tag; elements that still fail to parse are skipped.
+ */
+function recoverContentElements(xml: string, debug?: boolean): ParsedContentElement[] {
+  const rootStart = xml.match(/<(?![?!])[^>]*>/)?.[0] ?? "";
+  const declarations = (rootStart.match(ROOT_NAMESPACE_DECLARATIONS) ?? []).join("");
+  const starts = [...xml.matchAll(CONTENT_START_TAG)];
+
+  const recovered: ParsedContentElement[] = [];
+  starts.forEach((match, index) => {
+    const qname = match[1];
+    const segment = xml.slice(match.index, starts[index + 1]?.index ?? xml.length);
+    const closeTag = segment.lastIndexOf(`</${qname}`);
+    const end = closeTag === -1 ? -1 : segment.indexOf(">", closeTag);
+    const source = `<rsl${declarations}>${end === -1 ? segment : segment.slice(0, end + 1)}</rsl>`;
+    try {
+      recovered.push(...rslContentElements(parseXml(source)).map((element) => ({ element, source })));
+    } catch (err) {
+      if (!(err instanceof XmlParseError)) throw err;
+      if (debug) console.debug(`Skipping unparseable <content> element #${index + 1}: ${err.message}`);
+    }
+  });
+  return recovered;
+}
+
 function parseContentElements(xml: string, debug?: boolean): ContentBlock[] {
+  let contentElements: ParsedContentElement[];
+  try {
+    contentElements = rslContentElements(parseXml(xml)).map((element) => ({ element, source: xml }));
+  } catch (err) {
+    if (!(err instanceof XmlParseError)) throw err;
+    if (debug) {
+      console.debug(`Could not parse license.xml (${err.message}), parsing <content> elements one by one`);
+    }
+    contentElements = recoverContentElements(xml, debug);
+  }
+
   const contentBlocks: ContentBlock[] = [];
-  const contentRegex = /<content\s([^>]*)>([\s\S]*?)<\/content>/gi;
-  const urlRegex = /url\s*=\s*"([^"]*)"/i;
-  const serverRegex = /server\s*=\s*"([^"]*)"/i;
-  const licenseRegex = /<license[^>]*>[\s\S]*?<\/license>/i;
-
-  let elementCount = 0;
-  let match;
-  while ((match = contentRegex.exec(xml)) !== null) {
-    elementCount++;
-    const attrs = match[1];
-    const body = match[2];
-    const urlMatch = attrs.match(urlRegex);
-    const serverMatch = attrs.match(serverRegex);
-    const licenseMatch = body.match(licenseRegex);
-
-    if (urlMatch && licenseMatch) {
-      contentBlocks.push({
-        urlPattern: urlMatch[1],
-        server: serverMatch?.[1],
-        licenseXml: licenseMatch[0],
-      });
+  contentElements.forEach(({ element, source }, index) => {
+    const content = readRslContent(element);
+    const license = rslChildren(element, "license")[0];
+
+    if (content && license) {
+      const block: ContentBlock = {
+        urlPattern: content.url,
+        server: content.server ?? undefined,
+        licenseXml: source.slice(license.start, license.end),
+      };
+      blockContents.set(block, content);
+      contentBlocks.push(block);
     } else if (debug) {
       const missing = [
-        !urlMatch && "url",
-        !licenseMatch && "<license>",
+        !content && "url",
+        !license && "<license>",
       ].filter(Boolean).join(", ");
-      console.debug(`Skipping <content> element #${elementCount}: missing ${missing}`);
+      console.debug(`Skipping <content> element #${index + 1}: missing ${missing}`);
     }
-  }
+  });
 
   if (debug) {
-    console.debug(`Found ${elementCount} <content> element(s), ${contentBlocks.length} valid`);
+    console.debug(`Found ${contentElements.length} <content> element(s), ${contentBlocks.length} valid`);
   }
 
   return contentBlocks;
 }
 
+/** Licenses of a content block; blocks not from `parseContentElements` are read from `licenseXml`. */
+function blockLicenses(block: ContentBlock): RslLicense[] {
+  const content = blockContents.get(block);
+  if (content) return content.licenses;
+  try {
+    return [readRslLicense(parseXml(block.licenseXml))];
+  } catch {
+    return [];
+  }
+}
+
 /**
- * Check if <license> section permits the chosen usage type without prohibiting it
- * @param licenseXml
+ * Check if a <license> of the block permits the chosen usage type without prohibiting it
+ * @param block
  * @param usage
  */
 function licensePermitsUsage(
-  licenseXml: string,
+  block: ContentBlock,
   usage: UsageType
 ): boolean {
-  const permitsRegex = /<permits\b[^>]*type\s*=\s*"usage"[^>]*>([\s\S]*?)<\/permits>/gi;
-  const prohibitsRegex = /<prohibits\b[^>]*type\s*=\s*"usage"[^>]*>([\s\S]*?)<\/prohibits>/gi;
-
-  let match: RegExpExecArray | null;
-
-  // Check for <prohibits> first - it takes precedence
-  while ((match = prohibitsRegex.exec(licenseXml)) !== null) {
-    const prohibitedUsages = match[1]
-      .trim()
-      .split(/\s+/)
-      .filter(Boolean);
-
-    if (
-      prohibitedUsages.includes(UsageType.ALL) ||
-      prohibitedUsages.includes(usage)
-    ) {
-      return false;
-    }
-  }
-
-  // Now we can safely look for <permits>
-  while ((match = permitsRegex.exec(licenseXml)) !== null) {
-    const permittedUsages = match[1]
-      .trim()
-      .split(/\s+/)
-      .filter(Boolean);
-
-    if (
-      permittedUsages.includes(UsageType.ALL) ||
-      permittedUsages.includes(usage)
-    ) {
-      return true;
-    }
-  }
-
-  return false;
+  return blockLicenses(block).some((license) => rslLicensePermitsUsage(license, usage));
 }
 
 function findBestMatchingContent(
@@ -482,71 +519,27 @@ function findBestMatchingContent(
   debug?: boolean
 ): ContentBlock | null {
   const parsed = new URL(resourceUrl);
-  const host = parsed.host;
-  const path = parsed.pathname;
 
   if (debug) {
-    console.debug(`Matching resource URL: ${resourceUrl} (host=${host}, path=${path})`);
+    console.debug(`Matching resource URL: ${resourceUrl} (host=${parsed.host}, path=${parsed.pathname})`);
   }
 
-  let bestMatch: ContentBlock | null = null;
-  let bestSpecificity = -1;
-
-  for (const block of contentBlocks) {
-    let patternPath: string;
-    const isPathOnly = block.urlPattern.startsWith("/");
-
-    if (isPathOnly) {
-      patternPath = block.urlPattern;
-    } else {
-      let patternUrl: URL;
-      try {
-        patternUrl = new URL(block.urlPattern);
-      } catch {
-        if (debug) {
-          console.debug(`Skipping block with invalid URL pattern: ${block.urlPattern}`);
-        }
-        continue;
-      }
-
-      if (patternUrl.host !== host) {
-        if (debug) {
-          console.debug(`Skipping block: host mismatch (pattern=${patternUrl.host}, resource=${host})`);
-        }
-        continue;
-      }
-
-      patternPath = patternUrl.pathname;
-    }
-
-    // Exact match — highest priority, return immediately
-    if (patternPath === path) {
-      if (debug) {
-        console.debug(`Exact match found: ${block.urlPattern}`);
-      }
-      return block;
-    }
-
-    // Pattern match (wildcards, prefix, anchored)
-    const specificity = scorePathPattern(patternPath, path);
-    if (specificity > bestSpecificity) {
-      bestSpecificity = specificity;
-      bestMatch = block;
-    }
-  }
+  const match = findBestPatternMatch(contentBlocks, (block) => block.urlPattern, parsed, debug);
 
   if (debug) {
-    if (bestMatch) {
-      console.debug(`Wildcard match found: ${bestMatch.urlPattern} (specificity=${bestSpecificity})`);
+    if (match?.exact) {
+      console.debug(`Exact match found: ${match.item.urlPattern}`);
+    } else if (match) {
+      console.debug(`Wildcard match found: ${match.item.urlPattern} (specificity=${match.specificity})`);
     } else {
       console.debug(`No matching content block found for ${resourceUrl}`);
     }
   }
 
-  return bestMatch;
+  return match?.item ?? null;
 }
 
-export { parseContentElements, findBestMatchingContent, parseRobotsLicenseDirectives };
+export { parseContentElements, findBestMatchingContent, parseRobotsLicenseDirectives, blockLicenses };
 export type { ContentBlock };
 
 /**
@@ -563,7 +556,7 @@ function findServerlessUsageContent(
   debug?: boolean
 ): ContentBlock | null {
   const matchingUsageBlocks = contentBlocks.filter(
-    (block) => !block.server && licensePermitsUsage(block.licenseXml, usage)
+    (block) => !block.server && licensePermitsUsage(block, usage)
   );
 
   return findBestMatchingContent(matchingUsageBlocks, resourceUrl, debug);
@@ -627,7 +620,7 @@ export async function obtainLicenseToken(
   // Cache tokens by server + urlPattern so path-only patterns (e.g. "/articles/*")
   // on different origins/servers don't collide with each other.
   const cacheKey = `${clientId}:${matchedContent.server}:${matchedContent.urlPattern}`;
-  const cached = getCachedToken(cacheKey, debug);
+  const cached = await getCachedToken(cacheKey, debug);
   if (cached) return cached;
 
   const tokenEndpoint = matchedContent.server + '/token';
@@ -658,7 +651,10 @@ export async function obtainLicenseToken(
     const { decodeJwt } = await loadDecodeJwt();
     const claims = decodeJwt(token);
     if (claims.exp) {
-      licenseTokenCache.set(cacheKey, { token, exp: claims.exp });
+      const ttlSeconds = claims.exp - Math.floor(Date.now() / 1000);
+      if (ttlSeconds > 0) {
+        await writeCache<CachedToken>(LICENSE_TOKEN_CACHE_PREFIX + cacheKey, { token, exp: claims.exp }, ttlSeconds, debug);
+      }
     }
   } catch {
     if (debug) {
@@ -1,5 +1,6 @@
 import { EventPayload, FASTLY_BACKEND, FetchOptions } from "./types";
 import { SDK_USER_AGENT } from "./version";
+import { sdkFetch } from "./fetch";
 
 export async function recordEvent({
   apiKey,
@@ -35,7 +36,7 @@ export async function recordEvent({
     if (globalThis.fastly) {
       options = { ...options, backend: FASTLY_BACKEND };
     }
-    const response = await fetch(`${baseUrl}/events`, options);
+    const response = await sdkFetch(`${baseUrl}/events`, options);
 
     if (!response.ok && debug) {
       console.error(`Failed to record event: ${response.status}`);
@@ -0,0 +1,42 @@
+import { EnforcementMode, HandlerAction, HandlerResult, SupertabConnectConfig } from "./types";
+import { resolveEnforcement } from "./policy";
+
+/**
+ * Whether an adapter lets a request through when the SDK throws: fixed, or decided per request URL
+ * (undefined when the request could not be converted).
+ */
+export type FailOpenPolicy = boolean | ((requestUrl: string | undefined) => boolean);
+
+/**
+ * Failure policy for the framework adapters and servers. An explicit `failOpen` wins; otherwise a
+ * request fails closed where its path resolves to ENFORCE (from `enforcementRules`, else
+ * `enforcement`) and open elsewhere. A request whose URL is unknown fails closed when any path
+ * could be enforced.
+ *
+ * The CDN handlers (Cloudflare, Fastly, CloudFront, Netlify, Akamai) are the exception: they
+ * always fail open, passing the request to the origin, so an SDK fault never takes a site down.
+ */
+export function resolveFailOpen(failOpen: boolean | undefined, config: SupertabConnectConfig): FailOpenPolicy {
+  if (failOpen !== undefined) return failOpen;
+  const defaultMode = config.enforcement ?? EnforcementMode.OBSERVE;
+  const rules = config.enforcementRules;
+  const anyEnforced =
+    defaultMode === EnforcementMode.ENFORCE || (rules ?? []).some((rule) => rule.enforcement === EnforcementMode.ENFORCE);
+  if (!anyEnforced) return true;
+  return (requestUrl) =>
+    requestUrl === undefined
+      ? false
+      : resolveEnforcement(rules, requestUrl, defaultMode).enforcement !== EnforcementMode.ENFORCE;
+}
+
+/** Result an adapter uses in place of a `handleRequest` that threw for `requestUrl`. */
+export function failureResult(failOpen: FailOpenPolicy, requestUrl?: string): HandlerResult {
+  const open = typeof failOpen === "function" ? failOpen(requestUrl) : failOpen;
+  if (open) return { action: HandlerAction.ALLOW };
+  return {
+    action: HandlerAction.BLOCK,
+    status: 503,
+    body: "Service Unavailable",
+    headers: { "Content-Type": "text/plain", "Cache-Control": "no-store" },
+  };
+}
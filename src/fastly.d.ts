@@ -16,3 +16,15 @@ declare module "fastly:geolocation" {
     as_number: number | null;
   } | null;
 }
+
+declare module "fastly:cache" {
+  // Subset of the runtime SimpleCache we consume.
+  export class SimpleCache {
+    static get(key: string): { text(): Promise<string> } | null;
+    static getOrSet(
+      key: string,
+      set: () => Promise<{ value: string; ttl: number }>
+    ): Promise<unknown>;
+    static purge(key: string, options: { scope: "pop" | "global" }): void;
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * The subset of `fetch` the SDK needs for its own requests (JWKS, license.xml, revocation lists,
+ * crawler ranges, signature directories, analytics). Responses are read through `ok`, `status`,
+ * `statusText`, `headers.get`, `text()` and `json()` only.
+ */
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+// Override for runtimes without a global fetch, e.g. Akamai EdgeWorkers. It is only installed
+// while a handler invocation runs (see `withFetch`); overlapping invocations share it.
+let fetchOverride: FetchLike | null = null;
+let fetchScopes = 0;
+
+/** Route the SDK's outbound requests through `fn` until `run` settles. */
+export async function withFetch<T>(fn: FetchLike, run: () => Promise<T>): Promise<T> {
+  fetchOverride = fn;
+  fetchScopes += 1;
+  try {
+    return await run();
+  } finally {
+    fetchScopes -= 1;
+    if (fetchScopes === 0) fetchOverride = null;
+  }
+}
+
+/** The global `fetch` is looked up per call, so it can be replaced (or spied on) at any time. */
+export function sdkFetch(input: string, init?: RequestInit): Promise<Response> {
+  return fetchOverride ? fetchOverride(input, init) : fetch(input, init);
+}
@@ -0,0 +1,89 @@
+import { ExecutionContext, HandlerAction, HandlerResult, HonoContextLike, HonoMiddleware, HonoMiddlewareOptions } from "./types";
+import { applyResponseHeaders, HandleRequestContext } from "./cdn";
+import { failureResult, FailOpenPolicy } from "./fail-mode";
+
+// Interface for what the Hono adapter needs - avoids circular dependency
+interface RequestHandler {
+  handleRequest(request: Request, context?: HandleRequestContext): Promise<HandlerResult>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/** Socket address from Bun's Server (`requestIP`) or Deno's ServeHandlerInfo (`remoteAddr`). */
+function runtimeSocketAddress(env: unknown, request: Request): string | undefined {
+  if (!isRecord(env)) return undefined;
+  if (typeof env.requestIP === "function") {
+    const info: unknown = env.requestIP(request);
+    if (isRecord(info) && typeof info.address === "string") return info.address;
+  }
+  const remoteAddr = env.remoteAddr;
+  return isRecord(remoteAddr) && typeof remoteAddr.hostname === "string" ? remoteAddr.hostname : undefined;
+}
+
+// Workers set this User-Agent; a request header cannot fake it.
+function isCloudflareWorkers(): boolean {
+  return (globalThis as { navigator?: { userAgent?: string } }).navigator?.userAgent === "Cloudflare-Workers";
+}
+
+/**
+ * Client IP from `getConnInfo` when supplied, else from what the runtime exposes without a Hono
+ * adapter: Bun's `server.requestIP()`, Deno's `info.remoteAddr`, or Cloudflare's `CF-Connecting-IP`.
+ * The header is read only on Workers, where Cloudflare sets it; elsewhere any client can send it.
+ */
+export function honoClientIp(
+  c: HonoContextLike,
+  getConnInfo?: HonoMiddlewareOptions["getConnInfo"]
+): string | undefined {
+  try {
+    const fromConnInfo = getConnInfo?.(c).remote.address;
+    if (fromConnInfo) return fromConnInfo;
+  } catch {
+    // Wrong adapter for this runtime; fall through to the built-in sources.
+  }
+  const request = c.req.raw;
+  return (
+    runtimeSocketAddress(c.env, request) ??
+    (isCloudflareWorkers() ? (request.headers.get("cf-connecting-ip") ?? undefined) : undefined)
+  );
+}
+
+function executionContext(c: HonoContextLike): ExecutionContext | undefined {
+  try {
+    return c.executionCtx;
+  } catch {
+    return undefined;
+  }
+}
+
+export function createHonoMiddleware(
+  handler: RequestHandler,
+  getConnInfo: HonoMiddlewareOptions["getConnInfo"],
+  failOpen: FailOpenPolicy
+): HonoMiddleware {
+  return async (c, next) => {
+    let result: HandlerResult;
+    try {
+      result = await handler.handleRequest(c.req.raw, {
+        ctx: executionContext(c),
+        clientIp: honoClientIp(c, getConnInfo),
+      });
+    } catch (err) {
+      console.error("[SupertabConnect] Hono middleware failed:", err);
+      result = failureResult(failOpen, c.req.raw.url);
+    }
+
+    if (result.action !== HandlerAction.ALLOW) {
+      return new Response(result.body, {
+        status: result.status,
+        headers: new Headers(result.headers),
+      });
+    }
+
+    await next();
+    if (result.headers) {
+      c.res = applyResponseHeaders(c.res, result.headers);
+    }
+  };
+}
@@ -0,0 +1,60 @@
+import { HandlerAction, HandlerResult, HTMLRewriterLike } from "./types";
+import { generateLicenseLink } from "./license";
+
+/**
+ * Opt-in license link injection into HTML pages, for crawlers that read markup rather than
+ * headers. Adds `<link rel="license">` pointing at license.xml to `<head>`, and with `meta` a
+ * `<meta name="rsl-status">` carrying the request's license status.
+ */
+export interface HtmlLicenseLinkOptions {
+  /** License URL to link. Default: the request origin's `/license.xml`. */
+  licenseUrl?: string;
+  /** Also add the per-request `<meta name="rsl-status">` (default: false). */
+  meta?: boolean;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * License status of an allowed request: the `X-RSL-Status` signal when one was sent, else
+ * "licensed" when the handler verified the request's license token, else null. A token that was
+ * not validated (e.g. under DISABLED enforcement) gets no status.
+ */
+export function allowedLicenseStatus(result: Extract<HandlerResult, { action: HandlerAction.ALLOW }>): string | null {
+  const signalled = result.headers?.["X-RSL-Status"];
+  if (signalled) return signalled;
+  return result.licensed ? "licensed" : null;
+}
+
+/**
+ * Stream `response` through HTMLRewriter, appending the license link (and meta) to `<head>`.
+ * Non-HTML responses, and runtimes without HTMLRewriter, are returned unchanged.
+ * @param licenseStatus Status for the meta tag, e.g. "token_required"; no meta is added when null.
+ */
+export function injectLicenseLink(
+  response: Response,
+  requestUrl: string,
+  options: HtmlLicenseLinkOptions,
+  licenseStatus: string | null
+): Response {
+  const contentType = response.headers.get("Content-Type") ?? "";
+  const Rewriter = (globalThis as { HTMLRewriter?: new () => HTMLRewriterLike }).HTMLRewriter;
+  if (!Rewriter || !contentType.toLowerCase().startsWith("text/html")) {
+    return response;
+  }
+
+  const licenseUrl = options.licenseUrl ?? generateLicenseLink({ requestUrl });
+  let html = `<link rel="license" type="application/rsl+xml" href="${escapeAttribute(licenseUrl)}">`;
+  if (options.meta && licenseStatus) {
+    html += `<meta name="rsl-status" content="${escapeAttribute(licenseStatus)}">`;
+  }
+  return new Rewriter()
+    .on("head", {
+      element(element) {
+        element.append(html, { html: true });
+      },
+    })
+    .transform(response);
+}
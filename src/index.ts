@@ -2,6 +2,7 @@ import {
   SupertabConnectConfig,
   EnforcementMode,
   BotDetector,
+  BotSignals,
   HandlerAction,
   HandlerResult,
   LicenseTokenInvalidReason,
@@ -26,14 +27,85 @@ import {
   handleCloudflareRequest,
   handleFastlyRequest,
   handleCloudfrontRequest,
+  applyCloudfrontSignalHeaders,
+  rewriteCloudfrontRobotsTxt,
+  CLOUDFRONT_SIGNAL_HEADER,
+  handleAkamaiRequest,
+  handleNetlifyRequest,
+  RSLHostingOptions,
+  RobotsTxtHandling,
+  applyAkamaiSignalHeaders,
+  withAkamaiRuntime,
   HandleRequestContext,
 } from "./cdn";
+import { createExpressMiddleware, createFastifyHook, createKoaMiddleware } from "./node";
+import { resolveFailOpen } from "./fail-mode";
+import { createNextMiddleware } from "./next";
+import { createHonoMiddleware } from "./hono";
+import { createLambdaHandler } from "./lambda";
 import { verifyStatusChallenge } from "./status";
+import { JwksProvider, StaticJwksOptions } from "./jwks";
+import { RevocationChecker, RevocationOptions } from "./revocation";
+import { AudienceHostAliases } from "./audience";
+import { buildPaymentRequiredResult, LicenseOffer, PaymentRequiredOptions } from "./offer";
+import {
+  buildRateLimitResult,
+  checkRateLimit,
+  unlicensedBotIdentity,
+  RateLimit,
+  RateLimitOptions,
+  RateLimitRule,
+  RateLimitStore,
+} from "./rate-limit";
+import {
+  isExemptCrawler,
+  verifyCrawler,
+  CrawlerCategory,
+  CrawlerDefinition,
+  DnsResolver,
+  VerifiedCrawlerOptions,
+  VerifiedCrawlerResult,
+} from "./crawlers";
+import { resolveRequiredUsage, toUsageList, UsageRequirementResolver, UsageRule } from "./usage";
+import {
+  applyRuleBlockResponse,
+  hasVerifiedAgentRule,
+  policyRuleLabel,
+  resolveEnforcement,
+  verifiedIdentities,
+} from "./policy";
+import { verifyWebBotAuth, WebBotAuthConfig, WebBotAuthOutcome, WebBotAuthResult } from "./web-bot-auth";
 import { SDK_VERSION } from "./version";
+import { CacheStore, setCacheStore } from "./cache";
 import {
   CloudFrontRequestEvent,
   CloudFrontRequestResult,
+  CloudFrontResponseEvent,
   CloudfrontHandlerOptions,
+  EnforcementRule,
+  ExpressMiddleware,
+  FastifyOnRequestHook,
+  KoaMiddleware,
+  AdapterFailureOptions,
+  NodeMiddlewareOptions,
+  NextMiddleware,
+  NextMiddlewareOptions,
+  NextRequestLike,
+  NextResponseLike,
+  HonoContextLike,
+  HonoMiddleware,
+  HonoMiddlewareOptions,
+  APIGatewayProxyEventLike,
+  APIGatewayProxyEventV2Like,
+  LambdaProxyEvent,
+  LambdaProxyHandler,
+  LambdaProxyResult,
+  AkamaiClientRequest,
+  AkamaiClientResponse,
+  AkamaiHandlerOptions,
+  AkamaiHttpRequest,
+  AkamaiHttpResponse,
+  NetlifyContextLike,
 } from "./types";
 import {
   AnalyticsEvent,
@@ -50,6 +122,9 @@ import {
 } from "./analytics/transport";
 import { buildAnalyticsEvent } from "./analytics/buildAnalyticsEvent";
 import { resolveFastlyClientSignals } from "./fastly-signals";
+import { CLOUDFRONT_ROUTING_HEADER } from "./cloudfront-function";
+import { RobotsTxtOptions } from "./robots";
+import { HtmlLicenseLinkOptions } from "./html";
 
 export {
   EnforcementMode,
@@ -64,17 +139,105 @@ export type {
   ExecutionContext,
   Env,
   BotDetector,
+  BotSignals,
   HandlerResult,
   FastlyHandlerOptions,
   FastlyFetchEvent,
   CloudFrontRequestEvent,
   CloudFrontRequestResult,
+  CloudFrontResponseEvent,
   CloudfrontHandlerOptions,
+  AdapterFailureOptions,
+  NodeMiddlewareOptions,
+  ExpressMiddleware,
+  FastifyOnRequestHook,
+  KoaMiddleware,
+  NextMiddleware,
+  NextMiddlewareOptions,
+  NextRequestLike,
+  NextResponseLike,
+  HonoContextLike,
+  HonoMiddleware,
+  HonoMiddlewareOptions,
+  APIGatewayProxyEventLike,
+  APIGatewayProxyEventV2Like,
+  LambdaProxyEvent,
+  LambdaProxyHandler,
+  LambdaProxyResult,
+  AkamaiClientRequest,
+  AkamaiClientResponse,
+  AkamaiHandlerOptions,
+  AkamaiHttpRequest,
+  AkamaiHttpResponse,
+  NetlifyContextLike,
+  EnforcementRule,
+  JwksProvider,
+  StaticJwksOptions,
+  RevocationOptions,
+  RevocationChecker,
+  UsageRule,
+  UsageRequirementResolver,
+  AudienceHostAliases,
+  PaymentRequiredOptions,
+  LicenseOffer,
+  RateLimit,
+  RateLimitOptions,
+  RateLimitRule,
+  RateLimitStore,
+  VerifiedCrawlerOptions,
+  VerifiedCrawlerResult,
+  CrawlerCategory,
+  CrawlerDefinition,
+  DnsResolver,
   AnalyticsEvent,
   AnalyticsTransport,
+  WebBotAuthConfig,
+  WebBotAuthOutcome,
+  WebBotAuthResult,
+  CacheStore,
 };
-export { defaultBotDetector } from "./bots";
+export type {
+  KVNamespaceLike,
+  CacheApiLike,
+  FastlyKVStoreLike,
+  FastlySimpleCacheLike,
+} from "./cache";
+export {
+  MemoryCacheStore,
+  CloudflareKVCacheStore,
+  CloudflareCacheApiStore,
+  FastlyKVCacheStore,
+  FastlySimpleCacheStore,
+} from "./cache";
+export type { DurableObjectNamespaceLike, DurableObjectStateLike } from "./rate-limit";
+export {
+  MemoryRateLimitStore,
+  CacheRateLimitStore,
+  DurableObjectRateLimitStore,
+  RateLimitCounterObject,
+} from "./rate-limit";
+export { DEFAULT_CRAWLERS, DohDnsResolver } from "./crawlers";
+export { defaultBotDetector, DEFAULT_BOT_USER_AGENTS } from "./bots";
+export { buildCloudFrontFunction, CLOUDFRONT_ROUTING_HEADER } from "./cloudfront-function";
+export type { CloudFrontFunctionOptions } from "./cloudfront-function";
+export type { RobotsTxtOptions } from "./robots";
+export type { HtmlLicenseLinkOptions } from "./html";
+export { parseRslDocument, rslLicensePermitsUsage, RSL_NAMESPACE } from "./rsl";
+export type {
+  RslDocument,
+  RslContent,
+  RslLicense,
+  RslPermissions,
+  RslPayment,
+  RslAmount,
+  RslLegal,
+  RslCopyright,
+} from "./rsl";
+export { parseXml, XmlParseError } from "./xml";
+export type { XmlElement } from "./xml";
+export { lambdaEventToRequest, toLambdaProxyResult } from "./lambda";
 export { selectFastlyAnalyticsTransport } from "./analytics/transport";
+export { verifyWebBotAuth, DEFAULT_SIGNATURE_AGENTS } from "./web-bot-auth";
 
 const LICENSE_PREFIX = "License ";
 
@@ -91,8 +254,19 @@ export class SupertabConnect {
   // different host — or at localhost in dev — without moving token/JWKS/verify traffic.
   private static analyticsBaseUrl: string = "https://ingest-connect.supertab.co";
   private enforcement!: EnforcementMode;
+  private enforcementRules?: EnforcementRule[];
   private botDetector?: BotDetector;
   private debug!: boolean;
+  // Web Bot Auth settings when verification is on, else null.
+  private webBotAuth!: WebBotAuthConfig | null;
+  private staticJwks?: StaticJwksOptions;
+  private revocation?: RevocationOptions;
+  private usageRules?: UsageRule[];
+  private requiredUsage?: UsageRequirementResolver;
+  private audienceHostAliases?: AudienceHostAliases;
+  private paymentRequired?: PaymentRequiredOptions;
+  private rateLimits?: RateLimitOptions;
+  private verifiedCrawlers?: VerifiedCrawlerOptions;
   private analyticsTransport!: AnalyticsTransport;
   private analyticsEnabled!: boolean;
 
@@ -136,10 +310,26 @@ export class SupertabConnect {
         "Missing required configuration: apiKey is required"
       );
     }
+    if (config.revocation && !config.revocation.listUrl && !config.revocation.check) {
+      throw new Error(
+        "Invalid configuration: revocation requires a listUrl or a check function"
+      );
+    }
     this.apiKey = config.apiKey;
     this.enforcement = config.enforcement ?? EnforcementMode.OBSERVE;
+    this.enforcementRules = config.enforcementRules;
     this.botDetector = config.botDetector;
     this.debug = config.debug ?? false;
+    this.webBotAuth =
+      config.verifyWebBotAuth === true ? {} : config.verifyWebBotAuth ? config.verifyWebBotAuth : null;
+    this.staticJwks = config.staticJwks;
+    this.revocation = config.revocation;
+    this.usageRules = config.usageRules;
+    this.requiredUsage = config.requiredUsage;
+    this.audienceHostAliases = config.audienceHostAliases;
+    this.paymentRequired = config.paymentRequired;
+    this.rateLimits = config.rateLimits;
+    this.verifiedCrawlers = config.verifiedCrawlers;
     // A custom transport emits regardless of the flag, so report it as enabled.
     this.analyticsEnabled = (config.analyticsEnabled ?? false) || config.analyticsTransport != null;
     this.analyticsTransport = SupertabConnect.buildAnalyticsTransport(config);
@@ -200,12 +390,24 @@ export class SupertabConnect {
     return SupertabConnect.analyticsBaseUrl;
   }
 
+  /**
+   * Replace the store backing the JWKS, license.xml and license-token caches. Defaults to a
+   * per-isolate in-memory LRU; pass a KV / Cache API adapter to share entries across isolates.
+   */
+  public static setCacheStore(store: CacheStore): void {
+    setCacheStore(store);
+  }
+
   /**
    * Pure token verification — verifies a license token without recording any events.
    * @param options.token The license token to verify
    * @param options.resourceUrl The URL of the resource being accessed
    * @param options.baseUrl Optional override for the Supertab Connect API base URL
    * @param options.debug Enable debug logging (default: false)
+   * @param options.staticJwks Optional locally supplied platform JWKS (override or fetch fallback)
+   * @param options.revocation Optional license revocation checking
+   * @param options.requiredUsage Optional RSL usage(s) the token must grant
+   * @param options.audienceHostAliases Optional hosts treated as the same audience (alias → canonical)
    * @returns A promise that resolves with the verification result
    */
   static async verify(options: {
@@ -213,6 +415,10 @@ export class SupertabConnect {
     resourceUrl: string;
     baseUrl?: string;
     debug?: boolean;
+    staticJwks?: StaticJwksOptions;
+    revocation?: RevocationOptions;
+    requiredUsage?: UsageType | UsageType[];
+    audienceHostAliases?: AudienceHostAliases;
   }): Promise<RSLVerificationResult> {
     const baseUrl = options.baseUrl ?? SupertabConnect.baseUrl;
 
@@ -221,6 +427,10 @@ export class SupertabConnect {
       requestUrl: options.resourceUrl,
       supertabBaseUrl: baseUrl,
       debug: options.debug ?? false,
+      staticJwks: options.staticJwks,
+      revocation: options.revocation,
+      requiredUsage: options.requiredUsage && toUsageList(options.requiredUsage),
+      audienceHostAliases: options.audienceHostAliases,
     });
 
     if (result.valid) {
@@ -258,6 +468,9 @@ export class SupertabConnect {
       apiKey: this.apiKey!,
       ctx: options.ctx,
       requestHeaders: options.requestHeaders,
+      staticJwks: this.staticJwks,
+      revocation: this.revocation,
+      audienceHostAliases: this.audienceHostAliases,
     });
 
     if (result.valid) {
@@ -288,6 +501,7 @@ export class SupertabConnect {
               expectedAudience: url.origin,
               baseUrl: SupertabConnect.getBaseUrl(),
               debug: this.debug,
+              staticJwks: this.staticJwks,
             })
           : false;
         if (!ok) {
@@ -329,9 +543,40 @@ export class SupertabConnect {
     const tlsFingerprint = context?.tlsFingerprint;
     const cdnSignals = context?.cdnSignals;
 
+    // Enforcement is resolved before identity verification, which is skipped when its result
+    // cannot change the outcome: a token decides on its own, and DISABLED paths allow bots
+    // unless a rate limit counts them.
+    const agentRule = hasVerifiedAgentRule(this.enforcementRules, rawUrl);
+    const pathDecision = agentRule
+      ? null
+      : resolveEnforcement(this.enforcementRules, rawUrl, this.enforcement, this.debug);
+    const verifyIdentity =
+      agentRule ||
+      (!token &&
+        this.botDetector !== undefined &&
+        (pathDecision?.enforcement !== EnforcementMode.DISABLED || this.rateLimits !== undefined));
+
+    // Resolves without a network round-trip when the request carries no signature.
+    const webBotAuth = this.webBotAuth && verifyIdentity
+      ? await verifyWebBotAuth(request, { ...this.webBotAuth, debug: this.debug })
+      : null;
+    const crawler = this.verifiedCrawlers && verifyIdentity
+      ? await verifyCrawler(request, clientIp, this.verifiedCrawlers, this.debug)
+      : null;
+    const identities = verifiedIdentities(webBotAuth, crawler);
+    const botSignals: BotSignals = {
+      ...(webBotAuth ? { webBotAuth } : {}),
+      ...(crawler ? { crawler } : {}),
+    };
+
+    const { enforcement, rule } =
+      pathDecision ??
+      resolveEnforcement(this.enforcementRules, rawUrl, this.enforcement, this.debug, identities);
+    const policyRule = policyRuleLabel(rule);
+
     const emit = (decision: Decision): void => {
       try {
-        const event = buildAnalyticsEvent(request, decision, {
+        const event = buildAnalyticsEvent(request, { ...decision, policyRule }, {
           requestId,
           sourceCdn,
           clientIp,
@@ -339,6 +584,8 @@ export class SupertabConnect {
           requestAsn,
           tlsFingerprint,
           cdnSignals,
+          webBotAuth,
+          crawler,
         });
         this.analyticsTransport.emit(event, ctx);
       } catch (err) {
@@ -351,7 +598,7 @@ export class SupertabConnect {
     // Token present → validate, regardless of bot detection — except in DISABLED
     // mode, which short-circuits to ALLOW without verification.
     if (token) {
-      if (this.enforcement === EnforcementMode.DISABLED) {
+      if (enforcement === EnforcementMode.DISABLED) {
         // DISABLED short-circuits to ALLOW without verifying the token, so we
         // cannot honestly claim "valid". Emit "not_validated" so the token is
         // not counted as a licensed request in analytics.
@@ -359,7 +606,7 @@ export class SupertabConnect {
           hasToken,
           tokenOutcome: "not_validated",
           finalAction: "allow",
-          enforcementMode: this.enforcement,
+          enforcementMode: enforcement,
         });
         return { action: HandlerAction.ALLOW };
       }
@@ -372,6 +619,10 @@ export class SupertabConnect {
         apiKey: this.apiKey!,
         ctx,
         requestHeaders: Object.fromEntries(request.headers.entries()),
+        staticJwks: this.staticJwks,
+        revocation: this.revocation,
+        requiredUsage: resolveRequiredUsage(this.usageRules, this.requiredUsage, request, this.debug),
+        audienceHostAliases: this.audienceHostAliases,
       });
       const tokenOutcome: TokenOutcome = verification.valid
         ? "valid"
@@ -382,64 +633,126 @@ export class SupertabConnect {
           hasToken,
           tokenOutcome,
           finalAction: "block",
-          enforcementMode: this.enforcement,
+          enforcementMode: enforcement,
         });
-        return buildBlockResult({
-          reason: verification.reason,
-          error: verification.error,
-          requestUrl: rawUrl,
+        return applyRuleBlockResponse(
+          buildBlockResult({
+            reason: verification.reason,
+            error: verification.error,
+            requestUrl: rawUrl,
+          }),
+          rule
+        );
+      }
+      const exceeded =
+        this.rateLimits && verification.licenseId
+          ? await checkRateLimit(
+              this.rateLimits,
+              rawUrl,
+              { kind: "licensed", id: verification.licenseId },
+              this.debug
+            )
+          : null;
+      if (exceeded) {
+        emit({
+          hasToken,
+          tokenOutcome,
+          finalAction: "block",
+          enforcementMode: enforcement,
+          rateLimited: true,
         });
+        return buildRateLimitResult(exceeded);
       }
       emit({
         hasToken,
         tokenOutcome,
         finalAction: "allow",
-        enforcementMode: this.enforcement,
+        enforcementMode: enforcement,
       });
-      return { action: HandlerAction.ALLOW };
+      return { action: HandlerAction.ALLOW, licensed: true };
     }
 
     // No token from here on
-    const isBot = this.botDetector?.(request, ctx) ?? false;
+    const isBot = this.botDetector?.(request, ctx, botSignals) ?? false;
 
     if (!isBot) {
       emit({
         hasToken,
         tokenOutcome: "absent",
         finalAction: "allow",
-        enforcementMode: this.enforcement,
+        enforcementMode: enforcement,
       });
       return { action: HandlerAction.ALLOW };
     }
 
-    // Bot detected, no token — enforcement mode decides
-    switch (this.enforcement) {
-      case EnforcementMode.ENFORCE:
+    // Verified crawlers the merchant chose to let through (e.g. search engines) skip enforcement.
+    if (this.verifiedCrawlers && isExemptCrawler(crawler, this.verifiedCrawlers)) {
+      emit({
+        hasToken,
+        tokenOutcome: "absent",
+        finalAction: "allow",
+        enforcementMode: enforcement,
+      });
+      return { action: HandlerAction.ALLOW };
+    }
+
+    // Unlicensed bots are counted in every enforcement mode, like licensed requests.
+    const exceeded = this.rateLimits
+      ? await checkRateLimit(
+          this.rateLimits,
+          rawUrl,
+          { kind: "unlicensed", id: unlicensedBotIdentity(request, clientIp, identities[0] ?? null) },
+          this.debug
+        )
+      : null;
+    if (exceeded) {
+      emit({
+        hasToken,
+        tokenOutcome: "absent",
+        finalAction: "block",
+        enforcementMode: enforcement,
+        rateLimited: true,
+      });
+      return buildRateLimitResult(exceeded);
+    }
+
+    // Bot detected, no token — the enforcement mode for this path decides
+    switch (enforcement) {
+      case EnforcementMode.ENFORCE: {
         emit({
           hasToken,
           tokenOutcome: "absent",
           finalAction: "block",
-          enforcementMode: this.enforcement,
-        });
-        return buildBlockResult({
-          reason: LicenseTokenInvalidReason.MISSING_TOKEN,
-          error: "Authorization header missing or malformed",
-          requestUrl: rawUrl,
+          enforcementMode: enforcement,
         });
-      case EnforcementMode.OBSERVE:
+        const paymentRequired = this.paymentRequired
+          ? await buildPaymentRequiredResult(rawUrl, this.paymentRequired, this.debug)
+          : null;
+        return applyRuleBlockResponse(
+          paymentRequired ??
+            buildBlockResult({
+              reason: LicenseTokenInvalidReason.MISSING_TOKEN,
+              error: "Authorization header missing or malformed",
+              requestUrl: rawUrl,
+            }),
+          rule
+        );
+      }
+      case EnforcementMode.OBSERVE: {
         emit({
           hasToken,
           tokenOutcome: "absent",
           finalAction: "observe",
-          enforcementMode: this.enforcement,
+          enforcementMode: enforcement,
         });
         return buildSignalResult(rawUrl);
+      }
       default: // DISABLED
         emit({
           hasToken,
           tokenOutcome: "absent",
           finalAction: "allow",
-          enforcementMode: this.enforcement,
+          enforcementMode: enforcement,
         });
         return { action: HandlerAction.ALLOW };
     }
@@ -475,6 +788,39 @@ export class SupertabConnect {
     );
   }
 
+  /**
+   * The Supertab backend cannot reach the merchant origin, so 402 offers default to the hosted
+   * license.xml when one is published under `merchantSystemUrn`.
+   */
+  private static withHostedLicenseXml(
+    paymentRequired: PaymentRequiredOptions | undefined,
+    merchantSystemUrn: string | undefined
+  ): PaymentRequiredOptions | undefined {
+    return paymentRequired && !paymentRequired.licenseXml && !paymentRequired.licenseXmlUrl && merchantSystemUrn
+      ? {
+          ...paymentRequired,
+          licenseXmlUrl: `${SupertabConnect.baseUrl}/merchants/systems/${merchantSystemUrn}/license.xml`,
+        }
+      : paymentRequired;
+  }
+
+  private static robotsTxtHandling(
+    options: { robotsTxt?: RobotsTxtOptions; enforcement?: EnforcementMode; enforcementRules?: EnforcementRule[] } | undefined
+  ): RobotsTxtHandling | undefined {
+    if (!options?.robotsTxt) return undefined;
+    return {
+      options: options.robotsTxt,
+      policy: { enforcement: options.enforcement ?? EnforcementMode.OBSERVE, enforcementRules: options.enforcementRules },
+    };
+  }
+
+  private static rslHostingOptions(
+    options: { enableRSL?: boolean; merchantSystemUrn?: string } | undefined
+  ): RSLHostingOptions | undefined {
+    if (!options?.enableRSL || !options.merchantSystemUrn) return undefined;
+    return { baseUrl: SupertabConnect.baseUrl, merchantSystemUrn: options.merchantSystemUrn };
+  }
+
   /**
    * Handle incoming requests for Cloudflare Workers.
    * Pass this directly as your Worker's fetch handler.
@@ -484,13 +830,26 @@ export class SupertabConnect {
    * @param options Optional configuration items
    * @param options.botDetector Custom bot detection function
    * @param options.enforcement Enforcement mode (default: OBSERVE)
+   * @param options.enforcementRules Per-path enforcement rules; `enforcement` applies where none match
    * @param options.analyticsEnabled Toggle relay analytics emission (default: false)
+   * @param options.verifyWebBotAuth Verify Web Bot Auth request signatures; `{ trustedAgents }` limits directory fetches (default: false)
+   * @param options.staticJwks Locally supplied platform JWKS (override or fetch fallback)
+   * @param options.revocation License revocation checking (disabled when omitted)
+   * @param options.usageRules Per-path RSL usage requirements checked against the token's usage claim
+   * @param options.audienceHostAliases Hosts treated as the same license audience (alias → canonical)
+   * @param options.paymentRequired Answer unlicensed bots with 402 and a JSON license offer (ENFORCE only)
+   * @param options.rateLimits Per-path rate limits and quotas (429 with Retry-After when exceeded)
+   * @param options.verifiedCrawlers Verify crawler User-Agent claims by published IP ranges / reverse DNS
    * @param options.originUrl Override the upstream origin for ALLOW/OBSERVE pass-through.
    *   When set, the Worker's `fetch` for forwarded traffic targets `${originUrl}${path}${query}`
    *   instead of `request.url`. License audience / resource verification still uses `request.url`,
    *   so the Worker URL clients hit and the origin URL the Worker forwards to can differ.
    *   Production Cloudflare deployments using Workers Routes can omit this — `fetch(request)`
    *   already resolves to the origin via Cloudflare's edge.
+   * @param options.enableRSL Serve license.xml at /license.xml for RSL-compliant clients (default: false)
+   * @param options.merchantSystemUrn Merchant system URN; required when `enableRSL`
+   * @param options.robotsTxt Serve /robots.txt with a License directive and optional Disallow group (off when omitted)
+   * @param options.htmlLicenseLink Add `<link rel="license">` (and optional status `<meta>`) to allowed HTML pages
    */
   static async cloudflareHandleRequests(
     request: Request,
@@ -499,8 +858,21 @@ export class SupertabConnect {
     options?: {
        botDetector?: BotDetector;
        enforcement?: EnforcementMode;
+       enforcementRules?: EnforcementRule[];
        analyticsEnabled?: boolean;
+       verifyWebBotAuth?: boolean | WebBotAuthConfig;
+       staticJwks?: StaticJwksOptions;
+       revocation?: RevocationOptions;
+       usageRules?: UsageRule[];
+       audienceHostAliases?: AudienceHostAliases;
+       paymentRequired?: PaymentRequiredOptions;
+       rateLimits?: RateLimitOptions;
+       verifiedCrawlers?: VerifiedCrawlerOptions;
        originUrl?: string;
+       enableRSL?: boolean;
+       merchantSystemUrn?: string;
+       robotsTxt?: RobotsTxtOptions;
+       htmlLicenseLink?: HtmlLicenseLinkOptions;
     }
   ): Promise<Response> {
     try {
@@ -508,9 +880,26 @@ export class SupertabConnect {
         apiKey: env.MERCHANT_API_KEY,
         botDetector: options?.botDetector,
         enforcement: options?.enforcement,
+        enforcementRules: options?.enforcementRules,
         analyticsEnabled: options?.analyticsEnabled,
+        verifyWebBotAuth: options?.verifyWebBotAuth,
+        staticJwks: options?.staticJwks,
+        revocation: options?.revocation,
+        usageRules: options?.usageRules,
+        audienceHostAliases: options?.audienceHostAliases,
+        paymentRequired: SupertabConnect.withHostedLicenseXml(options?.paymentRequired, options?.merchantSystemUrn),
+        rateLimits: options?.rateLimits,
+        verifiedCrawlers: options?.verifiedCrawlers,
       });
-      return await handleCloudflareRequest(instance, request, ctx, options?.originUrl);
+      return await handleCloudflareRequest(
+        instance,
+        request,
+        ctx,
+        options?.originUrl,
+        SupertabConnect.rslHostingOptions(options),
+        SupertabConnect.robotsTxtHandling(options),
+        options?.htmlLicenseLink
+      );
     } catch (err) {
       console.error("[SupertabConnect] cloudflareHandleRequests failed:", err);
       return await fetch(request);
@@ -528,7 +917,17 @@ export class SupertabConnect {
    * @param options.enableRSL Serve license.xml at /license.xml for RSL-compliant clients (default: false)
    * @param options.botDetector Custom bot detection function
    * @param options.enforcement Enforcement mode (default: OBSERVE)
+   * @param options.enforcementRules Per-path enforcement rules; `enforcement` applies where none match
    * @param options.analyticsEnabled Toggle relay analytics emission (default: false)
+   * @param options.verifyWebBotAuth Verify Web Bot Auth request signatures; `{ trustedAgents }` limits directory fetches (default: false)
+   * @param options.staticJwks Locally supplied platform JWKS (override or fetch fallback)
+   * @param options.revocation License revocation checking (disabled when omitted)
+   * @param options.usageRules Per-path RSL usage requirements checked against the token's usage claim
+   * @param options.audienceHostAliases Hosts treated as the same license audience (alias → canonical)
+   * @param options.paymentRequired Answer unlicensed bots with 402 and a JSON license offer (ENFORCE only)
+   * @param options.rateLimits Per-path rate limits and quotas (429 with Retry-After when exceeded)
+   * @param options.verifiedCrawlers Verify crawler User-Agent claims by published IP ranges / reverse DNS
+   * @param options.robotsTxt Serve /robots.txt with a License directive and optional Disallow group (off when omitted)
    */
   static async fastlyHandleRequests(
     event: FastlyFetchEvent,
@@ -538,7 +937,7 @@ export class SupertabConnect {
   ): Promise<Response> {
     const request = event.request;
     try {
-      const { botDetector, enforcement, analyticsEnabled, merchantSystemUrn, logEndpoint } = options;
+      const { botDetector, enforcement, enforcementRules, analyticsEnabled, merchantSystemUrn, logEndpoint, verifyWebBotAuth, staticJwks, revocation, usageRules, audienceHostAliases, paymentRequired, rateLimits, verifiedCrawlers } = options;
 
       // Fastly owns its transport choice here, rather than the shared constructor sniffing
       // globalThis.fastly: native bot-events logging when opted in, else the constructor's relay.
@@ -546,7 +945,16 @@ export class SupertabConnect {
         apiKey: merchantApiKey,
         botDetector,
         enforcement,
+        enforcementRules,
         analyticsEnabled,
+        verifyWebBotAuth,
+        staticJwks,
+        revocation,
+        usageRules,
+        audienceHostAliases,
+        paymentRequired: SupertabConnect.withHostedLicenseXml(paymentRequired, merchantSystemUrn),
+        rateLimits,
+        verifiedCrawlers,
         analyticsTransport: selectFastlyAnalyticsTransport({
           analyticsEnabled,
           logEndpoint,
@@ -554,14 +962,8 @@ export class SupertabConnect {
         }),
       });
 
-      let rslOptions: { baseUrl: string; merchantSystemUrn: string } | undefined;
-      if (options?.enableRSL) {
-        rslOptions = {
-          baseUrl: SupertabConnect.baseUrl,
-          merchantSystemUrn: options.merchantSystemUrn,
-        };
-      }
-  
+      const rslOptions = SupertabConnect.rslHostingOptions(options);
+
       const clientSignals = await resolveFastlyClientSignals(event);
       // Bridge FetchEvent.waitUntil to the analytics ExecutionContext so post-response
       // emits are held until they settle (the BLOCK path has no origin fetch to do so).
@@ -572,7 +974,8 @@ export class SupertabConnect {
         originBackend,
         rslOptions,
         clientSignals,
-        ctx
+        ctx,
+        SupertabConnect.robotsTxtHandling(options)
       );
     } catch (err) {
       console.error("[SupertabConnect] fastlyHandleRequests failed:", err);
@@ -586,6 +989,8 @@ export class SupertabConnect {
    * @param event The CloudFront origin-request event
    * @param options Configuration including apiKey and optional botDetector/enforcement fields.
    *   Relay analytics is not supported on CloudFront — only Cloudflare and Fastly emit events.
+   *   With `enableRSL` and `merchantSystemUrn`, /license.xml is answered from the edge.
+   *   With `robotsTxt`, /robots.txt goes to the origin and is rewritten by `cloudfrontHandleResponse`.
    */
   static async cloudfrontHandleRequests<TRequest extends Record<string, any>>(
     event: CloudFrontRequestEvent<TRequest>,
@@ -593,12 +998,19 @@ export class SupertabConnect {
   ): Promise<CloudFrontRequestResult<TRequest>> {
     const request = event?.Records?.[0]?.cf?.request as TRequest ?? {} as CloudFrontRequestResult<TRequest>;
     try {
+      // Only this handler may hand signal headers to the origin-response trigger; drop a viewer-supplied copy.
+      delete request.headers?.[CLOUDFRONT_SIGNAL_HEADER];
       // The self-report status probe carries an Authorization: Bearer challenge, not
       // x-license-auth, so it must be let through to handleRequest rather than passed to origin.
       const isStatusProbe = request.uri === "/.well-known/supertab/status" && request.method === "GET";
-      const license_auth_header = request.headers?.["x-license-auth"];
-      if (!license_auth_header && !isStatusProbe) {
-        // No license auth header means the request is either from a human or from an unidentifiable bot.
+      const rslOptions = SupertabConnect.rslHostingOptions(options);
+      const isLicenseXml = rslOptions !== undefined && request.uri === "/license.xml";
+      const robotsTxt = SupertabConnect.robotsTxtHandling(options);
+      const isRobotsTxt = robotsTxt !== undefined && request.uri === "/robots.txt";
+      const license_auth_header = request.headers?.[CLOUDFRONT_ROUTING_HEADER];
+      if (!license_auth_header && !isStatusProbe && !isLicenseXml && !isRobotsTxt) {
+        // No license auth header means the request is either from a human or from an unidentifiable bot
+        // (see buildCloudFrontFunction, which sets it for token-bearing and bot traffic).
         // No reasons to waste compute resources on the rest of the checks.
         return request;
       }
@@ -608,11 +1020,177 @@ export class SupertabConnect {
         apiKey: options.apiKey,
         botDetector: options.botDetector,
         enforcement: options.enforcement,
+        enforcementRules: options.enforcementRules,
+        staticJwks: options.staticJwks,
+        revocation: options.revocation,
+        usageRules: options.usageRules,
+        audienceHostAliases: options.audienceHostAliases,
+        paymentRequired: SupertabConnect.withHostedLicenseXml(options.paymentRequired, options.merchantSystemUrn),
+        rateLimits: options.rateLimits,
+        verifiedCrawlers: options.verifiedCrawlers,
       });
-      return await handleCloudfrontRequest(instance, event);
+      return await handleCloudfrontRequest(instance, event, rslOptions, robotsTxt);
     } catch (err) {
       console.error("[SupertabConnect] cloudfrontHandleRequests failed:", err);
       return request;
     }
   }
+
+  /**
+   * Handle origin responses for AWS CloudFront Lambda@Edge.
+   * Use as the handler for an origin-response LambdaEdge function alongside `cloudfrontHandleRequests`
+   * on origin-request: copies the signal headers (Link, X-RSL-Status, X-RSL-Reason) of allowed
+   * requests onto the origin response. It runs on cache misses only and the headers are cached with
+   * the response, so `x-license-auth` and `Authorization` must be part of the cache key.
+   * With `robotsTxt`, the origin's robots.txt is re-fetched from the origin and served rewritten, and
+   * a missing one is replaced by one holding the directives.
+   * @param event The CloudFront origin-response event
+   * @param options The `robotsTxt`, `enforcement` and `enforcementRules` given to `cloudfrontHandleRequests`
+   */
+  static async cloudfrontHandleResponse<TResponse extends Record<string, any>>(
+    event: CloudFrontResponseEvent<TResponse>,
+    options?: Pick<CloudfrontHandlerOptions, "robotsTxt" | "enforcement" | "enforcementRules">
+  ): Promise<CloudFrontResponseEvent<TResponse>["Records"][number]["cf"]["response"]> {
+    try {
+      const robotsTxt = SupertabConnect.robotsTxtHandling(options);
+      if (robotsTxt) await rewriteCloudfrontRobotsTxt(event, robotsTxt);
+      return applyCloudfrontSignalHeaders(event);
+    } catch (err) {
+      console.error("[SupertabConnect] cloudfrontHandleResponse failed:", err);
+      return event.Records[0].cf.response;
+    }
+  }
+
+  /**
+   * Handle incoming requests for Netlify Edge Functions.
+   * @param request The edge function's request
+   * @param context The Netlify edge function context; `context.next()` reaches the origin for allowed requests
+   * @param options SDK configuration including apiKey
+   */
+  static async netlifyHandleRequests(
+    request: Request,
+    context: NetlifyContextLike,
+    options: SupertabConnectConfig
+  ): Promise<Response> {
+    try {
+      const instance = new SupertabConnect(options);
+      return await handleNetlifyRequest(instance, request, context);
+    } catch (err) {
+      console.error("[SupertabConnect] netlifyHandleRequests failed:", err);
+      return await context.next();
+    }
+  }
+
+  /**
+   * Handle `onClientRequest` for Akamai EdgeWorkers.
+   * BLOCK/RESPOND results are answered with `request.respondWith`; allowed requests continue to
+   * origin, and their signal headers are applied by `akamaiHandleResponse` in `onClientResponse`.
+   * @param request The EdgeWorkers client request
+   * @param options SDK configuration including apiKey, plus the `signalHeadersVariable` PMUSER_ name
+   * and the `httpRequest` / `crypto` built-ins
+   */
+  static async akamaiHandleRequests(request: AkamaiClientRequest, options: AkamaiHandlerOptions): Promise<void> {
+    try {
+      const { signalHeadersVariable, httpRequest, crypto, ...config } = options;
+      await withAkamaiRuntime(httpRequest, crypto, async () => {
+        const instance = new SupertabConnect(config);
+        await handleAkamaiRequest(instance, request, signalHeadersVariable);
+      });
+    } catch (err) {
+      // Leaving the request untouched lets it continue to origin.
+      console.error("[SupertabConnect] akamaiHandleRequests failed:", err);
+    }
+  }
+
+  /**
+   * Handle `onClientResponse` for Akamai EdgeWorkers: applies the signal headers recorded by
+   * `akamaiHandleRequests` to the response.
+   * @param request The EdgeWorkers client request
+   * @param response The EdgeWorkers client response
+   * @param options.signalHeadersVariable PMUSER_ variable name (default: PMUSER_SUPERTAB_HEADERS)
+   */
+  static akamaiHandleResponse(
+    request: AkamaiClientRequest,
+    response: AkamaiClientResponse,
+    options: { signalHeadersVariable?: string } = {}
+  ): void {
+    try {
+      applyAkamaiSignalHeaders(request, response, options.signalHeadersVariable);
+    } catch (err) {
+      console.error("[SupertabConnect] akamaiHandleResponse failed:", err);
+    }
+  }
+
+  /**
+   * Express (or Connect) middleware for Node origins without a CDN in front.
+   * BLOCK/RESPOND results are answered directly; on ALLOW the signal headers are set on the
+   * response and the request continues to the next handler.
+   * @param options SupertabConnectConfig plus `trustProxy` for `X-Forwarded-*` headers and `failOpen`
+   */
+  static expressMiddleware(options: NodeMiddlewareOptions): ExpressMiddleware {
+    const { trustProxy, failOpen, ...config } = options;
+    return createExpressMiddleware(new SupertabConnect(config), trustProxy ?? false, resolveFailOpen(failOpen, config));
+  }
+
+  /**
+   * Fastify `onRequest` hook: `app.addHook("onRequest", SupertabConnect.fastifyOnRequest({ ... }))`.
+   * @param options SupertabConnectConfig plus `trustProxy` for `X-Forwarded-*` headers and `failOpen`
+   */
+  static fastifyOnRequest(options: NodeMiddlewareOptions): FastifyOnRequestHook {
+    const { trustProxy, failOpen, ...config } = options;
+    return createFastifyHook(new SupertabConnect(config), trustProxy ?? false, resolveFailOpen(failOpen, config));
+  }
+
+  /**
+   * Koa middleware: `app.use(SupertabConnect.koaMiddleware({ ... }))`.
+   * @param options SupertabConnectConfig plus `trustProxy` for `X-Forwarded-*` headers and `failOpen`
+   */
+  static koaMiddleware(options: NodeMiddlewareOptions): KoaMiddleware {
+    const { trustProxy, failOpen, ...config } = options;
+    return createKoaMiddleware(new SupertabConnect(config), trustProxy ?? false, resolveFailOpen(failOpen, config));
+  }
+
+  /**
+   * Hono middleware for Bun, Deno, Node and Workers: `app.use("*", SupertabConnect.honoMiddleware({ ... }))`.
+   * BLOCK/RESPOND results are returned directly; on ALLOW the signal headers are merged into the
+   * downstream response. `c.executionCtx` is used for analytics where the runtime provides it.
+   * @param options SupertabConnectConfig plus the runtime's `getConnInfo` for the client IP and `failOpen`
+   */
+  static honoMiddleware(options: HonoMiddlewareOptions): HonoMiddleware {
+    const { getConnInfo, failOpen, ...config } = options;
+    return createHonoMiddleware(new SupertabConnect(config), getConnInfo, resolveFailOpen(failOpen, config));
+  }
+
+  /**
+   * Wrap an AWS API Gateway (REST or HTTP API) or Lambda Function URL handler.
+   * BLOCK/RESPOND results become the proxy-integration response; ALLOWed events are passed to
+   * `handler`, whose response gains the signal headers.
+   * @param handler The proxy-integration handler serving allowed requests
+   * @param options SDK configuration including apiKey, plus `failOpen`
+   */
+  static lambdaHandleRequests<TEvent extends LambdaProxyEvent, TContext = unknown>(
+    handler: LambdaProxyHandler<TEvent, TContext>,
+    options: SupertabConnectConfig & AdapterFailureOptions
+  ): (event: TEvent, context: TContext) => Promise<LambdaProxyResult> {
+    const { failOpen, ...config } = options;
+    const instance = new SupertabConnect(config);
+    return createLambdaHandler(instance, handler, resolveFailOpen(failOpen, config));
+  }
+}
+
+/**
+ * Next.js (and Vercel Edge) middleware for `middleware.ts`. BLOCK/RESPOND results are returned as
+ * a `NextResponse`; allowed requests continue via `NextResponse.next()` carrying the SDK's signal
+ * headers, or through `options.middleware` with the headers merged into its response.
+ * @param options SupertabConnectConfig plus `NextResponse` from `next/server`
+ */
+export function withSupertabConnect(options: NextMiddlewareOptions): NextMiddleware {
+  const { NextResponse, middleware, skipStaticAssets, trustProxy, failOpen, ...config } = options;
+  return createNextMiddleware(new SupertabConnect(config), {
+    NextResponse,
+    middleware,
+    skipStaticAssets,
+    trustProxy,
+    failOpen: resolveFailOpen(failOpen, config),
+  });
 }
@@ -15,3 +15,4 @@ export const loadDecodeJwt = lazyImport(() => import("jose/jwt/decode"));
 export const loadDecodeProtectedHeader = lazyImport(() => import("jose/decode/protected_header"));
 export const loadKeyImport = lazyImport(() => import("jose/key/import"));
 export const loadJwtSign = lazyImport(() => import("jose/jwt/sign"));
+export const loadJwkThumbprint = lazyImport(() => import("jose/jwk/thumbprint"));
@@ -1,10 +1,19 @@
 import type { JSONWebKeySet } from "jose";
 import { FASTLY_BACKEND, FetchOptions } from "./types";
 import { SDK_USER_AGENT } from "./version";
+import { sdkFetch } from "./fetch";
+import { getCacheStore } from "./cache";
 
 type JwksCacheEntry = { data: JSONWebKeySet; cachedAt: number };
-const jwksCache = new Map<string, JwksCacheEntry>();
+const JWKS_CACHE_PREFIX = "stc:jwks:";
 const JWKS_CACHE_TTL_MS = 48 * 60 * 60 * 1000; // 48 hours
+// Cache keys fetched (or looked up) by this isolate, so clearJwksCache can drop them from a shared store.
+const jwksCacheKeys = new Set<string>(["platform_jwks"]);
+// An unknown `kid` refetches the key set (key rotation) at most this often. The shared-store entry
+// is only replaced by a successful fetch, so a token with a made-up kid cannot bust it fleet-wide.
+const JWKS_MIN_REFRESH_MS = 60 * 1000;
+// When this isolate last refetched each key set for an unknown kid, successful or not.
+const jwksRefreshAttempts = new Map<string, number>();
 
 export class JwksKeyNotFoundError extends Error {
   constructor(kid: string | undefined) {
@@ -19,8 +28,21 @@ type FetchJwksParams = {
   debug: boolean;
   failureMessage: string;
   logLabel: string;
+  // Refetch a cached key set that lacks a token's kid, subject to JWKS_MIN_REFRESH_MS.
+  refresh: boolean;
 };
 
+/** Whether a refresh of `cacheKey`, cached at `cachedAt`, is due; records the attempt if so. */
+function claimJwksRefresh(cacheKey: string, cachedAt: number): boolean {
+  const now = Date.now();
+  const lastAttempt = jwksRefreshAttempts.get(cacheKey) ?? 0;
+  if (now - cachedAt < JWKS_MIN_REFRESH_MS || now - lastAttempt < JWKS_MIN_REFRESH_MS) {
+    return false;
+  }
+  jwksRefreshAttempts.set(cacheKey, now);
+  return true;
+}
+
 function buildFetchOptions(): FetchOptions {
   let options: FetchOptions = { method: "GET", headers: { "User-Agent": SDK_USER_AGENT } };
   if (globalThis.fastly) {
@@ -35,48 +57,123 @@ async function fetchAndCacheJwks({
   debug,
   failureMessage,
   logLabel,
+  refresh,
 }: FetchJwksParams): Promise<JSONWebKeySet> {
-  const cached = jwksCache.get(cacheKey);
-  if (cached && (Date.now() - cached.cachedAt) < JWKS_CACHE_TTL_MS) {
+  const store = getCacheStore();
+  jwksCacheKeys.add(cacheKey);
+  let cached: JwksCacheEntry | undefined;
+  try {
+    const entry = await store.get<JwksCacheEntry>(JWKS_CACHE_PREFIX + cacheKey);
+    if (entry && (Date.now() - entry.cachedAt) < JWKS_CACHE_TTL_MS) {
+      cached = entry;
+    }
+  } catch (error) {
+    // A failing shared store degrades to a network fetch, never to a failed verification.
+    if (debug) {
+      console.error("JWKS cache read failed:", error);
+    }
+  }
+  if (cached && !(refresh && claimJwksRefresh(cacheKey, cached.cachedAt))) {
     return cached.data;
   }
 
   try {
-    const response = await fetch(url, buildFetchOptions());
+    const response = await sdkFetch(url, buildFetchOptions());
 
     if (!response.ok) {
       throw new Error(`${failureMessage}: ${response.status}`);
     }
 
     const jwksData = await response.json() as JSONWebKeySet;
-    jwksCache.set(cacheKey, { data: jwksData, cachedAt: Date.now() });
+    try {
+      await store.set<JwksCacheEntry>(
+        JWKS_CACHE_PREFIX + cacheKey,
+        { data: jwksData, cachedAt: Date.now() },
+        JWKS_CACHE_TTL_MS / 1000
+      );
+    } catch (error) {
+      if (debug) {
+        console.error("JWKS cache write failed:", error);
+      }
+    }
     return jwksData;
   } catch (error) {
     if (debug) {
       console.error(logLabel, error);
     }
+    // A failed refresh keeps serving the cached key set.
+    if (cached) {
+      return cached.data;
+    }
     throw error;
   }
 }
 
+/** Supplies the platform key set on demand, e.g. from a bundled file or a secrets store. */
+export type JwksProvider = () => JSONWebKeySet | Promise<JSONWebKeySet>;
+
+/**
+ * A locally supplied platform key set. In `"override"` mode it replaces the network fetch
+ * entirely (air-gapped or deterministic environments); in `"fallback"` mode (default) it is
+ * used only when fetching the platform JWKS fails.
+ */
+export interface StaticJwksOptions {
+  jwks: JSONWebKeySet | JwksProvider;
+  mode?: "override" | "fallback";
+}
+
+async function loadStaticJwks(staticJwks: StaticJwksOptions): Promise<JSONWebKeySet> {
+  return typeof staticJwks.jwks === "function" ? await staticJwks.jwks() : staticJwks.jwks;
+}
+
+/**
+ * Load the platform key set, from the cache store when fresh. With `refresh` (a token's kid was
+ * not in the cached set), the cached set is refetched if it is older than a minute and this isolate
+ * has not tried a refresh in the last minute.
+ */
 export async function fetchPlatformJwks(
   baseUrl: string,
-  debug: boolean
+  debug: boolean,
+  staticJwks?: StaticJwksOptions,
+  refresh: boolean = false
 ): Promise<JSONWebKeySet> {
+  if (staticJwks && staticJwks.mode === "override") {
+    if (debug) {
+      console.debug("Using static platform JWKS (override)");
+    }
+    return loadStaticJwks(staticJwks);
+  }
+
   const jwksUrl = `${baseUrl}/.well-known/jwks.json/platform`;
   if (debug) {
     console.debug(`Fetching platform JWKS from URL: ${jwksUrl}`);
   }
 
-  return fetchAndCacheJwks({
-    cacheKey: "platform_jwks",
-    url: jwksUrl,
-    debug,
-    failureMessage: "Failed to fetch platform JWKS",
-    logLabel: "Error fetching platform JWKS:",
-  });
+  try {
+    return await fetchAndCacheJwks({
+      cacheKey: "platform_jwks",
+      url: jwksUrl,
+      debug,
+      failureMessage: "Failed to fetch platform JWKS",
+      logLabel: "Error fetching platform JWKS:",
+      refresh,
+    });
+  } catch (error) {
+    if (!staticJwks) {
+      throw error;
+    }
+    if (debug) {
+      console.debug("Platform JWKS fetch failed, falling back to static JWKS");
+    }
+    return loadStaticJwks(staticJwks);
+  }
 }
 
-export function clearJwksCache(): void {
-  jwksCache.clear();
+/** Drop every cached key set, including shared-store entries. Verification never calls this. */
+export async function clearJwksCache(): Promise<void> {
+  jwksRefreshAttempts.clear();
+  const store = getCacheStore();
+  await Promise.all(
+    [...jwksCacheKeys].map((key) => store.delete(JWKS_CACHE_PREFIX + key).catch(() => undefined))
+  );
 }
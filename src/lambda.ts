@@ -0,0 +1,177 @@
+import {
+  APIGatewayProxyEventLike,
+  APIGatewayProxyEventV2Like,
+  ExecutionContext,
+  HandlerAction,
+  HandlerResult,
+  LambdaProxyEvent,
+  LambdaProxyHandler,
+  LambdaProxyResult,
+} from "./types";
+import { HandleRequestContext } from "./cdn";
+import { failureResult, FailOpenPolicy } from "./fail-mode";
+
+// Interface for what the Lambda adapter needs - avoids circular dependency
+interface RequestHandler {
+  handleRequest(request: Request, context?: HandleRequestContext): Promise<HandlerResult>;
+}
+
+function isV2(event: LambdaProxyEvent): event is APIGatewayProxyEventV2Like {
+  return (event as APIGatewayProxyEventV2Like).version === "2.0";
+}
+
+function decodeBody(body: string | null | undefined, isBase64Encoded?: boolean): BodyInit | undefined {
+  if (!body) return undefined;
+  return isBase64Encoded ? Uint8Array.from(atob(body), (char) => char.charCodeAt(0)) : body;
+}
+
+function v1Headers(event: APIGatewayProxyEventLike): Headers {
+  const headers = new Headers();
+  if (event.multiValueHeaders) {
+    for (const [name, values] of Object.entries(event.multiValueHeaders)) {
+      for (const value of values ?? []) headers.append(name, value);
+    }
+    return headers;
+  }
+  for (const [name, value] of Object.entries(event.headers ?? {})) {
+    if (value !== undefined) headers.set(name, value);
+  }
+  return headers;
+}
+
+function v1Query(event: APIGatewayProxyEventLike): string {
+  const params = new URLSearchParams();
+  if (event.multiValueQueryStringParameters) {
+    for (const [name, values] of Object.entries(event.multiValueQueryStringParameters)) {
+      for (const value of values ?? []) params.append(name, value);
+    }
+  } else {
+    for (const [name, value] of Object.entries(event.queryStringParameters ?? {})) {
+      if (value !== undefined) params.append(name, value);
+    }
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+/**
+ * Convert an API Gateway REST (v1), HTTP API (v2) or Lambda Function URL event into the
+ * `Request` the client made, plus the handler context (source IP, request id).
+ */
+export function lambdaEventToRequest(event: LambdaProxyEvent): { request: Request; context: HandleRequestContext } {
+  let method: string;
+  let headers: Headers;
+  let pathAndQuery: string;
+  let sourceIp: string | undefined;
+
+  if (isV2(event)) {
+    method = event.requestContext.http.method;
+    headers = new Headers();
+    for (const [name, value] of Object.entries(event.headers ?? {})) {
+      if (value !== undefined) headers.set(name, value);
+    }
+    // Payload 2.0 moves cookies out of the headers.
+    if (event.cookies?.length) headers.set("cookie", event.cookies.join("; "));
+    pathAndQuery = `${event.rawPath}${event.rawQueryString ? `?${event.rawQueryString}` : ""}`;
+    sourceIp = event.requestContext.http.sourceIp;
+  } else {
+    method = event.httpMethod;
+    headers = v1Headers(event);
+    pathAndQuery = `${event.requestContext?.path ?? event.path}${v1Query(event)}`;
+    sourceIp = event.requestContext?.identity?.sourceIp;
+  }
+
+  const host = headers.get("host") ?? event.requestContext?.domainName ?? "localhost";
+  const scheme = headers.get("x-forwarded-proto") ?? "https";
+  const hasBody = method !== "GET" && method !== "HEAD";
+  const request = new Request(`${scheme}://${host}${pathAndQuery}`, {
+    method,
+    headers,
+    body: hasBody ? decodeBody(event.body, event.isBase64Encoded) : undefined,
+  });
+
+  return {
+    request,
+    context: { clientIp: sourceIp, requestId: event.requestContext?.requestId },
+  };
+}
+
+/** Proxy-integration response for a BLOCK/RESPOND result. */
+export function toLambdaProxyResult(
+  result: Exclude<HandlerResult, { action: HandlerAction.ALLOW }>
+): LambdaProxyResult {
+  return {
+    statusCode: result.status,
+    headers: { ...result.headers },
+    body: result.body,
+    isBase64Encoded: false,
+  };
+}
+
+/**
+ * Normalise an inner handler's return value: payload 2.0 lets a handler return any JSON value
+ * (or a string) without `statusCode`, which API Gateway turns into a 200 JSON response.
+ */
+function asProxyResult(value: LambdaProxyResult | string | object): LambdaProxyResult {
+  if (typeof value === "object" && value !== null && "statusCode" in value) {
+    return value as LambdaProxyResult;
+  }
+  return {
+    statusCode: 200,
+    headers: { "content-type": "application/json" },
+    body: typeof value === "string" ? value : JSON.stringify(value),
+  };
+}
+
+/** Set `headers` on a proxy result, replacing any entry in `multiValueHeaders` with the same name. */
+export function applyLambdaHeaders(result: LambdaProxyResult, headers?: Record<string, string>): LambdaProxyResult {
+  if (!headers || Object.keys(headers).length === 0) return result;
+  const merged: LambdaProxyResult = { ...result, headers: { ...result.headers } };
+  for (const [name, value] of Object.entries(headers)) {
+    const lower = name.toLowerCase();
+    for (const key of Object.keys(merged.headers!)) {
+      if (key.toLowerCase() === lower) delete merged.headers![key];
+    }
+    if (merged.multiValueHeaders) {
+      merged.multiValueHeaders = Object.fromEntries(
+        Object.entries(merged.multiValueHeaders).filter(([key]) => key.toLowerCase() !== lower)
+      );
+    }
+    merged.headers![name] = value;
+  }
+  return merged;
+}
+
+/**
+ * Wrap a proxy-integration handler: BLOCK/RESPOND results are answered directly, ALLOWed events
+ * reach `inner` and its response gains the signal headers. Lambda has no `waitUntil` and freezes
+ * once the handler returns, so analytics emits are awaited before responding. When the SDK throws,
+ * `failOpen` passes the event to `inner` without signal headers; otherwise it is answered `503`.
+ */
+export function createLambdaHandler<TEvent extends LambdaProxyEvent, TContext>(
+  handler: RequestHandler,
+  inner: LambdaProxyHandler<TEvent, TContext>,
+  failOpen: FailOpenPolicy
+): (event: TEvent, context: TContext) => Promise<LambdaProxyResult> {
+  return async (event, context) => {
+    const pending: Promise<void>[] = [];
+    const ctx: ExecutionContext = { waitUntil: (promise) => void pending.push(promise) };
+
+    let result: HandlerResult;
+    let request: Request | undefined;
+    try {
+      const converted = lambdaEventToRequest(event);
+      request = converted.request;
+      result = await handler.handleRequest(request, { ...converted.context, ctx });
+    } catch (err) {
+      console.error("[SupertabConnect] Lambda adapter failed:", err);
+      result = failureResult(failOpen, request?.url);
+    }
+    await Promise.allSettled(pending);
+
+    if (result.action !== HandlerAction.ALLOW) {
+      return toLambdaProxyResult(result);
+    }
+    return applyLambdaHeaders(asProxyResult(await inner(event, context)), result.headers);
+  };
+}
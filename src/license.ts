@@ -13,10 +13,16 @@ import {
   FASTLY_BACKEND,
   FetchOptions,
 } from "./types";
-import { fetchPlatformJwks, clearJwksCache, JwksKeyNotFoundError } from "./jwks";
+import { fetchPlatformJwks, JwksKeyNotFoundError, StaticJwksOptions } from "./jwks";
+import { isLicenseRevoked, RevocationOptions } from "./revocation";
+import { UsageType } from "./customer";
+import { grantedUsages, usagePermitted } from "./usage";
+import { audienceMatches, AudienceHostAliases } from "./audience";
 import { recordEvent } from "./events";
 import { SDK_USER_AGENT } from "./version";
+import { sdkFetch } from "./fetch";
 import { toEventProperties } from "./headers";
+import { getCacheStore } from "./cache";
 
 const stripTrailingSlash = (value: string) => value.trim().replace(/\/+$/, "");
 
@@ -38,6 +44,10 @@ function reasonToErrorDescription(reason: LicenseTokenInvalidReason): string {
       return "The license token issuer is not recognized";
     case LicenseTokenInvalidReason.INVALID_AUDIENCE:
       return "The license does not grant access to this resource";
+    case LicenseTokenInvalidReason.REVOKED:
+      return "The license has been revoked";
+    case LicenseTokenInvalidReason.INSUFFICIENT_SCOPE:
+      return "The license does not grant the usage required for this resource";
     case LicenseTokenInvalidReason.SERVER_ERROR:
       return "The server encountered an error validating the license";
     default:
@@ -50,6 +60,11 @@ export type VerifyLicenseTokenParams = {
   requestUrl: string;
   supertabBaseUrl: string;
   debug: boolean;
+  staticJwks?: StaticJwksOptions;
+  revocation?: RevocationOptions;
+  // Usages the token must grant for this request; unchecked when empty.
+  requiredUsage?: UsageType[];
+  audienceHostAliases?: AudienceHostAliases;
 };
 
 export async function verifyLicenseToken({
@@ -57,6 +72,10 @@ export async function verifyLicenseToken({
   requestUrl,
   supertabBaseUrl,
   debug,
+  staticJwks,
+  revocation,
+  requiredUsage,
+  audienceHostAliases,
 }: VerifyLicenseTokenParams): Promise<LicenseTokenVerificationResult> {
   const { decodeProtectedHeader } = await loadDecodeProtectedHeader();
   const { decodeJwt } = await loadDecodeJwt();
@@ -133,12 +152,9 @@ export async function verifyLicenseToken({
     ? [payload.aud]
     : [];
 
-  const requestUrlNormalized = stripTrailingSlash(requestUrl);
-  const matchesRequestUrl = audienceValues.some((value) => {
-    const normalizedAudience = stripTrailingSlash(value);
-    if (!normalizedAudience) return false;
-    return requestUrlNormalized.startsWith(normalizedAudience);
-  });
+  const matchesRequestUrl = audienceValues.some((value) =>
+    audienceMatches(value, requestUrl, audienceHostAliases)
+  );
 
   if (!matchesRequestUrl) {
     if (debug) {
@@ -155,10 +171,10 @@ export async function verifyLicenseToken({
     };
   }
 
-  const verify = async (): Promise<LicenseTokenVerificationResult> => {
+  const verify = async (refreshJwks: boolean): Promise<LicenseTokenVerificationResult> => {
     let jwks;
     try {
-      jwks = await fetchPlatformJwks(supertabBaseUrl, debug);
+      jwks = await fetchPlatformJwks(supertabBaseUrl, debug, staticJwks, refreshJwks);
     } catch (error) {
       if (debug) {
         console.error("Failed to fetch platform JWKS:", error);
@@ -197,7 +213,15 @@ export async function verifyLicenseToken({
       }
 
       if (error instanceof JwksKeyNotFoundError) {
-        throw error;
+        // First miss: let the caller refresh the key set once. After that an unknown kid is a
+        // token we cannot verify, and must not escape as an exception the adapters fail open on.
+        if (!refreshJwks) throw error;
+        return {
+          valid: false,
+          reason: LicenseTokenInvalidReason.SIGNATURE_VERIFICATION_FAILED,
+          error: reasonToErrorDescription(LicenseTokenInvalidReason.SIGNATURE_VERIFICATION_FAILED),
+          licenseId,
+        };
       }
 
       if (error instanceof Error && error.message?.includes("exp")) {
@@ -218,18 +242,82 @@ export async function verifyLicenseToken({
     }
   };
 
+  let verification: LicenseTokenVerificationResult;
   try {
-    return await verify();
+    verification = await verify(false);
   } catch (error) {
-    if (error instanceof JwksKeyNotFoundError) {
+    if (!(error instanceof JwksKeyNotFoundError)) {
+      throw error;
+    }
+    if (debug) {
+      console.debug("Key not found in cached JWKS, refreshing and retrying...");
+    }
+    verification = await verify(true);
+  }
+
+  if (!verification.valid) {
+    return verification;
+  }
+
+  if (requiredUsage && requiredUsage.length > 0) {
+    const granted = grantedUsages(verification.payload);
+    if (!usagePermitted(granted, requiredUsage)) {
       if (debug) {
-        console.debug("Key not found in cached JWKS, clearing cache and retrying...");
+        console.error(
+          `License token grants usage [${granted.join(", ")}], request requires [${requiredUsage.join(", ")}]`
+        );
       }
-      clearJwksCache();
-      return await verify();
+      return {
+        valid: false,
+        reason: LicenseTokenInvalidReason.INSUFFICIENT_SCOPE,
+        error: reasonToErrorDescription(LicenseTokenInvalidReason.INSUFFICIENT_SCOPE),
+        licenseId,
+      };
+    }
+  }
+
+  if (!revocation || !licenseId) {
+    return verification;
+  }
+  return checkRevocation(verification, licenseId, revocation, debug);
+}
+
+async function checkRevocation(
+  verification: LicenseTokenVerificationResult & { valid: true },
+  licenseId: string,
+  revocation: RevocationOptions,
+  debug: boolean
+): Promise<LicenseTokenVerificationResult> {
+  let revoked: boolean;
+  try {
+    revoked = await isLicenseRevoked(licenseId, verification.payload, revocation, debug);
+  } catch (error) {
+    if (debug) {
+      console.error("License revocation check failed:", error);
+    }
+    if (!revocation.failClosed) {
+      return verification;
     }
-    throw error;
+    return {
+      valid: false,
+      reason: LicenseTokenInvalidReason.SERVER_ERROR,
+      error: reasonToErrorDescription(LicenseTokenInvalidReason.SERVER_ERROR),
+      licenseId,
+    };
   }
+
+  if (!revoked) {
+    return verification;
+  }
+  if (debug) {
+    console.debug(`License ${licenseId} has been revoked`);
+  }
+  return {
+    valid: false,
+    reason: LicenseTokenInvalidReason.REVOKED,
+    error: reasonToErrorDescription(LicenseTokenInvalidReason.REVOKED),
+    licenseId,
+  };
 }
 
 export function generateLicenseLink({
@@ -272,8 +360,10 @@ function reasonToRslError(reason: LicenseTokenInvalidReason | string): { rslErro
     case LicenseTokenInvalidReason.INVALID_HEADER:
     case LicenseTokenInvalidReason.INVALID_PAYLOAD:
     case LicenseTokenInvalidReason.INVALID_ISSUER:
+    case LicenseTokenInvalidReason.REVOKED:
       return { rslError: "invalid_token", status: 401 };
     case LicenseTokenInvalidReason.INVALID_AUDIENCE:
+    case LicenseTokenInvalidReason.INSUFFICIENT_SCOPE:
       return { rslError: "insufficient_scope", status: 403 };
     case LicenseTokenInvalidReason.SERVER_ERROR:
       return { rslError: "server_error", status: 503 };
@@ -326,30 +416,137 @@ function buildFetchOptions(): FetchOptions {
   return options;
 }
 
+const HOSTED_LICENSE_XML_CACHE_PREFIX = "stc:hosted-license-xml:";
+// Served without revalidation for this long; also the Cache-Control max-age sent to clients.
+const HOSTED_LICENSE_XML_FRESH_SECONDS = 5 * 60; // 5 minutes
+// Stale copies are kept this long so an unreachable Supertab endpoint does not take the file down.
+const HOSTED_LICENSE_XML_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+
+interface HostedLicenseXml {
+  body: string;
+  etag: string | null;
+  // Epoch ms of the last fetch or successful revalidation.
+  checkedAt: number;
+}
+
+async function loadHostedLicenseXml(licenseUrl: string): Promise<HostedLicenseXml | null> {
+  const store = getCacheStore();
+  const cacheKey = HOSTED_LICENSE_XML_CACHE_PREFIX + licenseUrl;
+  const cached = await store.get<HostedLicenseXml>(cacheKey).catch(() => undefined);
+  if (cached && Date.now() - cached.checkedAt < HOSTED_LICENSE_XML_FRESH_SECONDS * 1000) {
+    return cached;
+  }
+
+  const options = buildFetchOptions();
+  let response: Response;
+  try {
+    response = await sdkFetch(licenseUrl, {
+      ...options,
+      headers: { ...(options.headers as Record<string, string>), ...(cached?.etag ? { "If-None-Match": cached.etag } : {}) },
+    });
+  } catch (err) {
+    if (cached) return cached;
+    throw err;
+  }
+
+  let entry: HostedLicenseXml;
+  if (response.status === 304 && cached) {
+    entry = { ...cached, checkedAt: Date.now() };
+  } else if (response.ok) {
+    entry = { body: await response.text(), etag: response.headers.get("ETag"), checkedAt: Date.now() };
+  } else {
+    // A 404 means the license is gone; server errors fall back to the stale copy.
+    return response.status >= 500 && cached ? cached : null;
+  }
+  await store.set(cacheKey, entry, HOSTED_LICENSE_XML_TTL_SECONDS).catch(() => undefined);
+  return entry;
+}
+
+function hostedLicenseXmlHeaders(etag: string | null): Headers {
+  const headers = new Headers({
+    "Content-Type": "application/rsl+xml",
+    "Cache-Control": `public, max-age=${HOSTED_LICENSE_XML_FRESH_SECONDS}`,
+  });
+  if (etag) headers.set("ETag", etag);
+  return headers;
+}
+
+function etagMatches(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  const weak = (tag: string) => tag.trim().replace(/^W\//, "");
+  return ifNoneMatch.split(",").some((tag) => tag.trim() === "*" || weak(tag) === weak(etag));
+}
+
+/**
+ * Serve the merchant's Supertab-hosted license.xml. The file is cached in the shared cache store
+ * and revalidated with If-None-Match once it is older than five minutes, so most hits need no
+ * fetch. A client `If-None-Match` matching the current ETag is answered with 304.
+ * @param supertabBaseUrl Supertab Connect API base URL
+ * @param merchantSystemUrn Merchant system URN the license is published under
+ * @param request The client request, for conditional requests
+ */
 export async function hostRSLicenseXML(
   supertabBaseUrl: string,
-  merchantSystemUrn: string
+  merchantSystemUrn: string,
+  request?: Request
 ): Promise<Response> {
   try {
     const licenseUrl = `${supertabBaseUrl}/merchants/systems/${merchantSystemUrn}/license.xml`;
-    const response = await fetch(licenseUrl, buildFetchOptions());
+    const licenseXml = await loadHostedLicenseXml(licenseUrl);
 
-    if (!response.ok) {
+    if (!licenseXml) {
       return new Response("License not found", { status: 404 });
     }
 
-    const licenseXml = await response.text();
-
-    return new Response(licenseXml, {
-      status: 200,
-      headers: new Headers({ "Content-Type": "application/rsl+xml" }),
-    });
+    const headers = hostedLicenseXmlHeaders(licenseXml.etag);
+    if (licenseXml.etag && etagMatches(request?.headers.get("If-None-Match") ?? null, licenseXml.etag)) {
+      return new Response(null, { status: 304, headers });
+    }
+    return new Response(licenseXml.body, { status: 200, headers });
   } catch (err) {
     console.error("[SupertabConnect] hostRSLicenseXML failed:", err);
     return new Response("Bad Gateway", { status: 502 });
   }
 }
 
+/**
+ * Serve the hosted license.xml where the response is itself cached downstream, as on CloudFront's
+ * origin-request trigger. A client `If-None-Match` is sent on to the Supertab endpoint and its
+ * `304` relayed, instead of being matched against the local copy, so a `304` never vouches for an
+ * ETag the endpoint has since replaced. Unconditional requests, and conditional ones the endpoint
+ * does not answer with `200` or `304`, are served like `hostRSLicenseXML`.
+ */
+export async function relayRSLicenseXML(
+  supertabBaseUrl: string,
+  merchantSystemUrn: string,
+  request: Request
+): Promise<Response> {
+  const ifNoneMatch = request.headers.get("If-None-Match");
+  if (!ifNoneMatch) return hostRSLicenseXML(supertabBaseUrl, merchantSystemUrn);
+
+  const licenseUrl = `${supertabBaseUrl}/merchants/systems/${merchantSystemUrn}/license.xml`;
+  try {
+    const options = buildFetchOptions();
+    const response = await sdkFetch(licenseUrl, {
+      ...options,
+      headers: { ...(options.headers as Record<string, string>), "If-None-Match": ifNoneMatch },
+    });
+    if (response.status === 304) {
+      return new Response(null, { status: 304, headers: hostedLicenseXmlHeaders(response.headers.get("ETag")) });
+    }
+    if (response.ok) {
+      const entry = { body: await response.text(), etag: response.headers.get("ETag"), checkedAt: Date.now() };
+      await getCacheStore()
+        .set(HOSTED_LICENSE_XML_CACHE_PREFIX + licenseUrl, entry, HOSTED_LICENSE_XML_TTL_SECONDS)
+        .catch(() => undefined);
+      return new Response(entry.body, { status: 200, headers: hostedLicenseXmlHeaders(entry.etag) });
+    }
+  } catch (err) {
+    console.error("[SupertabConnect] relayRSLicenseXML failed:", err);
+  }
+  return hostRSLicenseXML(supertabBaseUrl, merchantSystemUrn);
+}
+
 export type VerifyAndRecordEventParams = {
   token: string;
   url: string;
@@ -359,6 +556,10 @@ export type VerifyAndRecordEventParams = {
   apiKey: string;
   ctx?: ExecutionContext;
   requestHeaders?: Record<string, string>;
+  staticJwks?: StaticJwksOptions;
+  revocation?: RevocationOptions;
+  requiredUsage?: UsageType[];
+  audienceHostAliases?: AudienceHostAliases;
 };
 
 export async function verifyAndRecordEvent(
@@ -369,6 +570,10 @@ export async function verifyAndRecordEvent(
     requestUrl: params.url,
     supertabBaseUrl: params.supertabBaseUrl,
     debug: params.debug,
+    staticJwks: params.staticJwks,
+    revocation: params.revocation,
+    requiredUsage: params.requiredUsage,
+    audienceHostAliases: params.audienceHostAliases,
   });
 
   const eventPromise = recordEvent({
@@ -0,0 +1,76 @@
+import {
+  HandlerAction,
+  HandlerResult,
+  NextMiddleware,
+  NextMiddlewareOptions,
+  NextRequestLike,
+} from "./types";
+import { applyResponseHeaders, HandleRequestContext } from "./cdn";
+import { failureResult, FailOpenPolicy } from "./fail-mode";
+
+// Interface for what the Next.js adapter needs - avoids circular dependency
+interface RequestHandler {
+  handleRequest(request: Request, context?: HandleRequestContext): Promise<HandlerResult>;
+}
+
+const STATIC_ASSET_PATH = /^\/_next\/|^\/favicon\.ico$|\.(?:css|js|mjs|map|png|jpe?g|gif|webp|avif|svg|ico|woff2?|ttf|otf)$/i;
+
+/** Whether a path is a Next.js build artefact or static file the middleware should not check. */
+export function isStaticAssetPath(pathname: string): boolean {
+  return STATIC_ASSET_PATH.test(pathname);
+}
+
+/** Rightmost `X-Forwarded-For` entry: the one appended by the proxy in front of the app. */
+function lastForwardedFor(headers: Headers): string | undefined {
+  return headers.get("x-forwarded-for")?.split(",").pop()?.trim() || undefined;
+}
+
+/**
+ * Map Vercel's request IP/geo (fields on older Next.js, headers on newer) onto the handler context.
+ * The IP headers are read only with `trustProxy`, since clients can set them on other hosts.
+ */
+export function nextRequestContext(request: NextRequestLike, trustProxy = false): HandleRequestContext {
+  const headers = request.headers;
+  return {
+    clientIp:
+      request.ip ??
+      (trustProxy ? (headers.get("x-real-ip") ?? lastForwardedFor(headers)) : undefined),
+    requestCountry: request.geo?.country ?? headers.get("x-vercel-ip-country") ?? null,
+    requestId: headers.get("x-vercel-id") ?? undefined,
+  };
+}
+
+export function createNextMiddleware(
+  handler: RequestHandler,
+  options: Pick<NextMiddlewareOptions, "NextResponse" | "middleware" | "skipStaticAssets" | "trustProxy"> & {
+    failOpen: FailOpenPolicy;
+  }
+): NextMiddleware {
+  const { NextResponse, middleware, skipStaticAssets = true, trustProxy = false, failOpen } = options;
+
+  return async (request, event) => {
+    if (skipStaticAssets && isStaticAssetPath(new URL(request.url).pathname)) {
+      return middleware ? middleware(request, event) : NextResponse.next();
+    }
+
+    let result: HandlerResult;
+    try {
+      result = await handler.handleRequest(request, { ...nextRequestContext(request, trustProxy), ctx: event });
+    } catch (err) {
+      console.error("[SupertabConnect] Next.js middleware failed:", err);
+      result = failureResult(failOpen, request.url);
+    }
+
+    if (result.action !== HandlerAction.ALLOW) {
+      return new NextResponse(result.body, {
+        status: result.status,
+        headers: result.headers,
+      });
+    }
+
+    const downstream = middleware ? await middleware(request, event) : undefined;
+    return downstream
+      ? applyResponseHeaders(downstream, result.headers)
+      : NextResponse.next({ headers: result.headers });
+  };
+}
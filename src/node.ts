@@ -0,0 +1,151 @@
+import {
+  HandlerAction,
+  HandlerResult,
+  NodeIncomingMessage,
+  NodeServerResponse,
+  ExpressMiddleware,
+  FastifyOnRequestHook,
+  KoaMiddleware,
+} from "./types";
+import { HandleRequestContext } from "./cdn";
+import { failureResult, FailOpenPolicy } from "./fail-mode";
+
+// Interface for what the Node adapters need - avoids circular dependency
+interface RequestHandler {
+  handleRequest(request: Request, context?: HandleRequestContext): Promise<HandlerResult>;
+}
+
+export function headerValue(req: NodeIncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** First entry of a comma-separated forwarding header (the original client's value). */
+export function firstForwarded(req: NodeIncomingMessage, name: string): string | undefined {
+  return headerValue(req, name)?.split(",")[0]?.trim() || undefined;
+}
+
+/**
+ * Last entry of a comma-separated forwarding header: the one appended by the proxy nearest the
+ * server. Earlier entries are whatever the client sent and cannot be trusted.
+ */
+export function lastForwarded(req: NodeIncomingMessage, name: string): string | undefined {
+  return headerValue(req, name)?.split(",").pop()?.trim() || undefined;
+}
+
+/**
+ * Rebuild the absolute request URL and headers as a Web API `Request`. The body is not forwarded:
+ * `handleRequest` only inspects the URL and headers, and the framework still owns the stream.
+ */
+export function toWebRequest(req: NodeIncomingMessage, trustProxy: boolean, path = req.url): Request {
+  const protocol =
+    (trustProxy ? firstForwarded(req, "x-forwarded-proto") : undefined) ??
+    (req.socket?.encrypted ? "https" : "http");
+  const host =
+    (trustProxy ? firstForwarded(req, "x-forwarded-host") : undefined) ?? headerValue(req, "host") ?? "localhost";
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) continue;
+    // Pseudo-headers from HTTP/2 compatibility mode are not valid header names.
+    if (name.startsWith(":")) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      headers.append(name, item);
+    }
+  }
+
+  return new Request(`${protocol}://${host}${path ?? "/"}`, {
+    method: req.method ?? "GET",
+    headers,
+  });
+}
+
+/** Client IP from the socket, or from the rightmost `X-Forwarded-For` entry behind a trusted proxy. */
+export function nodeClientIp(req: NodeIncomingMessage, trustProxy: boolean): string | undefined {
+  return (trustProxy ? lastForwarded(req, "x-forwarded-for") : undefined) ?? req.socket?.remoteAddress;
+}
+
+/**
+ * Run `handleRequest` for a Node request. Errors become `failureResult(failOpen)`: ALLOW without
+ * headers, like the CDN handlers, or a `503` where a failure must not let bots through.
+ */
+export async function handleNodeRequest(
+  handler: RequestHandler,
+  req: NodeIncomingMessage,
+  trustProxy: boolean,
+  failOpen: FailOpenPolicy,
+  path?: string
+): Promise<HandlerResult> {
+  let request: Request | undefined;
+  try {
+    request = toWebRequest(req, trustProxy, path);
+    return await handler.handleRequest(request, {
+      clientIp: nodeClientIp(req, trustProxy),
+      requestId: headerValue(req, "x-request-id"),
+    });
+  } catch (err) {
+    console.error("[SupertabConnect] Node middleware failed:", err);
+    return failureResult(failOpen, request?.url);
+  }
+}
+
+/** Write a BLOCK/RESPOND result to a raw `ServerResponse`. */
+export function writeNodeResponse(
+  res: NodeServerResponse,
+  result: Exclude<HandlerResult, { action: HandlerAction.ALLOW }>
+): void {
+  res.statusCode = result.status;
+  for (const [name, value] of Object.entries(result.headers)) {
+    res.setHeader(name, value);
+  }
+  res.end(result.body);
+}
+
+export function createExpressMiddleware(handler: RequestHandler, trustProxy: boolean, failOpen: FailOpenPolicy): ExpressMiddleware {
+  return async (req, res, next) => {
+    const result = await handleNodeRequest(handler, req, trustProxy, failOpen, req.originalUrl ?? req.url);
+    if (result.action !== HandlerAction.ALLOW) {
+      writeNodeResponse(res, result);
+      return;
+    }
+    for (const [name, value] of Object.entries(result.headers ?? {})) {
+      res.setHeader(name, value);
+    }
+    next();
+  };
+}
+
+export function createFastifyHook(handler: RequestHandler, trustProxy: boolean, failOpen: FailOpenPolicy): FastifyOnRequestHook {
+  return async (request, reply) => {
+    const result = await handleNodeRequest(handler, request.raw, trustProxy, failOpen);
+    if (result.action !== HandlerAction.ALLOW) {
+      reply.code(result.status);
+      for (const [name, value] of Object.entries(result.headers)) {
+        reply.header(name, value);
+      }
+      // Returning the reply from an async hook stops Fastify's lifecycle after send().
+      return reply.send(result.body);
+    }
+    for (const [name, value] of Object.entries(result.headers ?? {})) {
+      reply.header(name, value);
+    }
+  };
+}
+
+export function createKoaMiddleware(handler: RequestHandler, trustProxy: boolean, failOpen: FailOpenPolicy): KoaMiddleware {
+  return async (ctx, next) => {
+    const result = await handleNodeRequest(handler, ctx.req, trustProxy, failOpen, ctx.originalUrl ?? ctx.req.url);
+    if (result.action !== HandlerAction.ALLOW) {
+      ctx.status = result.status;
+      for (const [name, value] of Object.entries(result.headers)) {
+        ctx.set(name, value);
+      }
+      ctx.body = result.body;
+      return;
+    }
+    for (const [name, value] of Object.entries(result.headers ?? {})) {
+      ctx.set(name, value);
+    }
+    await next();
+  };
+}
@@ -0,0 +1,182 @@
+import { blockLicenses, ContentBlock, findBestMatchingContent, parseContentElements } from "./customer";
+import { RslLicense, RslPermissions } from "./rsl";
+import { buildBlockResult, generateLicenseLink } from "./license";
+import { FASTLY_BACKEND, FetchOptions, HandlerAction, HandlerResult, LicenseTokenInvalidReason } from "./types";
+import { SDK_USER_AGENT } from "./version";
+import { sdkFetch } from "./fetch";
+import { getCacheStore } from "./cache";
+
+const OFFER_LICENSE_XML_CACHE_PREFIX = "stc:offer-license-xml:";
+const OFFER_LICENSE_XML_TTL_SECONDS = 15 * 60; // 15 minutes
+// A missing or failing license.xml is remembered this long, so unlicensed bots do not refetch it.
+const OFFER_LICENSE_XML_FAILURE_TTL_SECONDS = 60;
+
+// Cached in place of the document when it could not be loaded.
+type OfferLicenseXmlEntry = string | { unavailable: true };
+
+/**
+ * Opt-in HTTP 402 responses for unlicensed bots. The license.xml describing the offer is read from
+ * `licenseXml` when given, else fetched from `licenseXmlUrl` (default: the request origin's
+ * `/license.xml`) and cached in the shared cache store.
+ */
+export interface PaymentRequiredOptions {
+  licenseXmlUrl?: string;
+  licenseXml?: string;
+}
+
+export interface LicenseOfferPayment {
+  type: string | null;
+  amount: string | null;
+  currency: string | null;
+}
+
+/** Machine-readable body of a 402 response. */
+export interface LicenseOffer {
+  error: "payment_required";
+  error_description: string;
+  resource: string;
+  license_url: string;
+  offer: {
+    content_url: string;
+    // License server from the `<content server>` attribute.
+    server: string;
+    // Where a license token is requested (client_credentials), as `obtainLicenseToken` does.
+    token_endpoint: string;
+    // `<permits>` / `<prohibits>` entries keyed by their `type` attribute (usage, user, geo).
+    terms: {
+      permits: Record<string, string[]>;
+      prohibits: Record<string, string[]>;
+    };
+    payment: LicenseOfferPayment | null;
+  };
+}
+
+function buildFetchOptions(): FetchOptions {
+  let options: FetchOptions = { method: "GET", headers: { "User-Agent": SDK_USER_AGENT } };
+  if (globalThis.fastly) {
+    options = { ...options, backend: FASTLY_BACKEND };
+  }
+  return options;
+}
+
+async function loadOfferLicenseXml(url: string, debug: boolean): Promise<string | null> {
+  const store = getCacheStore();
+  const cacheKey = OFFER_LICENSE_XML_CACHE_PREFIX + url;
+  try {
+    const cached = await store.get<OfferLicenseXmlEntry>(cacheKey);
+    if (typeof cached === "string") return cached;
+    if (cached !== undefined) {
+      if (debug) {
+        console.debug(`license.xml from ${url} recently unavailable; not refetching`);
+      }
+      return null;
+    }
+  } catch (error) {
+    if (debug) {
+      console.error("license.xml cache read failed:", error);
+    }
+  }
+
+  try {
+    const response = await sdkFetch(url, buildFetchOptions());
+    if (response.ok) {
+      const xml = await response.text();
+      await store.set<OfferLicenseXmlEntry>(cacheKey, xml, OFFER_LICENSE_XML_TTL_SECONDS).catch(() => undefined);
+      return xml;
+    }
+    if (debug) {
+      console.debug(`license.xml fetch from ${url} returned ${response.status}`);
+    }
+  } catch (error) {
+    if (debug) {
+      console.error(`license.xml fetch from ${url} failed:`, error);
+    }
+  }
+  await store
+    .set<OfferLicenseXmlEntry>(cacheKey, { unavailable: true }, OFFER_LICENSE_XML_FAILURE_TTL_SECONDS)
+    .catch(() => undefined);
+  return null;
+}
+
+function termsOf(permissions: RslPermissions | undefined): Record<string, string[]> {
+  const terms: Record<string, string[]> = {};
+  for (const [type, values] of Object.entries(permissions ?? {})) {
+    if (values.length > 0) terms[type] = values;
+  }
+  return terms;
+}
+
+function paymentOf(license: RslLicense | undefined): LicenseOfferPayment | null {
+  const payment = license?.payments[0];
+  if (!payment) return null;
+  const amount = payment.amounts[0];
+  return {
+    type: payment.type,
+    amount: amount ? amount.value : null,
+    currency: amount?.currency ?? null,
+  };
+}
+
+/** Build the 402 offer body for a licensable content block, from its first license. */
+export function buildLicenseOffer(
+  block: ContentBlock & { server: string },
+  license: RslLicense | undefined,
+  requestUrl: string,
+  licenseUrl: string
+): LicenseOffer {
+  return {
+    error: "payment_required",
+    error_description: "A license is required to access this resource",
+    resource: requestUrl,
+    license_url: licenseUrl,
+    offer: {
+      content_url: block.urlPattern,
+      server: block.server,
+      token_endpoint: `${block.server}/token`,
+      terms: {
+        permits: termsOf(license?.permits),
+        prohibits: termsOf(license?.prohibits),
+      },
+      payment: paymentOf(license),
+    },
+  };
+}
+
+/**
+ * Build a 402 Payment Required result carrying the license offer for `requestUrl`, or null when
+ * the license.xml is unavailable or the URL is not covered by a token-gated `<content>` block —
+ * callers then fall back to the standard 401 block.
+ */
+export async function buildPaymentRequiredResult(
+  requestUrl: string,
+  options: PaymentRequiredOptions,
+  debug: boolean
+): Promise<HandlerResult | null> {
+  const licenseUrl = options.licenseXmlUrl ?? generateLicenseLink({ requestUrl });
+  const xml = options.licenseXml ?? (await loadOfferLicenseXml(licenseUrl, debug));
+  if (!xml) return null;
+
+  const block = findBestMatchingContent(parseContentElements(xml, debug), requestUrl, debug);
+  if (!block?.server) {
+    if (debug) {
+      console.debug(`No token-gated license covers ${requestUrl}; not offering a license`);
+    }
+    return null;
+  }
+
+  const offer = buildLicenseOffer({ ...block, server: block.server }, blockLicenses(block)[0], requestUrl, licenseUrl);
+  const blocked = buildBlockResult({
+    reason: LicenseTokenInvalidReason.MISSING_TOKEN,
+    error: "Authorization header missing or malformed",
+    requestUrl,
+  });
+  return {
+    action: HandlerAction.BLOCK,
+    status: 402,
+    body: JSON.stringify(offer),
+    headers: {
+      ...blocked.headers,
+      "Content-Type": "application/json; charset=UTF-8",
+    },
+  };
+}
@@ -0,0 +1,113 @@
+import { EnforcementMode, EnforcementRule, HandlerAction, HandlerResult } from "./types";
+import { findBestPatternMatch } from "./url-pattern";
+import type { VerifiedCrawlerResult } from "./crawlers";
+import type { WebBotAuthResult } from "./web-bot-auth";
+
+export interface EnforcementDecision {
+  enforcement: EnforcementMode;
+  // The rule that selected `enforcement`, or null when the instance default applies.
+  rule: EnforcementRule | null;
+}
+
+/** Label recorded in analytics for a matched rule: its name, else its pattern. */
+export function policyRuleLabel(rule: EnforcementRule | null): string | null {
+  return rule ? rule.name ?? rule.pattern : null;
+}
+
+/**
+ * Find the rule whose `pattern` best matches a request URL. Patterns use the same semantics as
+ * license.xml `<content url>` (see `findBestPatternMatch`): an exact path match wins outright,
+ * otherwise the most specific matching pattern wins, and the first-declared rule wins a
+ * specificity tie. Absolute-URL patterns only apply to their host.
+ */
+export function findMatchingRule<R extends { pattern: string }>(
+  rules: R[] | undefined,
+  requestUrl: string,
+  debug?: boolean
+): R | null {
+  if (!rules || rules.length === 0) {
+    return null;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(requestUrl);
+  } catch {
+    return null;
+  }
+  return findBestPatternMatch(rules, (rule) => rule.pattern, parsed, debug)?.item ?? null;
+}
+
+/**
+ * The verified identities of a request, as matched by `EnforcementRule.verifiedAgents`: the
+ * Web Bot Auth agent origin of a verified signature and the id of an IP-verified crawler.
+ */
+export function verifiedIdentities(
+  webBotAuth: WebBotAuthResult | null,
+  crawler: VerifiedCrawlerResult | null
+): string[] {
+  const identities: string[] = [];
+  if (webBotAuth?.outcome === "verified" && webBotAuth.agent) {
+    identities.push(webBotAuth.agent);
+  }
+  if (crawler?.verified) {
+    identities.push(crawler.id);
+  }
+  return identities;
+}
+
+/**
+ * Whether a rule conditioned on `verifiedAgents` matches the request URL, i.e. whether the
+ * request's verified identity can change the enforcement decision.
+ */
+export function hasVerifiedAgentRule(
+  rules: EnforcementRule[] | undefined,
+  requestUrl: string
+): boolean {
+  return findMatchingRule(rules?.filter((rule) => rule.verifiedAgents), requestUrl) !== null;
+}
+
+/**
+ * Pick the enforcement mode for a request URL from a declarative rule set (see
+ * `findMatchingRule` for matching). Rules with `verifiedAgents` only take part when one of
+ * `identities` is listed, and then win a specificity tie. Falls back to `defaultMode` when no rule matches.
+ */
+export function resolveEnforcement(
+  rules: EnforcementRule[] | undefined,
+  requestUrl: string,
+  defaultMode: EnforcementMode,
+  debug?: boolean,
+  identities: string[] = []
+): EnforcementDecision {
+  // Matching agent rules go first, so they win a specificity tie against unconditioned rules.
+  const eligible = rules && [
+    ...rules.filter((candidate) => candidate.verifiedAgents?.some((agent) => identities.includes(agent))),
+    ...rules.filter((candidate) => !candidate.verifiedAgents),
+  ];
+  const rule = findMatchingRule(eligible, requestUrl, debug);
+
+  if (debug && rule) {
+    console.debug(`Enforcement rule matched: ${policyRuleLabel(rule)} → ${rule.enforcement}`);
+  }
+
+  return rule
+    ? { enforcement: rule.enforcement, rule }
+    : { enforcement: defaultMode, rule: null };
+}
+
+/**
+ * Overlay a rule's custom block response onto the default BLOCK result. Headers are merged so
+ * the RSL `Link` / `WWW-Authenticate` signals survive unless the rule overrides them.
+ */
+export function applyRuleBlockResponse(result: HandlerResult, rule: EnforcementRule | null): HandlerResult {
+  if (result.action !== HandlerAction.BLOCK || !rule?.blockResponse) {
+    return result;
+  }
+  const custom = rule.blockResponse;
+  return {
+    action: HandlerAction.BLOCK,
+    status: custom.status ?? result.status,
+    body: custom.body ?? result.body,
+    headers: { ...result.headers, ...custom.headers },
+  };
+}
@@ -0,0 +1,33 @@
+import { CacheStore } from "../cache";
+import { RateLimitStore } from "./types";
+
+/**
+ * Approximate counter store on top of any `CacheStore`: per-location caches
+ * (`CloudflareCacheApiStore`, `FastlySimpleCacheStore`) or KV (`CloudflareKVCacheStore`,
+ * `FastlyKVCacheStore`). Read-then-write, so concurrent requests can under-count; use
+ * `DurableObjectRateLimitStore` where a limit must hold. KV is global but eventually consistent:
+ * other locations see a count after up to a minute, and a key takes about one write per second, so
+ * a burst against one key is under-counted and rejected writes let the request through. Quotas
+ * counted in KV are therefore approximate and only suited to coarse (hourly or daily) windows.
+ */
+export class CacheRateLimitStore implements RateLimitStore {
+  private readonly cache: CacheStore;
+  private readonly prefix: string;
+
+  constructor(cache: CacheStore, opts: { prefix?: string } = {}) {
+    this.cache = cache;
+    this.prefix = opts.prefix ?? "stc:rate-limit:";
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const storeKey = this.prefix + key;
+    const existing = await this.cache.get<{ count: number; expiresAt: number }>(storeKey);
+    const now = Date.now();
+    const entry =
+      existing && existing.expiresAt > now
+        ? { count: existing.count + 1, expiresAt: existing.expiresAt }
+        : { count: 1, expiresAt: now + ttlSeconds * 1000 };
+    await this.cache.set(storeKey, entry, Math.max(1, Math.ceil((entry.expiresAt - now) / 1000)));
+    return entry.count;
+  }
+}
@@ -0,0 +1,77 @@
+import { RateLimitStore } from "./types";
+
+/** Subset of a Workers `DurableObjectNamespace` binding used by the adapter. */
+export interface DurableObjectNamespaceLike {
+  idFromName(name: string): unknown;
+  get(id: unknown): { fetch(input: string, init?: RequestInit): Promise<Response> };
+}
+
+/** Subset of `DurableObjectState` used by `RateLimitCounterObject`. */
+export interface DurableObjectStateLike {
+  storage: {
+    get<T>(key: string): Promise<T | undefined>;
+    put<T>(key: string, value: T): Promise<void>;
+    delete(key: string): Promise<boolean>;
+    setAlarm?(scheduledTime: number): Promise<void>;
+  };
+}
+
+const COUNTER_URL = "https://rate-limit.supertab-connect/increment";
+
+/**
+ * Counter store backed by Cloudflare Durable Objects — one object per counter key, so increments
+ * are atomic and globally consistent. Bind `RateLimitCounterObject` as the namespace's class.
+ */
+export class DurableObjectRateLimitStore implements RateLimitStore {
+  private readonly namespace: DurableObjectNamespaceLike;
+
+  constructor(namespace: DurableObjectNamespaceLike) {
+    this.namespace = namespace;
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const stub = this.namespace.get(this.namespace.idFromName(key));
+    const response = await stub.fetch(`${COUNTER_URL}?ttl=${Math.ceil(ttlSeconds)}`, { method: "POST" });
+    if (!response.ok) {
+      throw new Error(`Rate limit counter returned ${response.status}`);
+    }
+    const { count } = (await response.json()) as { count: number };
+    return count;
+  }
+}
+
+/**
+ * Durable Object class for `DurableObjectRateLimitStore`. The runtime delivers requests to an object
+ * one at a time across storage awaits, so the read-increment-write below is atomic. Re-export it from the Worker entry point
+ * and bind it in wrangler.toml:
+ *
+ *   export { RateLimitCounterObject } from "@getsupertab/supertab-connect-sdk";
+ */
+export class RateLimitCounterObject {
+  private readonly state: DurableObjectStateLike;
+
+  constructor(state: DurableObjectStateLike) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const ttlSeconds = Number(new URL(request.url).searchParams.get("ttl")) || 60;
+    const now = Date.now();
+    const entry = await this.state.storage.get<{ count: number; expiresAt: number }>("counter");
+    const next =
+      entry && entry.expiresAt > now
+        ? { count: entry.count + 1, expiresAt: entry.expiresAt }
+        : { count: 1, expiresAt: now + ttlSeconds * 1000 };
+    await this.state.storage.put("counter", next);
+    if (next.count === 1) {
+      await this.state.storage.setAlarm?.(next.expiresAt);
+    }
+    return new Response(JSON.stringify({ count: next.count }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  async alarm(): Promise<void> {
+    await this.state.storage.delete("counter");
+  }
+}
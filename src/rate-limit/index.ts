@@ -0,0 +1,108 @@
+import { HandlerAction, HandlerResult } from "../types";
+import { findMatchingRule } from "../policy";
+import { MemoryRateLimitStore } from "./memory";
+import { RateLimit, RateLimitOptions, RateLimitRule, RateLimitStore } from "./types";
+
+// Shared default store for instances that configure rate limits without a store.
+const defaultRateLimitStore = new MemoryRateLimitStore();
+
+/** Who a request is counted against: a license, or an unlicensed bot identity. */
+export interface RateLimitSubject {
+  kind: "licensed" | "unlicensed";
+  id: string;
+}
+
+export interface RateLimitExceeded {
+  rule: RateLimitRule;
+  limit: RateLimit;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Identity an unlicensed bot is counted under: its verified Web Bot Auth agent when available,
+ * else the client IP, else the User-Agent.
+ */
+export function unlicensedBotIdentity(
+  request: Request,
+  clientIp: string | undefined,
+  verifiedAgent: string | null
+): string {
+  if (verifiedAgent) return `agent:${verifiedAgent}`;
+  if (clientIp) return `ip:${clientIp}`;
+  return `ua:${request.headers.get("User-Agent") ?? "unknown"}`;
+}
+
+/**
+ * Count the request against every limit of the best matching rule (fixed windows aligned to the
+ * epoch) and report the exceeded limit with the longest wait, or null when within limits. Store
+ * failures fail open.
+ */
+export async function checkRateLimit(
+  options: RateLimitOptions,
+  requestUrl: string,
+  subject: RateLimitSubject,
+  debug: boolean
+): Promise<RateLimitExceeded | null> {
+  const rule = findMatchingRule(options.rules, requestUrl, debug);
+  if (!rule || rule.limits.length === 0) return null;
+  const appliesTo = rule.appliesTo ?? "all";
+  if (appliesTo !== "all" && appliesTo !== subject.kind) return null;
+
+  const store: RateLimitStore = options.store ?? defaultRateLimitStore;
+  const label = rule.name ?? rule.pattern;
+  const nowSeconds = Date.now() / 1000;
+
+  let exceeded: RateLimitExceeded | null = null;
+  for (const limit of rule.limits) {
+    const windowIndex = Math.floor(nowSeconds / limit.windowSeconds);
+    const secondsLeft = (windowIndex + 1) * limit.windowSeconds - nowSeconds;
+    const key = `${subject.kind}:${subject.id}:${label}:${limit.windowSeconds}:${windowIndex}`;
+
+    let count: number;
+    try {
+      count = await store.increment(key, secondsLeft);
+    } catch (error) {
+      if (debug) {
+        console.error("Rate limit counter failed, allowing request:", error);
+      }
+      continue;
+    }
+
+    if (count > limit.requests) {
+      const retryAfterSeconds = Math.max(1, Math.ceil(secondsLeft));
+      if (!exceeded || retryAfterSeconds > exceeded.retryAfterSeconds) {
+        exceeded = { rule, limit, retryAfterSeconds };
+      }
+    }
+  }
+
+  if (debug && exceeded) {
+    console.debug(
+      `Rate limit exceeded for ${subject.kind} ${subject.id} on ${label}: ` +
+        `${exceeded.limit.requests}/${exceeded.limit.windowSeconds}s, retry in ${exceeded.retryAfterSeconds}s`
+    );
+  }
+  return exceeded;
+}
+
+/** Build the 429 result for an exceeded limit. */
+export function buildRateLimitResult(exceeded: RateLimitExceeded): HandlerResult {
+  return {
+    action: HandlerAction.BLOCK,
+    status: 429,
+    body: `Rate limit exceeded: ${exceeded.limit.requests} requests per ${exceeded.limit.windowSeconds} seconds`,
+    headers: {
+      "Content-Type": "text/plain; charset=UTF-8",
+      "Retry-After": String(exceeded.retryAfterSeconds),
+      "RateLimit-Limit": String(exceeded.limit.requests),
+      "RateLimit-Remaining": "0",
+      "RateLimit-Reset": String(exceeded.retryAfterSeconds),
+    },
+  };
+}
+
+export { MemoryRateLimitStore } from "./memory";
+export { CacheRateLimitStore } from "./cache";
+export { DurableObjectRateLimitStore, RateLimitCounterObject } from "./durable-object";
+export type { RateLimit, RateLimitOptions, RateLimitRule, RateLimitStore } from "./types";
+export type { DurableObjectNamespaceLike, DurableObjectStateLike } from "./durable-object";
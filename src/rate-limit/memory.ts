@@ -0,0 +1,47 @@
+import { RateLimitStore } from "./types";
+
+// Expired counters are swept at most this often, so creating a key stays O(1).
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 10000;
+
+/**
+ * In-process counter store — the default. Counts are per isolate / container, so limits are only
+ * approximate when traffic is spread across many; use a shared store for exact limits. Holds at
+ * most `maxEntries` counters: beyond that the least recently counted key is evicted and restarts
+ * from zero, so identity-rotating clients cannot grow memory without bound.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly counters = new Map<string, { count: number; expiresAt: number }>();
+  private readonly maxEntries: number;
+  private nextSweepAt = 0;
+
+  constructor(opts: { maxEntries?: number } = {}) {
+    this.maxEntries = opts.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const now = Date.now();
+    const existing = this.counters.get(key);
+    this.counters.delete(key);
+    if (existing && existing.expiresAt > now) {
+      // Re-insert so Map iteration order tracks recency.
+      existing.count += 1;
+      this.counters.set(key, existing);
+      return existing.count;
+    }
+    this.evictExpired(now);
+    this.counters.set(key, { count: 1, expiresAt: now + ttlSeconds * 1000 });
+    while (this.counters.size > this.maxEntries) {
+      this.counters.delete(this.counters.keys().next().value as string);
+    }
+    return 1;
+  }
+
+  private evictExpired(now: number): void {
+    if (now < this.nextSweepAt) return;
+    this.nextSweepAt = now + SWEEP_INTERVAL_MS;
+    for (const [key, entry] of this.counters) {
+      if (entry.expiresAt <= now) this.counters.delete(key);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Counter store backing rate limits. `increment` adds one to the counter for `key` and returns the
+ * new count; the counter must expire `ttlSeconds` after it was first created. Counters are only
+ * ever incremented, so a store without atomic increments (e.g. KV) under-counts slightly under
+ * concurrency rather than over-blocking.
+ */
+export interface RateLimitStore {
+  increment(key: string, ttlSeconds: number): Promise<number>;
+}
+
+/** At most `requests` requests per `windowSeconds`, e.g. a crawl rate (60/60) or a daily quota (10000/86400). */
+export interface RateLimit {
+  requests: number;
+  windowSeconds: number;
+}
+
+/**
+ * Rate limits for requests matching `pattern` (same syntax as `EnforcementRule.pattern`; the most
+ * specific rule wins). Licensed requests are counted per `license_id`, unlicensed bots per
+ * bot identity.
+ */
+export interface RateLimitRule {
+  pattern: string;
+  limits: RateLimit[];
+  /** Which requests the rule counts. Default: "all". */
+  appliesTo?: "licensed" | "unlicensed" | "all";
+  /** Label used in counter keys; defaults to `pattern`. Rules sharing a name share counters. */
+  name?: string;
+}
+
+export interface RateLimitOptions {
+  rules: RateLimitRule[];
+  /**
+   * Counter store. Default: a per-isolate MemoryRateLimitStore. Only DurableObjectRateLimitStore
+   * counts exactly; memory and CacheRateLimitStore (including KV) limits are approximate.
+   */
+  store?: RateLimitStore;
+}
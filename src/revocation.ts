@@ -0,0 +1,149 @@
+import type { JWTPayload } from "jose";
+import { FASTLY_BACKEND, FetchOptions } from "./types";
+import { SDK_USER_AGENT } from "./version";
+import { sdkFetch } from "./fetch";
+import { getCacheStore } from "./cache";
+
+const REVOCATION_CACHE_PREFIX = "stc:revocations:";
+const DEFAULT_REFRESH_SECONDS = 5 * 60; // 5 minutes
+
+/** Custom revocation check, e.g. for a status-list claim carried in the token payload. */
+export type RevocationChecker = (licenseId: string, payload: JWTPayload) => boolean | Promise<boolean>;
+
+interface RevocationBaseOptions {
+  /** How long a fetched list is reused before refreshing. Default: 300. */
+  refreshSeconds?: number;
+  /** Reject tokens (SERVER_ERROR) when the list cannot be fetched instead of accepting them. Default: false. */
+  failClosed?: boolean;
+}
+
+/**
+ * Revocation checking for verified license tokens, keyed on `license_id`: either a revocation list
+ * (`{ "revoked": ["<license_id>", ...] }`) fetched from `listUrl` and refreshed every
+ * `refreshSeconds`, or a custom `check`. Supertab does not publish a list endpoint, so one of the
+ * two must be given.
+ */
+export type RevocationOptions = RevocationBaseOptions &
+  ({ listUrl: string; check?: undefined } | { check: RevocationChecker; listUrl?: undefined });
+
+type RevocationListEntry = { revoked: string[]; fetchedAt: number };
+
+// Last successfully fetched list per URL, served when a refresh fails. List URLs come from
+// configuration, so a handful of entries is plenty; the oldest is evicted beyond that.
+const lastKnownLists = new Map<string, string[]>();
+const MAX_LAST_KNOWN_LISTS = 16;
+// When a fetch of each list URL last failed; no refetch is attempted for FAILURE_RETRY_MS after.
+const failedFetches = new Map<string, number>();
+const FAILURE_RETRY_MS = 30 * 1000; // 30 seconds
+
+function rememberList(url: string, revoked: string[]): void {
+  lastKnownLists.delete(url);
+  lastKnownLists.set(url, revoked);
+  while (lastKnownLists.size > MAX_LAST_KNOWN_LISTS) {
+    lastKnownLists.delete(lastKnownLists.keys().next().value as string);
+  }
+}
+
+export class RevocationListUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RevocationListUnavailableError";
+  }
+}
+
+function buildFetchOptions(): FetchOptions {
+  let options: FetchOptions = { method: "GET", headers: { "User-Agent": SDK_USER_AGENT } };
+  if (globalThis.fastly) {
+    options = { ...options, backend: FASTLY_BACKEND };
+  }
+  return options;
+}
+
+async function fetchRevocationList(url: string, refreshSeconds: number, debug: boolean): Promise<string[]> {
+  const store = getCacheStore();
+  const cacheKey = REVOCATION_CACHE_PREFIX + url;
+  try {
+    const cached = await store.get<RevocationListEntry>(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < refreshSeconds * 1000) {
+      return cached.revoked;
+    }
+  } catch (error) {
+    if (debug) {
+      console.error("Revocation list cache read failed:", error);
+    }
+  }
+
+  const failedAt = failedFetches.get(url);
+  if (failedAt !== undefined && Date.now() - failedAt < FAILURE_RETRY_MS) {
+    const stale = lastKnownLists.get(url);
+    if (stale) return stale;
+    throw new RevocationListUnavailableError("Revocation list unavailable (fetch failed recently)");
+  }
+
+  try {
+    const response = await sdkFetch(url, buildFetchOptions());
+    if (!response.ok) {
+      throw new RevocationListUnavailableError(`Failed to fetch revocation list: ${response.status}`);
+    }
+    const body = (await response.json()) as { revoked?: unknown };
+    if (!Array.isArray(body?.revoked)) {
+      throw new RevocationListUnavailableError("Revocation list response missing revoked array");
+    }
+    const revoked = body.revoked.filter((id): id is string => typeof id === "string");
+    rememberList(url, revoked);
+    failedFetches.delete(url);
+    try {
+      await store.set<RevocationListEntry>(cacheKey, { revoked, fetchedAt: Date.now() }, refreshSeconds);
+    } catch (error) {
+      if (debug) {
+        console.error("Revocation list cache write failed:", error);
+      }
+    }
+    return revoked;
+  } catch (error) {
+    failedFetches.delete(url);
+    failedFetches.set(url, Date.now());
+    while (failedFetches.size > MAX_LAST_KNOWN_LISTS) {
+      failedFetches.delete(failedFetches.keys().next().value as string);
+    }
+    const stale = lastKnownLists.get(url);
+    if (stale) {
+      if (debug) {
+        console.debug("Revocation list refresh failed, using last known list:", error);
+      }
+      return stale;
+    }
+    throw error instanceof RevocationListUnavailableError
+      ? error
+      : new RevocationListUnavailableError(`Failed to fetch revocation list: ${String(error)}`);
+  }
+}
+
+/**
+ * Whether a verified token's license has been revoked. Throws RevocationListUnavailableError
+ * when the list cannot be loaded; callers decide whether that fails open or closed.
+ */
+export async function isLicenseRevoked(
+  licenseId: string,
+  payload: JWTPayload,
+  options: RevocationOptions,
+  debug: boolean
+): Promise<boolean> {
+  if (options.check) {
+    return options.check(licenseId, payload);
+  }
+  if (!options.listUrl) {
+    throw new RevocationListUnavailableError("Revocation checking needs a listUrl or a check function");
+  }
+  const revoked = await fetchRevocationList(options.listUrl, options.refreshSeconds ?? DEFAULT_REFRESH_SECONDS, debug);
+  return revoked.includes(licenseId);
+}
+
+export async function clearRevocationCache(): Promise<void> {
+  const store = getCacheStore();
+  await Promise.all(
+    [...lastKnownLists.keys()].map((url) => store.delete(REVOCATION_CACHE_PREFIX + url).catch(() => undefined))
+  );
+  lastKnownLists.clear();
+  failedFetches.clear();
+}
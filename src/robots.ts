@@ -0,0 +1,125 @@
+import { EnforcementMode, EnforcementRule } from "./types";
+import { generateLicenseLink } from "./license";
+
+/**
+ * Opt-in robots.txt rewriting at the edge. The origin's robots.txt is served with a
+ * `License: <license.xml URL>` directive added, and optionally with a Disallow group for
+ * `disallowCrawlers` covering the paths where unlicensed bots are blocked.
+ */
+export interface RobotsTxtOptions {
+  /** License URL to advertise. Default: the request origin's `/license.xml`. */
+  licenseUrl?: string;
+  /** User-agent tokens (e.g. "GPTBot") given a group disallowing the ENFORCE paths. */
+  disallowCrawlers?: string[];
+}
+
+/** Enforcement policy the Disallow group is generated from. */
+export interface RobotsTxtPolicy {
+  enforcement: EnforcementMode;
+  enforcementRules?: EnforcementRule[];
+}
+
+const GROUP_COMMENT = "# Supertab Connect: a license is required for these paths";
+
+// Headers describing the origin body that no longer hold once it is rewritten.
+export const ROBOTS_BODY_HEADERS = ["content-length", "content-encoding", "content-md5", "content-range"];
+
+/**
+ * Path patterns of `rules` that apply to `host`, in robots.txt form. Rules with `verifiedAgents`
+ * are skipped: they apply to verified identities, not to the user agents a group names.
+ */
+function rulePaths(rules: EnforcementRule[], host: string, modes: EnforcementMode[]): string[] {
+  const paths: string[] = [];
+  for (const rule of rules) {
+    if (!modes.includes(rule.enforcement) || rule.verifiedAgents) continue;
+    if (rule.pattern.startsWith("/")) {
+      paths.push(rule.pattern);
+      continue;
+    }
+    try {
+      const url = new URL(rule.pattern);
+      if (url.host === host) paths.push(url.pathname);
+    } catch {
+      // Invalid patterns never match a request either.
+    }
+  }
+  return paths;
+}
+
+/** Build the Disallow group for `crawlers`, or null when nothing is enforced. */
+export function buildRobotsDisallowGroup(crawlers: string[], policy: RobotsTxtPolicy, host: string): string | null {
+  if (crawlers.length === 0) return null;
+  const rules = policy.enforcementRules ?? [];
+  const lines: string[] = [];
+  if (policy.enforcement === EnforcementMode.ENFORCE) {
+    lines.push("Disallow: /");
+    const open = rulePaths(rules, host, [EnforcementMode.OBSERVE, EnforcementMode.DISABLED]);
+    lines.push(...open.map((path) => `Allow: ${path}`));
+  } else {
+    const enforced = rulePaths(rules, host, [EnforcementMode.ENFORCE]);
+    lines.push(...enforced.map((path) => `Disallow: ${path}`));
+  }
+  if (lines.length === 0) return null;
+  return [GROUP_COMMENT, ...crawlers.map((crawler) => `User-agent: ${crawler}`), ...lines].join("\n");
+}
+
+/**
+ * Add the `License:` directive to a robots.txt body, dropping repeats of it, and append the
+ * Disallow group when `disallowCrawlers` is set. Other License directives are kept.
+ */
+export function rewriteRobotsTxt(
+  robotsTxt: string,
+  requestUrl: string,
+  options: RobotsTxtOptions,
+  policy: RobotsTxtPolicy
+): string {
+  const licenseUrl = options.licenseUrl ?? generateLicenseLink({ requestUrl });
+  const newline = robotsTxt.includes("\r\n") ? "\r\n" : "\n";
+
+  let seen = false;
+  const lines = robotsTxt.split(/\r?\n/).filter((line) => {
+    const match = line.trim().match(/^license\s*:\s*(\S+)/i);
+    if (!match || match[1] !== licenseUrl) return true;
+    if (seen) return false;
+    seen = true;
+    return true;
+  });
+  // License is a non-group directive, so the top of the file keeps it out of any group.
+  if (!seen) lines.unshift(`License: ${licenseUrl}`);
+
+  const group = options.disallowCrawlers
+    ? buildRobotsDisallowGroup(options.disallowCrawlers, policy, new URL(requestUrl).host)
+    : null;
+  if (group) {
+    while (lines.length > 0 && lines[lines.length - 1].trim() === "") lines.pop();
+    lines.push("", ...group.split("\n"), "");
+  }
+  return lines.join(newline);
+}
+
+/**
+ * Serve the origin's robots.txt response rewritten by `rewriteRobotsTxt`. The origin's caching
+ * headers are kept; its ETag is weakened since the body changed. A missing robots.txt (404) is
+ * replaced by one holding just the directives; other non-2xx responses pass through untouched.
+ */
+export async function serveRobotsTxt(
+  originResponse: Response,
+  requestUrl: string,
+  options: RobotsTxtOptions,
+  policy: RobotsTxtPolicy
+): Promise<Response> {
+  if (originResponse.status === 404) {
+    return new Response(rewriteRobotsTxt("", requestUrl, options, policy), {
+      status: 200,
+      headers: { "Content-Type": "text/plain; charset=utf-8" },
+    });
+  }
+  if (!originResponse.ok) return originResponse;
+
+  const body = rewriteRobotsTxt(await originResponse.text(), requestUrl, options, policy);
+  const headers = new Headers(originResponse.headers);
+  ROBOTS_BODY_HEADERS.forEach((name) => headers.delete(name));
+  const etag = headers.get("ETag");
+  if (etag && !etag.startsWith("W/")) headers.set("ETag", `W/${etag}`);
+  return new Response(body, { status: originResponse.status, headers });
+}
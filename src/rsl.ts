@@ -0,0 +1,169 @@
+import { parseXml, XmlElement } from "./xml";
+
+/** Namespace of RSL 1.0 documents. Elements in no namespace are read as RSL too. */
+export const RSL_NAMESPACE = "https://rslstandard.org/rsl";
+
+/** Space-separated `<permits>` / `<prohibits>` values, by their `type` attribute. */
+export interface RslPermissions {
+  usage: string[];
+  user: string[];
+  geo: string[];
+}
+
+export interface RslAmount {
+  value: string;
+  currency: string | null;
+}
+
+export interface RslPayment {
+  /** Payment model, e.g. "purchase", "subscription", "crawl", "free". */
+  type: string | null;
+  /** `<standard>` URLs of standard license terms. */
+  standard: string[];
+  /** `<custom>` URLs for negotiating custom terms. */
+  custom: string[];
+  amounts: RslAmount[];
+}
+
+export interface RslLegal {
+  /** Kind of legal statement, e.g. "warranty", "disclaimer". */
+  type: string | null;
+  values: string[];
+}
+
+export interface RslLicense {
+  permits: RslPermissions;
+  prohibits: RslPermissions;
+  payments: RslPayment[];
+  legal: RslLegal[];
+}
+
+export interface RslCopyright {
+  /** "person" or "organization". */
+  type: string | null;
+  /** Holder name (the element text). */
+  holder: string | null;
+  contactEmail: string | null;
+  contactUrl: string | null;
+}
+
+export interface RslContent {
+  /** Content URL pattern (absolute URL or path). */
+  url: string;
+  /** License server that issues tokens for the content; null for content licensed without one. */
+  server: string | null;
+  encrypted: boolean;
+  lastmod: string | null;
+  licenses: RslLicense[];
+  /** `<schema>` URL describing the content. */
+  schema: string | null;
+  copyright: RslCopyright | null;
+  /** `<terms>` URL of the publisher's terms. */
+  terms: string | null;
+}
+
+export interface RslDocument {
+  contents: RslContent[];
+}
+
+function isRsl(element: XmlElement, name: string): boolean {
+  return element.name === name && (element.namespace === null || element.namespace === RSL_NAMESPACE);
+}
+
+/** RSL children of `element` named `name`. */
+export function rslChildren(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => isRsl(child, name));
+}
+
+function textOf(element: XmlElement | undefined): string | null {
+  const text = element?.text.trim();
+  return text ? text : null;
+}
+
+function tokensOf(element: XmlElement): string[] {
+  return element.text.trim().split(/\s+/).filter(Boolean);
+}
+
+function readPermissions(license: XmlElement, name: "permits" | "prohibits"): RslPermissions {
+  const permissions: RslPermissions = { usage: [], user: [], geo: [] };
+  for (const element of rslChildren(license, name)) {
+    const type = element.attributes.type ?? "usage";
+    if (type === "usage" || type === "user" || type === "geo") {
+      permissions[type].push(...tokensOf(element));
+    }
+  }
+  return permissions;
+}
+
+function readPayment(payment: XmlElement): RslPayment {
+  return {
+    type: payment.attributes.type ?? null,
+    standard: rslChildren(payment, "standard").map(textOf).filter((url): url is string => url !== null),
+    custom: rslChildren(payment, "custom").map(textOf).filter((url): url is string => url !== null),
+    amounts: rslChildren(payment, "amount").map((amount) => ({
+      value: amount.text.trim(),
+      currency: amount.attributes.currency ?? null,
+    })),
+  };
+}
+
+/** Read the typed model of a `<license>` element. */
+export function readRslLicense(license: XmlElement): RslLicense {
+  return {
+    permits: readPermissions(license, "permits"),
+    prohibits: readPermissions(license, "prohibits"),
+    payments: rslChildren(license, "payment").map(readPayment),
+    legal: rslChildren(license, "legal").map((legal) => ({
+      type: legal.attributes.type ?? null,
+      values: tokensOf(legal),
+    })),
+  };
+}
+
+/** Read the typed model of a `<content>` element, or null when it has no `url`. */
+export function readRslContent(content: XmlElement): RslContent | null {
+  const url = content.attributes.url;
+  if (url === undefined) return null;
+  const copyright = rslChildren(content, "copyright")[0];
+  return {
+    url,
+    server: content.attributes.server ?? null,
+    encrypted: content.attributes.encrypted === "true",
+    lastmod: content.attributes.lastmod ?? null,
+    licenses: rslChildren(content, "license").map(readRslLicense),
+    schema: textOf(rslChildren(content, "schema")[0]),
+    copyright: copyright
+      ? {
+          type: copyright.attributes.type ?? null,
+          holder: textOf(copyright),
+          contactEmail: copyright.attributes.contactEmail ?? null,
+          contactUrl: copyright.attributes.contactUrl ?? null,
+        }
+      : null,
+    terms: textOf(rslChildren(content, "terms")[0]),
+  };
+}
+
+/** `<content>` elements of a parsed document: the children of `<rsl>`, or a bare `<content>` root. */
+export function rslContentElements(root: XmlElement): XmlElement[] {
+  if (isRsl(root, "content")) return [root];
+  return isRsl(root, "rsl") ? rslChildren(root, "content") : [];
+}
+
+/**
+ * Parse a license.xml into the RSL 1.0 model. Elements outside the RSL namespace are ignored,
+ * as are `<content>` elements without a `url`.
+ * @throws XmlParseError when the document is not well-formed XML
+ */
+export function parseRslDocument(xml: string): RslDocument {
+  const contents = rslContentElements(parseXml(xml))
+    .map(readRslContent)
+    .filter((content): content is RslContent => content !== null);
+  return { contents };
+}
+
+/** Whether `license` permits `usage` ("all" covers every usage) without prohibiting it. */
+export function rslLicensePermitsUsage(license: RslLicense, usage: string): boolean {
+  const covers = (values: string[]) => values.includes("all") || values.includes(usage);
+  return !covers(license.prohibits.usage) && covers(license.permits.usage);
+}
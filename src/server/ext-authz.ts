@@ -0,0 +1,166 @@
+import type { Server } from "node:http";
+import {
+  AdapterFailureOptions,
+  HandlerAction,
+  HandlerResult,
+  NodeIncomingMessage,
+  NodeServerResponse,
+  SupertabConnectConfig,
+} from "../types";
+import { HandleRequestContext } from "../cdn";
+import { firstForwarded, headerValue, lastForwarded, nodeClientIp } from "../node";
+import { SupertabConnect } from "../index";
+import { failureResult, FailOpenPolicy, resolveFailOpen } from "../fail-mode";
+import { listen } from "./listen";
+
+// Interface for what the ext_authz service needs - avoids circular dependency
+interface RequestHandler {
+  handleRequest(request: Request, context?: HandleRequestContext): Promise<HandlerResult>;
+}
+
+/**
+ * The parts of Envoy's `envoy.service.auth.v3.CheckRequest` (JSON form) the SDK reads. The HTTP
+ * service mode builds one from the authorization request, so both modes share the mapping.
+ */
+export interface EnvoyCheckRequest {
+  attributes: {
+    source?: { address?: { socketAddress?: { address?: string; portValue?: number } } };
+    request: {
+      http: {
+        id?: string;
+        method?: string;
+        // Path including the query string, as sent by the client.
+        path?: string;
+        host?: string;
+        scheme?: string;
+        headers?: Record<string, string>;
+      };
+    };
+  };
+}
+
+/** Envoy's OkHttpResponse / DeniedHttpResponse, flattened. */
+export type EnvoyCheckResult =
+  | { allowed: true; headers: Record<string, string> }
+  | { allowed: false; status: number; body: string; headers: Record<string, string> };
+
+export interface ExtAuthzServerOptions extends SupertabConnectConfig, AdapterFailureOptions {
+  /** Default: 9191. */
+  port?: number;
+  /** Default: "127.0.0.1"; use "0.0.0.0" when running as a sidecar or service. */
+  host?: string;
+  /** The `http_service.path_prefix` configured in Envoy, stripped before the path is matched. */
+  pathPrefix?: string;
+}
+
+/** Map a check request onto the `Request` and context `handleRequest` expects. */
+export function envoyCheckToRequest(check: EnvoyCheckRequest): { request: Request; context: HandleRequestContext } {
+  const http = check.attributes.request.http;
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(http.headers ?? {})) {
+    // HTTP/2 pseudo-headers (":authority", ":path") travel alongside regular ones.
+    if (!name.startsWith(":")) headers.set(name, value);
+  }
+  const host = http.host ?? http.headers?.[":authority"] ?? headers.get("host") ?? "localhost";
+  const scheme = http.scheme || headers.get("x-forwarded-proto") || "https";
+  const request = new Request(`${scheme}://${host}${http.path ?? "/"}`, {
+    method: http.method ?? "GET",
+    headers,
+  });
+
+  return {
+    request,
+    context: {
+      clientIp:
+        check.attributes.source?.address?.socketAddress?.address ??
+        headers.get("x-envoy-external-address") ??
+        (headers.get("x-forwarded-for")?.split(",").pop()?.trim() || undefined),
+      requestId: http.id ?? headers.get("x-request-id") ?? undefined,
+    },
+  };
+}
+
+/**
+ * Decide a check request. ALLOW becomes an OK response whose headers Envoy applies as mutations
+ * (via `allowed_upstream_headers` / `allowed_client_headers_on_success`); BLOCK/RESPOND become a
+ * denied response carrying the status, body and headers from `buildBlockResult`. When the SDK
+ * throws, `failOpen` allows without headers; otherwise the request is denied with `503`.
+ */
+export async function checkEnvoyRequest(
+  handler: RequestHandler,
+  check: EnvoyCheckRequest,
+  failOpen: FailOpenPolicy = true
+): Promise<EnvoyCheckResult> {
+  let result: HandlerResult;
+  let request: Request | undefined;
+  try {
+    const converted = envoyCheckToRequest(check);
+    request = converted.request;
+    result = await handler.handleRequest(request, converted.context);
+  } catch (err) {
+    console.error("[SupertabConnect] ext_authz check failed:", err);
+    result = failureResult(failOpen, request?.url);
+  }
+  if (result.action === HandlerAction.ALLOW) {
+    return { allowed: true, headers: result.headers ?? {} };
+  }
+  return { allowed: false, status: result.status, body: result.body, headers: result.headers };
+}
+
+/**
+ * Build a check request from an ext_authz HTTP service call. Envoy forwards the client's method,
+ * path (after `path_prefix`) and allowed headers; the client address arrives in
+ * `x-envoy-external-address` / the rightmost `x-forwarded-for` entry when the listener is
+ * configured to set them.
+ */
+export function envoyHttpCheckRequest(req: NodeIncomingMessage, pathPrefix = ""): EnvoyCheckRequest {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) headers[name] = Array.isArray(value) ? value.join(", ") : value;
+  }
+  let path = req.url ?? "/";
+  if (pathPrefix && path.startsWith(pathPrefix)) {
+    path = path.slice(pathPrefix.length) || "/";
+  }
+  const address =
+    headerValue(req, "x-envoy-external-address") ?? lastForwarded(req, "x-forwarded-for") ?? nodeClientIp(req, false);
+
+  return {
+    attributes: {
+      source: address ? { address: { socketAddress: { address } } } : undefined,
+      request: {
+        http: {
+          id: headerValue(req, "x-request-id"),
+          method: req.method,
+          path,
+          host: headerValue(req, "host"),
+          scheme: firstForwarded(req, "x-forwarded-proto"),
+          headers,
+        },
+      },
+    },
+  };
+}
+
+/** Request listener for Envoy's HTTP ext_authz service: 200 allows, any other status denies. */
+export function createExtAuthzHandler(
+  handler: RequestHandler,
+  pathPrefix?: string,
+  failOpen: FailOpenPolicy = true
+): (req: NodeIncomingMessage, res: NodeServerResponse) => Promise<void> {
+  return async (req, res) => {
+    const result = await checkEnvoyRequest(handler, envoyHttpCheckRequest(req, pathPrefix), failOpen);
+    res.statusCode = result.allowed ? 200 : result.status;
+    for (const [name, value] of Object.entries(result.headers)) {
+      res.setHeader(name, value);
+    }
+    res.end(result.allowed ? undefined : result.body);
+  };
+}
+
+/** Start an Envoy ext_authz HTTP service. Resolves once it is listening. */
+export async function startExtAuthzServer(options: ExtAuthzServerOptions): Promise<Server> {
+  const { port = 9191, host = "127.0.0.1", pathPrefix, failOpen, ...config } = options;
+  const listener = createExtAuthzHandler(new SupertabConnect(config), pathPrefix, resolveFailOpen(failOpen, config));
+  return listen(listener, port, host);
+}
@@ -0,0 +1,98 @@
+import type { Server } from "node:http";
+import {
+  AdapterFailureOptions,
+  HandlerAction,
+  HandlerResult,
+  NodeIncomingMessage,
+  NodeServerResponse,
+  SupertabConnectConfig,
+} from "../types";
+import { HandleRequestContext } from "../cdn";
+import { firstForwarded, headerValue, lastForwarded, nodeClientIp, toWebRequest, writeNodeResponse } from "../node";
+import { SupertabConnect } from "../index";
+import { failureResult, FailOpenPolicy, resolveFailOpen } from "../fail-mode";
+import { listen } from "./listen";
+
+// Interface for what the forward-auth service needs - avoids circular dependency
+interface RequestHandler {
+  handleRequest(request: Request, context?: HandleRequestContext): Promise<HandlerResult>;
+}
+
+export interface ForwardAuthServerOptions extends SupertabConnectConfig, AdapterFailureOptions {
+  /** Default: 8080. */
+  port?: number;
+  /** Default: "127.0.0.1" — the proxy normally runs on the same host or network. */
+  host?: string;
+}
+
+/**
+ * Rebuild the client's original request from the headers a reverse proxy sends on its auth
+ * subrequest: nginx `auth_request` (`X-Original-URI`, `X-Original-Method`), Traefik `ForwardAuth`
+ * and Caddy `forward_auth` (`X-Forwarded-Uri`, `X-Forwarded-Method`), plus `X-Forwarded-Proto` /
+ * `X-Forwarded-Host` for the origin. The proxy is trusted by definition of the contract.
+ */
+export function forwardAuthRequest(req: NodeIncomingMessage): Request {
+  const uri = headerValue(req, "x-original-uri") ?? headerValue(req, "x-forwarded-uri") ?? req.url;
+  const method = headerValue(req, "x-original-method") ?? headerValue(req, "x-forwarded-method") ?? req.method;
+  const host = firstForwarded(req, "x-forwarded-host");
+  // The subrequest's own Host names this service, not the site the client asked for.
+  const headers = host ? { ...req.headers, host } : req.headers;
+  return toWebRequest({ ...req, method, headers }, true, uri);
+}
+
+/**
+ * Client IP from `X-Real-IP` (nginx convention), else the rightmost `X-Forwarded-For` entry — the
+ * one the proxy appended. Earlier entries come from the client.
+ */
+export function forwardAuthClientIp(req: NodeIncomingMessage): string | undefined {
+  return headerValue(req, "x-real-ip") ?? lastForwarded(req, "x-forwarded-for") ?? nodeClientIp(req, false);
+}
+
+/**
+ * Request listener implementing the forward-auth contract: `200` (with any signal headers, for
+ * the proxy to copy) when the request may proceed, else the BLOCK/RESPOND status, body and
+ * headers — including `WWW-Authenticate` — for the proxy to return to the client.
+ *
+ * Proxies treat any `2xx` from an auth subrequest as "allow" and discard its body, so a `200`
+ * RESPOND (the status endpoint) never reaches the client that way. Route that path to this
+ * service as a plain proxied request instead; without `X-Original-URI` / `X-Forwarded-Uri` the
+ * request itself is checked and its response returned as is.
+ *
+ * When the SDK throws, `failOpen` answers `200` without headers; otherwise the proxy gets a `503`.
+ */
+export function createForwardAuthHandler(
+  handler: RequestHandler,
+  failOpen: FailOpenPolicy = true
+): (req: NodeIncomingMessage, res: NodeServerResponse) => Promise<void> {
+  return async (req, res) => {
+    let result: HandlerResult;
+    let request: Request | undefined;
+    try {
+      request = forwardAuthRequest(req);
+      result = await handler.handleRequest(request, {
+        clientIp: forwardAuthClientIp(req),
+        requestId: headerValue(req, "x-request-id"),
+      });
+    } catch (err) {
+      console.error("[SupertabConnect] forward-auth check failed:", err);
+      result = failureResult(failOpen, request?.url);
+    }
+
+    if (result.action !== HandlerAction.ALLOW) {
+      writeNodeResponse(res, result);
+      return;
+    }
+    res.statusCode = 200;
+    for (const [name, value] of Object.entries(result.headers ?? {})) {
+      res.setHeader(name, value);
+    }
+    res.end();
+  };
+}
+
+/** Start a forward-auth verification server. Resolves once it is listening. */
+export async function startForwardAuthServer(options: ForwardAuthServerOptions): Promise<Server> {
+  const { port = 8080, host = "127.0.0.1", failOpen, ...config } = options;
+  const listener = createForwardAuthHandler(new SupertabConnect(config), resolveFailOpen(failOpen, config));
+  return listen(listener, port, host);
+}
@@ -0,0 +1,21 @@
+// Node-only entry point (`@getsupertab/supertab-connect-sdk/server`): standalone services for
+// origins without a programmable CDN. Kept out of the main entry so edge bundles never see node:*.
+export {
+  createForwardAuthHandler,
+  forwardAuthClientIp,
+  forwardAuthRequest,
+  startForwardAuthServer,
+} from "./forward-auth";
+export type { ForwardAuthServerOptions } from "./forward-auth";
+export {
+  checkEnvoyRequest,
+  createExtAuthzHandler,
+  envoyCheckToRequest,
+  envoyHttpCheckRequest,
+  startExtAuthzServer,
+} from "./ext-authz";
+export type { EnvoyCheckRequest, EnvoyCheckResult, ExtAuthzServerOptions } from "./ext-authz";
+export { createProxyHandler, forwardToOrigin, startProxyServer } from "./proxy";
+export { loadProxyConfig } from "./proxy-config";
+export type { ProxyServerOptions } from "./proxy";
+export type { ProxyConfigFile } from "./proxy-config";
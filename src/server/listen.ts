@@ -0,0 +1,18 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+
+/** Serve `listener` on `host:port`. Resolves once listening; rejects on bind errors (EADDRINUSE, ...). */
+export async function listen(
+  listener: (req: IncomingMessage, res: ServerResponse) => Promise<void>,
+  port: number,
+  host: string
+): Promise<Server> {
+  const server = createServer((req, res) => void listener(req, res));
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  return server;
+}
@@ -0,0 +1,100 @@
+import { EnforcementMode, EnforcementRule } from "../types";
+import { ProxyServerOptions } from "./proxy";
+
+/** JSON config file accepted by `supertab-connect-proxy --config <file>`. */
+export interface ProxyConfigFile {
+  apiKey?: string;
+  origin?: string;
+  enforcement?: `${EnforcementMode}`;
+  enforcementRules?: Array<Omit<EnforcementRule, "enforcement"> & { enforcement: `${EnforcementMode}` }>;
+  analyticsEnabled?: boolean;
+  port?: number;
+  host?: string;
+  trustProxy?: boolean;
+  failOpen?: boolean;
+  debug?: boolean;
+}
+
+const ENFORCEMENT_MODES = new Set<string>(Object.values(EnforcementMode));
+
+function parseEnforcement(value: string, source: string): EnforcementMode {
+  const mode = value.trim().toLowerCase();
+  if (!ENFORCEMENT_MODES.has(mode)) {
+    throw new Error(`${source} must be one of ${[...ENFORCEMENT_MODES].join(", ")}; got "${value}"`);
+  }
+  return mode as EnforcementMode;
+}
+
+function parseBoolean(value: string | undefined): boolean | undefined {
+  if (value === undefined || value === "") return undefined;
+  return ["1", "true", "yes", "on"].includes(value.trim().toLowerCase());
+}
+
+function parsePort(value: string | number | undefined, source: string): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`${source} must be a port number; got "${value}"`);
+  }
+  return port;
+}
+
+/**
+ * Resolve proxy options from an optional JSON config file and the environment; environment
+ * variables win over the file:
+ *
+ * - `MERCHANT_API_KEY`, `SUPERTAB_ORIGIN`, `SUPERTAB_ENFORCEMENT`, `SUPERTAB_ANALYTICS`,
+ *   `SUPERTAB_PORT` (or `PORT`), `SUPERTAB_HOST`, `SUPERTAB_TRUST_PROXY`, `SUPERTAB_FAIL_OPEN`,
+ *   `SUPERTAB_DEBUG`.
+ *
+ * Policy rules (`enforcementRules`) are read from the file only.
+ * @throws If the API key or origin is missing, or a value is invalid
+ */
+export function loadProxyConfig(
+  env: Record<string, string | undefined>,
+  fileContents?: string
+): ProxyServerOptions {
+  let file: ProxyConfigFile = {};
+  if (fileContents !== undefined) {
+    try {
+      file = JSON.parse(fileContents) as ProxyConfigFile;
+    } catch (err) {
+      throw new Error(`Config file is not valid JSON: ${(err as Error).message}`);
+    }
+  }
+
+  const apiKey = env.MERCHANT_API_KEY || file.apiKey;
+  const origin = env.SUPERTAB_ORIGIN || file.origin;
+  if (!apiKey) {
+    throw new Error("Missing API key: set MERCHANT_API_KEY or `apiKey` in the config file");
+  }
+  if (!origin) {
+    throw new Error("Missing origin: set SUPERTAB_ORIGIN or `origin` in the config file");
+  }
+  try {
+    new URL(origin);
+  } catch {
+    throw new Error(`Origin must be an absolute URL; got "${origin}"`);
+  }
+
+  const enforcement = env.SUPERTAB_ENFORCEMENT || file.enforcement;
+  return {
+    apiKey,
+    origin,
+    enforcement: enforcement
+      ? parseEnforcement(enforcement, env.SUPERTAB_ENFORCEMENT ? "SUPERTAB_ENFORCEMENT" : "enforcement")
+      : undefined,
+    enforcementRules: file.enforcementRules?.map((rule, index) => ({
+      ...rule,
+      enforcement: parseEnforcement(rule.enforcement, `enforcementRules[${index}].enforcement`),
+    })),
+    analyticsEnabled: parseBoolean(env.SUPERTAB_ANALYTICS) ?? file.analyticsEnabled,
+    port:
+      parsePort(env.SUPERTAB_PORT || env.PORT, env.SUPERTAB_PORT ? "SUPERTAB_PORT" : "PORT") ??
+      parsePort(file.port, "port"),
+    host: env.SUPERTAB_HOST || file.host,
+    trustProxy: parseBoolean(env.SUPERTAB_TRUST_PROXY) ?? file.trustProxy,
+    failOpen: parseBoolean(env.SUPERTAB_FAIL_OPEN) ?? file.failOpen,
+    debug: parseBoolean(env.SUPERTAB_DEBUG) ?? file.debug,
+  };
+}
@@ -0,0 +1,145 @@
+import { request as httpRequest, IncomingMessage, OutgoingHttpHeaders, Server, ServerResponse } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { AdapterFailureOptions, HandlerAction, HandlerResult, SupertabConnectConfig } from "../types";
+import { HandleRequestContext } from "../cdn";
+import { handleNodeRequest, writeNodeResponse } from "../node";
+import { SupertabConnect } from "../index";
+import { FailOpenPolicy, resolveFailOpen } from "../fail-mode";
+import { listen } from "./listen";
+
+// Interface for what the proxy needs - avoids circular dependency
+interface RequestHandler {
+  handleRequest(request: Request, context?: HandleRequestContext): Promise<HandlerResult>;
+}
+
+export interface ProxyServerOptions extends SupertabConnectConfig, AdapterFailureOptions {
+  /** Origin to forward allowed traffic to, e.g. `http://127.0.0.1:3000`. */
+  origin: string;
+  /** Default: 8080. */
+  port?: number;
+  /** Default: "0.0.0.0" — the proxy is the public entry point. */
+  host?: string;
+  /**
+   * Trust `X-Forwarded-*` from a load balancer in front of the proxy: the client IP is its rightmost
+   * `X-Forwarded-For` entry, and its `X-Forwarded-Host` / `-Proto` are passed to the origin.
+   * Without it, those headers are overwritten. Default: false.
+   */
+  trustProxy?: boolean;
+}
+
+// Connection-scoped headers (RFC 9110 §7.6.1) that must not be forwarded by a proxy.
+const HOP_BY_HOP_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+]);
+
+function forwardableHeaders(headers: IncomingMessage["headers"]): OutgoingHttpHeaders {
+  const forwarded: OutgoingHttpHeaders = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined && !HOP_BY_HOP_HEADERS.has(name) && !name.startsWith(":")) {
+      forwarded[name] = value;
+    }
+  }
+  return forwarded;
+}
+
+/**
+ * Stream `req` to the origin and the origin's response back to `res`, with `signalHeaders` set on
+ * the response — the Node counterpart of `handleCloudflareRequest` with `originUrl`: path, query,
+ * method, headers and body are preserved, only the destination changes.
+ */
+export function forwardToOrigin(
+  req: IncomingMessage,
+  res: ServerResponse,
+  origin: URL,
+  signalHeaders: Record<string, string> = {},
+  trustProxy = false
+): void {
+  const headers = forwardableHeaders(req.headers);
+  // Append the peer this proxy saw, like any proxy in the chain. Client-sent values are dropped
+  // unless a trusted load balancer in front of us wrote them.
+  const priorForwardedFor = trustProxy ? req.headers["x-forwarded-for"] : undefined;
+  headers["x-forwarded-for"] = [priorForwardedFor, req.socket.remoteAddress].filter(Boolean).join(", ");
+  if (!trustProxy || !headers["x-forwarded-host"]) {
+    if (req.headers.host) headers["x-forwarded-host"] = req.headers.host;
+    else delete headers["x-forwarded-host"];
+  }
+  if (!trustProxy || !headers["x-forwarded-proto"]) {
+    headers["x-forwarded-proto"] = (req.socket as { encrypted?: boolean }).encrypted ? "https" : "http";
+  }
+  headers.host = origin.host;
+
+  const send = origin.protocol === "https:" ? httpsRequest : httpRequest;
+  const upstream = send(
+    {
+      protocol: origin.protocol,
+      hostname: origin.hostname,
+      port: origin.port || undefined,
+      method: req.method,
+      path: `${origin.pathname.replace(/\/$/, "")}${req.url ?? "/"}`,
+      headers,
+    },
+    (originResponse) => {
+      const responseHeaders = forwardableHeaders(originResponse.headers);
+      for (const [name, value] of Object.entries(signalHeaders)) {
+        responseHeaders[name.toLowerCase()] = value;
+      }
+      res.writeHead(originResponse.statusCode ?? 502, originResponse.statusMessage, responseHeaders);
+      // The status line is already out, so a broken origin stream can only cut the response short.
+      originResponse.on("error", (err) => {
+        console.error("[SupertabConnect] origin response failed:", err);
+        res.destroy(err);
+      });
+      originResponse.pipe(res);
+    }
+  );
+  upstream.on("error", (err) => {
+    // Destroyed below because the client went away; there is no one left to answer.
+    if (res.destroyed) return;
+    console.error("[SupertabConnect] origin request failed:", err);
+    if (!res.headersSent) {
+      res.writeHead(502, { "Content-Type": "text/plain" });
+    }
+    res.end("Bad Gateway");
+  });
+  res.on("close", () => {
+    if (!res.writableFinished) upstream.destroy();
+  });
+  req.pipe(upstream);
+}
+
+/**
+ * Request listener that enforces CAP and proxies allowed requests to `origin`. When the SDK
+ * throws, `failOpen` forwards the request without signal headers; otherwise it is answered `503`.
+ */
+export function createProxyHandler(
+  handler: RequestHandler,
+  origin: string,
+  trustProxy = false,
+  failOpen: FailOpenPolicy = true
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  const originUrl = new URL(origin);
+  return async (req, res) => {
+    const result = await handleNodeRequest(handler, req, trustProxy, failOpen);
+    if (result.action !== HandlerAction.ALLOW) {
+      writeNodeResponse(res, result);
+      return;
+    }
+    forwardToOrigin(req, res, originUrl, result.headers, trustProxy);
+  };
+}
+
+/** Start the reverse-proxy gateway. Resolves once it is listening. */
+export async function startProxyServer(options: ProxyServerOptions): Promise<Server> {
+  const { origin, port = 8080, host = "0.0.0.0", trustProxy = false, failOpen, ...config } = options;
+  const instance = new SupertabConnect(config);
+  const listener = createProxyHandler(instance, origin, trustProxy, resolveFailOpen(failOpen, config));
+  return listen(listener, port, host);
+}
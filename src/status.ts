@@ -1,18 +1,19 @@
 import type { JWTHeaderParameters } from "jose";
-import { fetchPlatformJwks, clearJwksCache, JwksKeyNotFoundError } from "./jwks";
+import { fetchPlatformJwks, JwksKeyNotFoundError, StaticJwksOptions } from "./jwks";
 import { loadJwtVerify } from "./jose";
 
 export interface StatusChallengeOpts {
   expectedAudience: string;
   baseUrl: string;
   debug?: boolean;
+  staticJwks?: StaticJwksOptions;
 }
 
 export async function verifyStatusChallenge(token: string, opts: StatusChallengeOpts): Promise<boolean> {
   const debug = opts.debug ?? false;
 
-  const verify = async (): Promise<boolean> => {
-    const jwks = await fetchPlatformJwks(opts.baseUrl, debug);
+  const verify = async (refreshJwks: boolean): Promise<boolean> => {
+    const jwks = await fetchPlatformJwks(opts.baseUrl, debug, opts.staticJwks, refreshJwks);
     const { jwtVerify } = await loadJwtVerify();
 
     const getKey = async (jwtHeader: JWTHeaderParameters) => {
@@ -35,15 +36,14 @@ export async function verifyStatusChallenge(token: string, opts: StatusChallenge
   };
 
   try {
-    return await verify();
+    return await verify(false);
   } catch (error) {
     if (error instanceof JwksKeyNotFoundError) {
       if (debug) {
-        console.debug("Key not found in cached JWKS, clearing cache and retrying...");
+        console.debug("Key not found in cached JWKS, refreshing and retrying...");
       }
-      clearJwksCache();
       try {
-        return await verify();
+        return await verify(true);
       } catch (retryError) {
         if (debug) {
           console.error("Status challenge verification failed after JWKS refresh:", retryError);
@@ -1,5 +1,14 @@
 import type { JWTPayload } from "jose";
 import type { AnalyticsTransport } from "./analytics/types";
+import type { WebBotAuthConfig, WebBotAuthResult } from "./web-bot-auth";
+import type { StaticJwksOptions } from "./jwks";
+import type { RevocationOptions } from "./revocation";
+import type { UsageRequirementResolver, UsageRule } from "./usage";
+import type { AudienceHostAliases } from "./audience";
+import type { PaymentRequiredOptions } from "./offer";
+import type { RateLimitOptions } from "./rate-limit";
+import type { VerifiedCrawlerOptions, VerifiedCrawlerResult } from "./crawlers";
+import type { RobotsTxtOptions } from "./robots";
 
 export enum EnforcementMode {
   DISABLED = "disabled",
@@ -11,13 +20,100 @@ export interface ExecutionContext {
   waitUntil(promise: Promise<void>): void;
 }
 
-export type BotDetector = (request: Request, ctx?: ExecutionContext) => boolean;
+/**
+ * Verified request signals resolved by the SDK before bot detection runs.
+ * Absent fields mean the corresponding check is not enabled.
+ */
+export interface BotSignals {
+  /** Web Bot Auth (HTTP Message Signatures) outcome, when `verifyWebBotAuth` is enabled. */
+  webBotAuth?: WebBotAuthResult;
+  /** Crawler claimed by the User-Agent and whether its IP verified, when `verifiedCrawlers` is set. */
+  crawler?: VerifiedCrawlerResult;
+}
+
+export type BotDetector = (request: Request, ctx?: ExecutionContext, signals?: BotSignals) => boolean;
+
+/**
+ * A per-path enforcement rule. `pattern` follows license.xml `<content url>` semantics: a path
+ * (`/news/*`, `/about$`) or an absolute URL pattern restricted to its host. The most specific
+ * matching rule wins; requests matching no rule use the instance-wide `enforcement`.
+ */
+export interface EnforcementRule {
+  pattern: string;
+  enforcement: EnforcementMode;
+  /** Label recorded in analytics when this rule matches. Defaults to `pattern`. */
+  name?: string;
+  /**
+   * Only match requests with one of these verified identities: a Web Bot Auth agent origin
+   * (e.g. `https://chatgpt.com`, needs `verifyWebBotAuth`) or a verified crawler id (e.g.
+   * `googlebot`, needs `verifiedCrawlers`). Unverified claims never match such a rule.
+   */
+  verifiedAgents?: string[];
+  /**
+   * Overrides for the response served when this rule blocks a request, for a missing or an
+   * invalid token. Merged over the default block result, so unset fields keep their defaults.
+   * Rate-limit (429) responses are not affected.
+   */
+  blockResponse?: {
+    status?: number;
+    body?: string;
+    headers?: Record<string, string>;
+  };
+}
 
 export interface SupertabConnectConfig {
   apiKey: string;
   enforcement?: EnforcementMode;
+  /** Per-path enforcement rules evaluated on every request; `enforcement` is the fallback. */
+  enforcementRules?: EnforcementRule[];
   botDetector?: BotDetector;
   debug?: boolean;
+  /**
+   * Locally supplied platform JWKS (or a provider function) for license token and status
+   * challenge verification — either instead of the network (`mode: "override"`) or as a fallback
+   * when the JWKS fetch fails (`mode: "fallback"`, default).
+   */
+  staticJwks?: StaticJwksOptions;
+  /**
+   * Check verified license tokens against a revocation list at `listUrl` (or a custom checker),
+   * rejecting revoked licenses with LicenseTokenInvalidReason.REVOKED. Disabled when omitted.
+   */
+  revocation?: RevocationOptions;
+  /**
+   * Per-path RSL usage requirements. A valid token whose `usage` (or `scope`) claim does not grant
+   * the usages required for the request URL is rejected with `insufficient_scope`.
+   */
+  usageRules?: UsageRule[];
+  /** Per-request usage requirement; takes precedence over `usageRules` when it returns a value. */
+  requiredUsage?: UsageRequirementResolver;
+  /**
+   * Hosts treated as the same license audience, mapped to their canonical host
+   * (e.g. `{ "www.example.com": "example.com" }`).
+   */
+  audienceHostAliases?: AudienceHostAliases;
+  /**
+   * Answer bots without a token on token-gated paths with `402 Payment Required` and a JSON license
+   * offer (terms, license server, price) read from license.xml, instead of a 401. ENFORCE mode only.
+   */
+  paymentRequired?: PaymentRequiredOptions;
+  /**
+   * Per-path crawl-rate limits and quotas, counted per `license_id` for licensed requests and per
+   * bot identity for unlicensed bots, in every enforcement mode. Over-limit requests get 429 with `Retry-After`.
+   */
+  rateLimits?: RateLimitOptions;
+  /**
+   * Recognise search and AI crawlers by verifying their User-Agent claim against the operators'
+   * published IP ranges and, with a `dnsResolver`, reverse/forward DNS. The result is passed to the
+   * bot detector, matched by `verifiedAgents` rules and recorded on analytics events; `exempt`
+   * crawlers bypass enforcement.
+   */
+  verifiedCrawlers?: VerifiedCrawlerOptions;
+  /**
+   * Verify Web Bot Auth (RFC 9421 HTTP Message Signatures) on incoming requests. The outcome is
+   * passed to the bot detector, matched by `verifiedAgents` rules and recorded on analytics events. Pass `{ trustedAgents }` to choose
+   * whose key directories are fetched; `true` trusts DEFAULT_SIGNATURE_AGENTS. Default: false.
+   */
+  verifyWebBotAuth?: boolean | WebBotAuthConfig;
   /** Enables analytics emission to the Supertab Connect relay. Default: false. */
   analyticsEnabled?: boolean;
   /**
@@ -65,6 +161,8 @@ export enum LicenseTokenInvalidReason {
   SIGNATURE_VERIFICATION_FAILED = "license_signature_verification_failed",
   EXPIRED = "license_token_expired",
   INVALID_AUDIENCE = "invalid_license_audience",
+  REVOKED = "license_revoked",
+  INSUFFICIENT_SCOPE = "license_insufficient_scope",
   SERVER_ERROR = "server_error",
 }
 
@@ -86,15 +184,21 @@ export enum HandlerAction {
   RESPOND = "respond",
 }
 
+// `licensed` is set on ALLOW only when the request's license token was verified.
 export type HandlerResult =
-  | { action: HandlerAction.ALLOW; headers?: Record<string, string> }
+  | { action: HandlerAction.ALLOW; headers?: Record<string, string>; licensed?: boolean }
   | { action: HandlerAction.BLOCK; status: number; body: string; headers: Record<string, string> }
   | { action: HandlerAction.RESPOND; status: number; body: string; headers: Record<string, string> };
 
 export enum CDNStatusDescription {
+  OK = "OK",
+  NotModified = "Not Modified",
   Unauthorized = "Unauthorized",
   PaymentRequired = "Payment Required",
   Forbidden = "Forbidden",
+  NotFound = "Not Found",
+  TooManyRequests = "Too Many Requests",
+  BadGateway = "Bad Gateway",
   ServiceUnavailable = "Service Unavailable",
   Error = "Error",
 }
@@ -129,6 +233,11 @@ export interface CloudFrontRequestEvent<TRequest = Record<string, any>> {
         querystring: string;
         headers: CloudFrontHeaders;
         clientIp?: string;
+        // Present on origin-request events.
+        origin?: {
+          custom?: { domainName: string; path?: string; protocol?: string; port?: number; customHeaders?: CloudFrontHeaders };
+          s3?: { domainName: string; path?: string; customHeaders?: CloudFrontHeaders };
+        };
       };
     };
   }>;
@@ -138,10 +247,49 @@ export interface CloudFrontRequestEvent<TRequest = Record<string, any>> {
 // Using generic to preserve the original request type for pass-through
 export type CloudFrontRequestResult<TRequest = Record<string, any>> = TRequest | CloudFrontResultResponse;
 
+// CloudFrontResponseEvent uses a generic response type to accept aws-lambda's CloudFrontResponse
+export interface CloudFrontResponseEvent<TResponse = Record<string, any>> {
+  Records: Array<{
+    cf: {
+      config?: CloudFrontRequestEvent["Records"][number]["cf"]["config"];
+      // The request as sent to the origin, including headers added by the origin-request trigger.
+      request: {
+        uri: string;
+        method: string;
+        querystring: string;
+        headers: CloudFrontHeaders;
+        clientIp?: string;
+        origin?: CloudFrontRequestEvent["Records"][number]["cf"]["request"]["origin"];
+      };
+      // Lambda@Edge does not expose the origin's body here; setting `body` replaces it.
+      response: TResponse & {
+        status: string;
+        statusDescription?: string;
+        headers: CloudFrontHeaders;
+        body?: string;
+      };
+    };
+  }>;
+}
+
 export interface CloudfrontHandlerOptions {
   apiKey: string;
   botDetector?: BotDetector;
   enforcement?: EnforcementMode;
+  enforcementRules?: EnforcementRule[];
+  staticJwks?: StaticJwksOptions;
+  revocation?: RevocationOptions;
+  usageRules?: UsageRule[];
+  audienceHostAliases?: AudienceHostAliases;
+  paymentRequired?: PaymentRequiredOptions;
+  rateLimits?: RateLimitOptions;
+  verifiedCrawlers?: VerifiedCrawlerOptions;
+  /** Serve /robots.txt with a License directive (and optional Disallow group) added. Off when omitted. */
+  robotsTxt?: RobotsTxtOptions;
+  /** Serve the Supertab-hosted license.xml at /license.xml (default: false). Requires `merchantSystemUrn`. */
+  enableRSL?: boolean;
+  /** Merchant system URN the license.xml is published under. */
+  merchantSystemUrn?: string;
 }
 
 export type RSLVerificationResult = {
@@ -179,7 +327,18 @@ export interface FastlyFetchEvent {
 interface FastlyHandlerBaseOptions {
   botDetector?: BotDetector;
   enforcement?: EnforcementMode;
+  enforcementRules?: EnforcementRule[];
   analyticsEnabled?: boolean;
+  verifyWebBotAuth?: boolean | WebBotAuthConfig;
+  staticJwks?: StaticJwksOptions;
+  revocation?: RevocationOptions;
+  usageRules?: UsageRule[];
+  audienceHostAliases?: AudienceHostAliases;
+  paymentRequired?: PaymentRequiredOptions;
+  rateLimits?: RateLimitOptions;
+  verifiedCrawlers?: VerifiedCrawlerOptions;
+  /** Serve /robots.txt with a License directive (and optional Disallow group) added. Off when omitted. */
+  robotsTxt?: RobotsTxtOptions;
   /**
    * Merchant system URN, stamped onto Fastly analytics rows (the relay derives it server-side;
    * the Fastly → S3 path must carry it). Required when `enableRSL`, and for native Fastly logging
@@ -205,3 +364,261 @@ interface FastlyHandlerWithoutRSL extends FastlyHandlerBaseOptions {
 }
 
 export type FastlyHandlerOptions = FastlyHandlerWithRSL | FastlyHandlerWithoutRSL;
+
+// Node origin types (Express, Fastify, Koa)
+// Structural subsets of node:http and the frameworks, so none of them is a dependency.
+export interface NodeIncomingMessage {
+  method?: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+  socket?: { remoteAddress?: string; encrypted?: boolean } | null;
+}
+
+export interface NodeServerResponse {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+}
+
+export interface ExpressRequestLike extends NodeIncomingMessage {
+  // Express rewrites `url` inside mounted routers; `originalUrl` keeps the full path.
+  originalUrl?: string;
+}
+
+export type ExpressMiddleware = (
+  req: ExpressRequestLike,
+  res: NodeServerResponse,
+  next: (err?: unknown) => void
+) => Promise<void>;
+
+export interface FastifyRequestLike {
+  raw: NodeIncomingMessage;
+}
+
+export interface FastifyReplyLike {
+  code(status: number): FastifyReplyLike;
+  header(name: string, value: string): FastifyReplyLike;
+  send(body?: string): FastifyReplyLike;
+}
+
+export type FastifyOnRequestHook = (
+  request: FastifyRequestLike,
+  reply: FastifyReplyLike
+) => Promise<FastifyReplyLike | void>;
+
+export interface KoaContextLike {
+  req: NodeIncomingMessage;
+  // Koa rewrites `req.url` inside mounted apps (koa-mount); `originalUrl` keeps the full path.
+  originalUrl?: string;
+  status: number;
+  body: unknown;
+  set(name: string, value: string): void;
+}
+
+export type KoaMiddleware = (ctx: KoaContextLike, next: () => Promise<unknown>) => Promise<void>;
+
+// Shared by the middlewares and servers that run handleRequest in front of an origin.
+export interface AdapterFailureOptions {
+  /**
+   * Let requests through (ALLOW without headers) when the SDK throws, instead of answering `503`.
+   * Default: false for requests whose path resolves to `ENFORCE` (see `enforcementRules`), true otherwise.
+   */
+  failOpen?: boolean;
+}
+
+export interface NodeMiddlewareOptions extends SupertabConnectConfig, AdapterFailureOptions {
+  /**
+   * Trust `X-Forwarded-For` / `X-Forwarded-Proto` / `X-Forwarded-Host` from a reverse proxy in
+   * front of the server. The client IP is the rightmost `X-Forwarded-For` entry, the one that proxy
+   * appended. Leave off when clients connect directly, since they can set these headers.
+   * Default: false.
+   */
+  trustProxy?: boolean;
+}
+
+// Next.js middleware types
+// Structural subsets of next/server, so Next.js is not a dependency.
+export interface NextRequestLike extends Request {
+  // Populated on Vercel up to Next.js 14; later versions expose these as x-real-ip / x-vercel-ip-* headers.
+  ip?: string;
+  geo?: { country?: string };
+}
+
+export interface NextResponseLike {
+  new (body?: BodyInit | null, init?: ResponseInit): Response;
+  next(init?: ResponseInit): Response;
+}
+
+export type NextMiddleware = (
+  request: NextRequestLike,
+  event: ExecutionContext
+) => Promise<Response | undefined>;
+
+export interface NextMiddlewareOptions extends SupertabConnectConfig, AdapterFailureOptions {
+  /** `NextResponse` from `next/server`. */
+  NextResponse: NextResponseLike;
+  /** Middleware to run after the SDK allows a request; the SDK's headers are merged into its response. */
+  middleware?: (request: NextRequestLike, event: ExecutionContext) => Response | undefined | Promise<Response | undefined>;
+  /** Let `/_next/*` and static file requests through without checks, as a fallback for a missing `matcher`. Default: true. */
+  skipStaticAssets?: boolean;
+  /**
+   * Read the client IP from `X-Real-IP` / the rightmost `X-Forwarded-For` entry when `request.ip` is
+   * missing (Next.js 15+). Enable on Vercel or behind a proxy that overwrites these headers; clients
+   * can set them when they reach the app directly. Default: false.
+   */
+  trustProxy?: boolean;
+}
+
+// Hono middleware types
+// Structural subset of hono's Context, so Hono is not a dependency.
+export interface HonoContextLike {
+  req: { raw: Request };
+  // Runtime bindings: Workers env, Bun's Server (`requestIP`), Deno's ServeHandlerInfo (`remoteAddr`).
+  env?: unknown;
+  // Hono's getter throws outside runtimes that provide one (Bun, Deno, Node).
+  readonly executionCtx: ExecutionContext;
+  res: Response;
+}
+
+export type HonoMiddleware = (c: HonoContextLike, next: () => Promise<void>) => Promise<Response | void>;
+
+export interface HonoMiddlewareOptions extends SupertabConnectConfig, AdapterFailureOptions {
+  /** The runtime's `getConnInfo` from `hono/bun`, `hono/deno`, `hono/cloudflare-workers`, etc. */
+  getConnInfo?: (c: HonoContextLike) => { remote: { address?: string } };
+}
+
+// AWS API Gateway / Lambda Function URL types
+// Uses permissive types to be compatible with aws-lambda package types
+export interface APIGatewayProxyEventLike {
+  httpMethod: string;
+  path: string;
+  headers?: Record<string, string | undefined> | null;
+  multiValueHeaders?: Record<string, string[] | undefined> | null;
+  queryStringParameters?: Record<string, string | undefined> | null;
+  multiValueQueryStringParameters?: Record<string, string[] | undefined> | null;
+  body?: string | null;
+  isBase64Encoded?: boolean;
+  requestContext?: {
+    requestId?: string;
+    domainName?: string;
+    // Includes the stage on execute-api hosts ("/prod/news/a"), unlike the top-level `path`.
+    path?: string;
+    identity?: { sourceIp?: string };
+  };
+}
+
+/** HTTP API (payload format 2.0) and Lambda Function URL events share this shape. */
+export interface APIGatewayProxyEventV2Like {
+  version: "2.0";
+  rawPath: string;
+  rawQueryString?: string;
+  headers?: Record<string, string | undefined>;
+  cookies?: string[];
+  body?: string;
+  isBase64Encoded?: boolean;
+  requestContext: {
+    requestId?: string;
+    domainName?: string;
+    http: { method: string; path?: string; sourceIp?: string };
+  };
+}
+
+export type LambdaProxyEvent = APIGatewayProxyEventLike | APIGatewayProxyEventV2Like;
+
+export interface LambdaProxyResult {
+  statusCode: number;
+  headers?: Record<string, string | number | boolean>;
+  multiValueHeaders?: Record<string, Array<string | number | boolean>>;
+  cookies?: string[];
+  body?: string;
+  isBase64Encoded?: boolean;
+}
+
+export type LambdaProxyHandler<TEvent extends LambdaProxyEvent = LambdaProxyEvent, TContext = unknown> = (
+  event: TEvent,
+  context: TContext
+) => Promise<LambdaProxyResult | string | object>;
+
+// Cloudflare HTMLRewriter types
+// Structural subset of the Workers runtime's HTMLRewriter, so @cloudflare/workers-types is not a dependency.
+export interface HTMLRewriterElementLike {
+  append(content: string, options?: { html?: boolean }): void;
+}
+
+export interface HTMLRewriterLike {
+  on(selector: string, handlers: { element?(element: HTMLRewriterElementLike): void }): HTMLRewriterLike;
+  transform(response: Response): Response;
+}
+
+// Netlify Edge Functions types
+// Structural subset of @netlify/edge-functions' Context, so it is not a dependency.
+export interface NetlifyContextLike {
+  ip?: string;
+  requestId?: string;
+  geo?: { country?: { code?: string; name?: string } };
+  // Forwards the request to the next edge function or the origin.
+  next(): Promise<Response>;
+  // Not available on older Netlify runtimes.
+  waitUntil?(promise: Promise<unknown>): void;
+}
+
+// Akamai EdgeWorkers types
+// Structural subsets of EW.IngressClientRequest / EW.EgressClientResponse, so the EdgeWorkers
+// type package is not a dependency.
+export interface AkamaiUserLocation {
+  country?: string;
+  region?: string;
+  city?: string;
+  continent?: string;
+}
+
+export interface AkamaiClientRequest {
+  readonly scheme: string;
+  readonly host: string;
+  readonly method: string;
+  // Path and query, e.g. "/news/a?page=2".
+  readonly url: string;
+  readonly clientIp?: string;
+  readonly userLocation?: AkamaiUserLocation;
+  getHeaders(): Record<string, string[]>;
+  getHeader(name: string): string[] | null;
+  getVariable(name: string): string | undefined;
+  setVariable(name: string, value: string): void;
+  respondWith(status: number, headers: Record<string, string | string[]>, body: string, denyReason?: string): void;
+}
+
+export interface AkamaiClientResponse {
+  setHeader(name: string, value: string | string[]): void;
+}
+
+// Structural subset of the `http-request` built-in module's response.
+export interface AkamaiHttpResponse {
+  readonly status: number;
+  readonly ok: boolean;
+  getHeader(name: string): string[] | null | undefined;
+  text(): Promise<string>;
+  json(): Promise<unknown>;
+}
+
+export type AkamaiHttpRequest = (
+  url: string,
+  options?: { method?: string; headers?: Record<string, string | string[]>; body?: string; timeout?: number }
+) => Promise<AkamaiHttpResponse>;
+
+export interface AkamaiHandlerOptions extends SupertabConnectConfig {
+  /**
+   * Property user variable carrying ALLOW signal headers from `onClientRequest` to
+   * `onClientResponse`. Must be defined in the property. Default: "PMUSER_SUPERTAB_HEADERS".
+   */
+  signalHeadersVariable?: string;
+  /**
+   * `httpRequest` from the `http-request` built-in module. EdgeWorkers has no global `fetch`, so
+   * the SDK's own requests (JWKS, license.xml, analytics) made while the handler runs go through it.
+   */
+  httpRequest?: AkamaiHttpRequest;
+  /**
+   * `crypto` from the `crypto` built-in module, installed as `globalThis.crypto` for the duration of
+   * the handler when the runtime has none. License tokens are verified with Web Crypto.
+   */
+  crypto?: Crypto;
+}
@@ -46,3 +46,61 @@ export function scorePathPattern(pattern: string, path: string): number {
 
   return -1;
 }
+
+export interface PatternMatch<T> {
+  item: T;
+  // True when the pattern equals the path; `specificity` is then the path's length.
+  exact: boolean;
+  specificity: number;
+}
+
+/**
+ * Find the item whose pattern best matches `url`, with license.xml `<content url>` semantics:
+ * path patterns apply to any host and absolute-URL patterns only to their own. An exact path match
+ * wins outright; otherwise the most specific matching pattern (see `scorePathPattern`) wins, and
+ * the first item wins a specificity tie. Invalid patterns are skipped.
+ */
+export function findBestPatternMatch<T>(
+  items: T[],
+  patternOf: (item: T) => string,
+  url: URL,
+  debug?: boolean
+): PatternMatch<T> | null {
+  let best: PatternMatch<T> | null = null;
+
+  for (const item of items) {
+    const pattern = patternOf(item);
+    let patternPath: string;
+    if (pattern.startsWith("/")) {
+      patternPath = pattern;
+    } else {
+      let patternUrl: URL;
+      try {
+        patternUrl = new URL(pattern);
+      } catch {
+        if (debug) {
+          console.debug(`Skipping invalid URL pattern: ${pattern}`);
+        }
+        continue;
+      }
+      if (patternUrl.host !== url.host) {
+        if (debug) {
+          console.debug(`Skipping pattern ${pattern}: host mismatch (resource=${url.host})`);
+        }
+        continue;
+      }
+      patternPath = patternUrl.pathname;
+    }
+
+    if (patternPath === url.pathname) {
+      return { item, exact: true, specificity: patternPath.length };
+    }
+
+    const specificity = scorePathPattern(patternPath, url.pathname);
+    if (specificity > (best?.specificity ?? -1)) {
+      best = { item, exact: false, specificity };
+    }
+  }
+
+  return best;
+}
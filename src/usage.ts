@@ -0,0 +1,68 @@
+import type { JWTPayload } from "jose";
+import { UsageType } from "./customer";
+import { findMatchingRule } from "./policy";
+
+/**
+ * A per-path usage requirement: tokens presented for URLs matching `pattern` must have been
+ * granted every listed usage. `pattern` follows the same syntax as `EnforcementRule.pattern`.
+ */
+export interface UsageRule {
+  pattern: string;
+  usage: UsageType | UsageType[];
+}
+
+/**
+ * Per-request usage requirement, e.g. derived from a header or route. Returning `undefined`
+ * falls back to `usageRules`.
+ */
+export type UsageRequirementResolver = (request: Request) => UsageType | UsageType[] | undefined;
+
+const AI_USAGES: string[] = [UsageType.AI_TRAIN, UsageType.AI_INDEX, UsageType.AI_INPUT];
+
+export function toUsageList(usage: UsageType | UsageType[]): UsageType[] {
+  return Array.isArray(usage) ? usage : [usage];
+}
+
+/** The usages a request must be licensed for: the resolver's answer, else the best matching rule's. */
+export function resolveRequiredUsage(
+  rules: UsageRule[] | undefined,
+  resolver: UsageRequirementResolver | undefined,
+  request: Request,
+  debug?: boolean
+): UsageType[] {
+  const fromResolver = resolver?.(request);
+  if (fromResolver !== undefined) {
+    return toUsageList(fromResolver);
+  }
+  const rule = findMatchingRule(rules, request.url, debug);
+  return rule ? toUsageList(rule.usage) : [];
+}
+
+/**
+ * Usages granted by a verified license token: the `usage` claim (a string or array of RSL usage
+ * types), else the space-delimited OAuth `scope` claim. Empty when the token carries neither.
+ */
+export function grantedUsages(payload: JWTPayload): string[] {
+  const usage = payload.usage;
+  if (typeof usage === "string") {
+    return usage.split(/\s+/).filter(Boolean);
+  }
+  if (Array.isArray(usage)) {
+    return usage.filter((entry): entry is string => typeof entry === "string");
+  }
+  return typeof payload.scope === "string" ? payload.scope.split(/\s+/).filter(Boolean) : [];
+}
+
+/**
+ * Whether the granted usages cover every required one. `all` covers every usage and `ai-all`
+ * covers the individual `ai-*` usages, per the RSL usage vocabulary.
+ */
+export function usagePermitted(granted: string[], required: UsageType[]): boolean {
+  if (granted.includes(UsageType.ALL)) {
+    return true;
+  }
+  return required.every(
+    (usage) =>
+      granted.includes(usage) || (AI_USAGES.includes(usage) && granted.includes(UsageType.AI_ALL))
+  );
+}
@@ -0,0 +1,478 @@
+import type { JWK } from "jose";
+import { loadJwkThumbprint, loadKeyImport } from "./jose";
+import { SDK_USER_AGENT } from "./version";
+import { sdkFetch } from "./fetch";
+import { MemoryCacheStore } from "./cache/memory";
+
+/**
+ * Web Bot Auth — verification of RFC 9421 HTTP Message Signatures carried by
+ * crawlers (`Signature-Agent`, `Signature-Input`, `Signature`). The agent's
+ * public keys are resolved from its key directory at
+ * `/.well-known/http-message-signatures-directory`.
+ */
+
+export type WebBotAuthOutcome =
+  | "absent"
+  | "verified"
+  | "invalid_signature"
+  | "expired"
+  | "unknown_key"
+  | "malformed"
+  | "unsupported_algorithm"
+  | "untrusted_agent"
+  | "directory_error";
+
+export interface WebBotAuthResult {
+  outcome: WebBotAuthOutcome;
+  // Origin of the signing agent's key directory (from Signature-Agent), when known.
+  agent: string | null;
+  keyId: string | null;
+}
+
+/** `verifyWebBotAuth` configuration beyond `true`. */
+export interface WebBotAuthConfig {
+  /**
+   * `Signature-Agent` origins whose key directories may be fetched. Signatures from other agents
+   * are reported as `untrusted_agent` without any network request. Default: DEFAULT_SIGNATURE_AGENTS.
+   */
+  trustedAgents?: string[];
+}
+
+export interface WebBotAuthOptions extends WebBotAuthConfig {
+  debug?: boolean;
+  /** Maximum accepted `expires - created` window, in seconds. Default: 24 hours. */
+  maxValiditySeconds?: number;
+  /** Allowed clock skew when checking `created`/`expires`, in seconds. Default: 60. */
+  clockToleranceSeconds?: number;
+  /** Override the clock (unix seconds); for tests. */
+  now?: number;
+}
+
+export const SIGNATURE_DIRECTORY_PATH = "/.well-known/http-message-signatures-directory";
+/** Signature agents trusted when `trustedAgents` is not set. */
+export const DEFAULT_SIGNATURE_AGENTS: readonly string[] = ["https://chatgpt.com"];
+const WEB_BOT_AUTH_TAG = "web-bot-auth";
+const DEFAULT_MAX_VALIDITY_SECONDS = 24 * 60 * 60;
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 60;
+
+// A failed fetch is cached too (without keys), so an unreachable agent is not refetched per request.
+type DirectoryCacheEntry = { keys: JWK[] | null; fetchedAt: number };
+// Keyed by the request-supplied agent origin, so it is a bounded in-process LRU rather than the
+// shared cache store: arbitrary agents must not be able to grow memory or write to KV.
+const DIRECTORY_CACHE_MAX_ENTRIES = 256;
+const directoryCache = new MemoryCacheStore({ maxEntries: DIRECTORY_CACHE_MAX_ENTRIES });
+const DIRECTORY_CACHE_TTL_SECONDS = 60 * 60; // 1 hour
+const DIRECTORY_FAILURE_TTL_SECONDS = 5 * 60; // 5 minutes
+// An unknown keyid refreshes the directory (key rotation) at most this often per agent.
+const DIRECTORY_MIN_REFRESH_MS = 60 * 1000;
+const DIRECTORY_FETCH_TIMEOUT_MS = 5000;
+
+type SignatureAlgorithm = {
+  kty: string;
+  crv?: string;
+  // JWS `alg` used to import the JWK.
+  jwsAlg: string;
+  verify: AlgorithmIdentifier | EcdsaParams | RsaPssParams;
+};
+
+// RFC 9421 algorithms accepted for Web Bot Auth; HMAC is never valid for a public key directory.
+const SIGNATURE_ALGORITHMS: Record<string, SignatureAlgorithm> = {
+  ed25519: { kty: "OKP", crv: "Ed25519", jwsAlg: "Ed25519", verify: { name: "Ed25519" } },
+  "ecdsa-p256-sha256": { kty: "EC", crv: "P-256", jwsAlg: "ES256", verify: { name: "ECDSA", hash: "SHA-256" } },
+  "ecdsa-p384-sha384": { kty: "EC", crv: "P-384", jwsAlg: "ES384", verify: { name: "ECDSA", hash: "SHA-384" } },
+  "rsa-pss-sha512": { kty: "RSA", jwsAlg: "PS512", verify: { name: "RSA-PSS", saltLength: 64 } },
+  "rsa-v1_5-sha256": { kty: "RSA", jwsAlg: "RS256", verify: { name: "RSASSA-PKCS1-v1_5" } },
+};
+
+// RFC 9421 algorithm implied by a JWK's own `alg`.
+const JWS_SIGNATURE_ALGORITHMS: Record<string, string> = {
+  EdDSA: "ed25519",
+  Ed25519: "ed25519",
+  ES256: "ecdsa-p256-sha256",
+  ES384: "ecdsa-p384-sha384",
+  PS512: "rsa-pss-sha512",
+  RS256: "rsa-v1_5-sha256",
+};
+
+type SignatureParams = {
+  label: string;
+  components: string[];
+  // The serialized inner list exactly as received — the @signature-params line is
+  // built from this, since re-serializing could differ byte-wise from what was signed.
+  raw: string;
+  created?: number;
+  expires?: number;
+  keyId?: string;
+  alg?: string;
+  tag?: string;
+};
+
+/** Split a structured-field dictionary on top-level commas, respecting quotes and parens. */
+function splitDictionary(value: string): string[] {
+  const members: string[] = [];
+  let depth = 0;
+  let inString = false;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "(") depth++;
+    else if (ch === ")") depth--;
+    else if (ch === "," && depth === 0) {
+      members.push(value.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  members.push(value.slice(start).trim());
+  return members.filter(Boolean);
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('"') && trimmed.endsWith('"') && trimmed.length >= 2) {
+    return trimmed.slice(1, -1).replace(/\\(["\\])/g, "$1");
+  }
+  return trimmed;
+}
+
+/** Parse one `label=("c1" "c2");created=…;keyid="…"` Signature-Input member, or null if malformed. */
+function parseSignatureInputMember(member: string): SignatureParams | null {
+  const eq = member.indexOf("=");
+  if (eq <= 0) return null;
+  const label = member.slice(0, eq).trim();
+  const raw = member.slice(eq + 1).trim();
+  const listMatch = raw.match(/^\(([^)]*)\)(.*)$/);
+  if (!listMatch) return null;
+
+  const components: string[] = [];
+  for (const item of listMatch[1].trim().split(/\s+/).filter(Boolean)) {
+    // Component parameters (e.g. `;req`, `;name=`) are not supported.
+    if (!/^"[^"]+"$/.test(item)) return null;
+    components.push(item.slice(1, -1).toLowerCase());
+  }
+
+  const params: SignatureParams = { label, components, raw };
+  for (const param of listMatch[2].split(";").map((p) => p.trim()).filter(Boolean)) {
+    const [name, ...rest] = param.split("=");
+    const value = rest.join("=");
+    switch (name.trim()) {
+      case "created":
+        params.created = Number(value);
+        break;
+      case "expires":
+        params.expires = Number(value);
+        break;
+      case "keyid":
+        params.keyId = unquote(value);
+        break;
+      case "alg":
+        params.alg = unquote(value);
+        break;
+      case "tag":
+        params.tag = unquote(value);
+        break;
+    }
+  }
+  return params;
+}
+
+/** Extract `label=:base64:` byte sequences from the Signature header. */
+function parseSignatureHeader(value: string): Map<string, string> {
+  const signatures = new Map<string, string>();
+  for (const member of splitDictionary(value)) {
+    const match = member.match(/^([^=]+)=:([A-Za-z0-9+/=]*):$/);
+    if (match) signatures.set(match[1].trim(), match[2]);
+  }
+  return signatures;
+}
+
+/**
+ * Resolve the agent origin from Signature-Agent. Accepts both the legacy sf-string form
+ * (`"https://agent.example"`) and the dictionary form (`sig1="https://agent.example"`).
+ */
+function resolveSignatureAgent(header: string | null, label: string): string | null {
+  if (!header) return null;
+  const members = splitDictionary(header);
+  let value: string | undefined;
+  if (members.length === 1 && members[0].startsWith('"')) {
+    value = members[0];
+  } else {
+    const member = members.find((m) => m.slice(0, m.indexOf("=")).trim() === label);
+    value = member?.slice(member.indexOf("=") + 1);
+  }
+  if (!value) return null;
+  try {
+    const url = new URL(unquote(value));
+    return url.protocol === "https:" ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Whether `agent` (an origin) is on the allowlist; entries may be full URLs. */
+function isTrustedAgent(agent: string, trustedAgents: readonly string[]): boolean {
+  return trustedAgents.some((entry) => {
+    try {
+      return new URL(entry).origin === agent;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/** Value of a covered component for the signature base, or null if it cannot be derived. */
+function componentValue(request: Request, url: URL, component: string): string | null {
+  switch (component) {
+    case "@method":
+      return request.method.toUpperCase();
+    case "@authority":
+      return url.host.toLowerCase();
+    case "@scheme":
+      return url.protocol.slice(0, -1);
+    case "@target-uri":
+      return url.href;
+    case "@request-target":
+      return `${url.pathname}${url.search}`;
+    case "@path":
+      return url.pathname;
+    case "@query":
+      return url.search || "?";
+    default:
+      if (component.startsWith("@")) return null;
+      return request.headers.get(component)?.trim() ?? null;
+  }
+}
+
+function buildSignatureBase(request: Request, params: SignatureParams): string | null {
+  let url: URL;
+  try {
+    url = new URL(request.url);
+  } catch {
+    return null;
+  }
+  const lines: string[] = [];
+  for (const component of params.components) {
+    const value = componentValue(request, url, component);
+    if (value === null) return null;
+    lines.push(`"${component}": ${value}`);
+  }
+  lines.push(`"@signature-params": ${params.raw}`);
+  return lines.join("\n");
+}
+
+function decodeBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function fetchDirectoryKeys(agent: string, debug: boolean): Promise<JWK[]> {
+  const url = `${agent}${SIGNATURE_DIRECTORY_PATH}`;
+  if (debug) {
+    console.debug(`Fetching signature agent key directory from URL: ${url}`);
+  }
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), DIRECTORY_FETCH_TIMEOUT_MS);
+  try {
+    const response = await sdkFetch(url, {
+      method: "GET",
+      headers: { "User-Agent": SDK_USER_AGENT },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to fetch signature agent key directory: ${response.status}`);
+    }
+    const body = (await response.json()) as { keys?: JWK[] };
+    return Array.isArray(body?.keys) ? body.keys : [];
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Fetch and cache the agent's key directory. When a refresh of `previous` fails, its keys are kept
+ * for the failure TTL rather than being dropped.
+ */
+async function fetchSignatureDirectory(
+  agent: string,
+  debug: boolean,
+  previous?: DirectoryCacheEntry
+): Promise<DirectoryCacheEntry> {
+  let entry: DirectoryCacheEntry;
+  let ttlSeconds = DIRECTORY_CACHE_TTL_SECONDS;
+  try {
+    entry = { keys: await fetchDirectoryKeys(agent, debug), fetchedAt: Date.now() };
+  } catch (error) {
+    if (debug) {
+      console.error("Failed to fetch signature agent key directory:", error);
+    }
+    entry = { keys: previous?.keys ?? null, fetchedAt: Date.now() };
+    ttlSeconds = DIRECTORY_FAILURE_TTL_SECONDS;
+  }
+  await directoryCache.set(agent, entry, ttlSeconds);
+  return entry;
+}
+
+async function getSignatureDirectory(agent: string, debug: boolean): Promise<DirectoryCacheEntry> {
+  return (await directoryCache.get<DirectoryCacheEntry>(agent)) ?? (await fetchSignatureDirectory(agent, debug));
+}
+
+/** Find the directory key whose JWK thumbprint (or explicit `kid`) equals `keyId`. */
+async function findDirectoryKey(keys: JWK[], keyId: string): Promise<JWK | null> {
+  const { calculateJwkThumbprint } = await loadJwkThumbprint();
+  for (const jwk of keys) {
+    if (jwk.kid === keyId) return jwk;
+    try {
+      if ((await calculateJwkThumbprint(jwk, "sha256")) === keyId) return jwk;
+    } catch {
+      // Unsupported key type in the directory — skip it.
+    }
+  }
+  return null;
+}
+
+/**
+ * Algorithm to verify with: the signature's `alg` parameter, else the one implied by the key.
+ * Null when the key cannot be used with it (or an RSA key does not say which padding it uses).
+ */
+function resolveSignatureAlgorithm(jwk: JWK, alg: string | undefined): SignatureAlgorithm | null {
+  let name = alg;
+  if (!name && jwk.alg) name = JWS_SIGNATURE_ALGORITHMS[jwk.alg];
+  if (!name && jwk.kty === "OKP") name = "ed25519";
+  if (!name && jwk.kty === "EC") name = jwk.crv === "P-384" ? "ecdsa-p384-sha384" : "ecdsa-p256-sha256";
+  const algorithm = name ? SIGNATURE_ALGORITHMS[name] : undefined;
+  if (!algorithm || algorithm.kty !== jwk.kty) return null;
+  if (algorithm.crv && algorithm.crv !== jwk.crv) return null;
+  if (jwk.alg && JWS_SIGNATURE_ALGORITHMS[jwk.alg] !== name) return null;
+  return algorithm;
+}
+
+async function verifyWithJwk(
+  jwk: JWK,
+  algorithm: SignatureAlgorithm,
+  signature: Uint8Array,
+  base: string
+): Promise<boolean> {
+  const { importJWK } = await loadKeyImport();
+  const key = (await importJWK({ ...jwk, alg: algorithm.jwsAlg }, algorithm.jwsAlg)) as CryptoKey;
+  return crypto.subtle.verify(algorithm.verify, key, signature, new TextEncoder().encode(base));
+}
+
+export function clearSignatureDirectoryCache(): void {
+  directoryCache.clear();
+}
+
+/**
+ * Verify the Web Bot Auth signature on an incoming request.
+ * Returns `absent` when the request carries no signature, otherwise the verification outcome
+ * together with the signing agent and key id. Never throws.
+ */
+export async function verifyWebBotAuth(
+  request: Request,
+  options: WebBotAuthOptions = {}
+): Promise<WebBotAuthResult> {
+  const debug = options.debug ?? false;
+  const signatureInput = request.headers.get("signature-input");
+  const signatureHeader = request.headers.get("signature");
+  if (!signatureInput || !signatureHeader) {
+    return { outcome: "absent", agent: null, keyId: null };
+  }
+
+  const candidates = splitDictionary(signatureInput)
+    .map(parseSignatureInputMember)
+    .filter((p): p is SignatureParams => p !== null);
+  // Prefer the signature explicitly tagged for Web Bot Auth; otherwise take the first.
+  const params = candidates.find((p) => p.tag === WEB_BOT_AUTH_TAG) ?? candidates[0];
+  const signature = params ? parseSignatureHeader(signatureHeader).get(params.label) : undefined;
+  const agent = params
+    ? resolveSignatureAgent(request.headers.get("signature-agent"), params.label)
+    : null;
+  const keyId = params?.keyId ?? null;
+
+  if (!params || !signature || !keyId || !agent) {
+    if (debug) {
+      console.error("Web Bot Auth signature is missing a label, keyid or Signature-Agent");
+    }
+    return { outcome: "malformed", agent, keyId };
+  }
+
+  // @authority binds the signature to this host; signature-agent must be covered when sent.
+  if (!params.components.includes("@authority") || !params.components.includes("signature-agent")) {
+    if (debug) {
+      console.error("Web Bot Auth signature does not cover @authority and signature-agent");
+    }
+    return { outcome: "malformed", agent, keyId };
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS;
+  const maxValidity = options.maxValiditySeconds ?? DEFAULT_MAX_VALIDITY_SECONDS;
+  const { created, expires } = params;
+  if (
+    created === undefined ||
+    expires === undefined ||
+    !Number.isInteger(created) ||
+    !Number.isInteger(expires)
+  ) {
+    return { outcome: "malformed", agent, keyId };
+  }
+  if (created > now + tolerance || expires < now - tolerance || expires - created > maxValidity) {
+    if (debug) {
+      console.error(`Web Bot Auth signature outside its validity window (created=${created}, expires=${expires})`);
+    }
+    return { outcome: "expired", agent, keyId };
+  }
+
+  const base = buildSignatureBase(request, params);
+  if (base === null) {
+    return { outcome: "malformed", agent, keyId };
+  }
+
+  // The agent comes from a request header: only fetch directories of agents the merchant trusts,
+  // so clients cannot make the edge call hosts of their choosing.
+  if (!isTrustedAgent(agent, options.trustedAgents ?? DEFAULT_SIGNATURE_AGENTS)) {
+    if (debug) {
+      console.debug(`Web Bot Auth signature agent ${agent} is not trusted; skipping its key directory`);
+    }
+    return { outcome: "untrusted_agent", agent, keyId };
+  }
+
+  let directory = await getSignatureDirectory(agent, debug);
+  if (!directory.keys) {
+    return { outcome: "directory_error", agent, keyId };
+  }
+  let jwk = await findDirectoryKey(directory.keys, keyId);
+  if (!jwk && Date.now() - directory.fetchedAt >= DIRECTORY_MIN_REFRESH_MS) {
+    if (debug) {
+      console.debug("Key not found in cached signature directory, refreshing and retrying...");
+    }
+    directory = await fetchSignatureDirectory(agent, debug, directory);
+    jwk = directory.keys ? await findDirectoryKey(directory.keys, keyId) : null;
+  }
+  if (!jwk) {
+    return { outcome: "unknown_key", agent, keyId };
+  }
+
+  const algorithm = resolveSignatureAlgorithm(jwk, params.alg);
+  if (!algorithm) {
+    if (debug) {
+      console.error(`Unsupported Web Bot Auth signature algorithm ${params.alg ?? "(none)"} for ${jwk.kty} key`);
+    }
+    return { outcome: "unsupported_algorithm", agent, keyId };
+  }
+  try {
+    const ok = await verifyWithJwk(jwk, algorithm, decodeBase64(signature), base);
+    return { outcome: ok ? "verified" : "invalid_signature", agent, keyId };
+  } catch (error) {
+    if (debug) {
+      console.error("Web Bot Auth verification failed:", error);
+    }
+    return { outcome: "invalid_signature", agent, keyId };
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Minimal XML parser for license.xml documents. Dependency-free and free of platform APIs, so it
+ * runs on every edge runtime. Supports namespaces, CDATA, comments, processing instructions,
+ * self-closing elements, single- and double-quoted attributes and the predefined and numeric
+ * entities. DOCTYPE declarations are skipped; entities they define are left undecoded.
+ */
+export interface XmlElement {
+  /** Local name, without a namespace prefix. */
+  name: string;
+  /** Namespace URI the element is in, or null when no namespace applies. */
+  namespace: string | null;
+  /** Unprefixed attributes, entity-decoded. Namespace declarations are not included. */
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Character data directly inside the element (CDATA included), entity-decoded. */
+  text: string;
+  /** Source offsets of the element, `end` exclusive. */
+  start: number;
+  end: number;
+}
+
+export class XmlParseError extends Error {
+  constructor(message: string, offset: number) {
+    super(`${message} at offset ${offset}`);
+    this.name = "XmlParseError";
+  }
+}
+
+type OpenElement = { element: XmlElement; qname: string; namespaces: Map<string, string | null> };
+
+const NAME_REGEX = /[^\s/>=<"']+/y;
+const WHITESPACE_REGEX = /\s*/y;
+const PREDEFINED_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, ref: string) => {
+    if (ref[0] !== "#") return PREDEFINED_ENTITIES[ref] ?? entity;
+    const code = ref[1] === "x" || ref[1] === "X" ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+  });
+}
+
+/** Offset just past `terminator`, searching from `from`. */
+function skipPast(xml: string, from: number, terminator: string, construct: string): number {
+  const index = xml.indexOf(terminator, from);
+  if (index === -1) throw new XmlParseError(`Unterminated ${construct}`, from);
+  return index + terminator.length;
+}
+
+/** Offset just past a DOCTYPE declaration, including any internal subset. */
+function skipDoctype(xml: string, from: number): number {
+  let depth = 0;
+  for (let i = from; i < xml.length; i++) {
+    const char = xml[i];
+    if (char === '"' || char === "'") {
+      i = skipPast(xml, i + 1, char, "DOCTYPE literal") - 1;
+    } else if (char === "[") {
+      depth++;
+    } else if (char === "]") {
+      depth--;
+    } else if (char === ">" && depth === 0) {
+      return i + 1;
+    }
+  }
+  throw new XmlParseError("Unterminated DOCTYPE", from);
+}
+
+function readName(xml: string, from: number): string {
+  NAME_REGEX.lastIndex = from;
+  const match = NAME_REGEX.exec(xml);
+  if (!match) throw new XmlParseError("Expected a name", from);
+  return match[0];
+}
+
+function skipWhitespace(xml: string, from: number): number {
+  WHITESPACE_REGEX.lastIndex = from;
+  WHITESPACE_REGEX.exec(xml);
+  return WHITESPACE_REGEX.lastIndex;
+}
+
+function resolveNamespace(qname: string, namespaces: Map<string, string | null>, offset: number): string | null {
+  const colon = qname.indexOf(":");
+  const prefix = colon === -1 ? "" : qname.slice(0, colon);
+  const namespace = namespaces.get(prefix);
+  if (namespace === undefined) {
+    if (prefix === "") return null;
+    throw new XmlParseError(`Unbound namespace prefix "${prefix}"`, offset);
+  }
+  return namespace;
+}
+
+/**
+ * Parse a start tag at `from` (which points at `<`). Returns the open element, whether the tag was
+ * self-closing, and the offset just past it.
+ */
+function parseStartTag(
+  xml: string,
+  from: number,
+  parentNamespaces: Map<string, string | null>
+): { open: OpenElement; selfClosing: boolean; next: number } {
+  const qname = readName(xml, from + 1);
+  const rawAttributes: Array<[string, string]> = [];
+  let pos = from + 1 + qname.length;
+
+  for (;;) {
+    const afterSpace = skipWhitespace(xml, pos);
+    if (xml.startsWith("/>", afterSpace) || xml[afterSpace] === ">") {
+      pos = afterSpace;
+      break;
+    }
+    if (afterSpace === pos) throw new XmlParseError(`Malformed start tag <${qname}>`, pos);
+    const name = readName(xml, afterSpace);
+    pos = skipWhitespace(xml, afterSpace + name.length);
+    if (xml[pos] !== "=") throw new XmlParseError(`Attribute "${name}" has no value`, pos);
+    pos = skipWhitespace(xml, pos + 1);
+    const quote = xml[pos];
+    if (quote !== '"' && quote !== "'") throw new XmlParseError(`Attribute "${name}" value is not quoted`, pos);
+    const close = xml.indexOf(quote, pos + 1);
+    if (close === -1) throw new XmlParseError(`Unterminated value of attribute "${name}"`, pos);
+    rawAttributes.push([name, decodeEntities(xml.slice(pos + 1, close))]);
+    pos = close + 1;
+  }
+
+  let namespaces = parentNamespaces;
+  const attributes: Record<string, string> = {};
+  for (const [name, value] of rawAttributes) {
+    if (name === "xmlns" || name.startsWith("xmlns:")) {
+      if (namespaces === parentNamespaces) namespaces = new Map(parentNamespaces);
+      namespaces.set(name === "xmlns" ? "" : name.slice(6), value === "" ? null : value);
+    } else if (!name.includes(":")) {
+      attributes[name] = value;
+    }
+  }
+
+  const selfClosing = xml.startsWith("/>", pos);
+  const element: XmlElement = {
+    name: qname.slice(qname.indexOf(":") + 1),
+    namespace: resolveNamespace(qname, namespaces, from),
+    attributes,
+    children: [],
+    text: "",
+    start: from,
+    end: -1,
+  };
+  return { open: { element, qname, namespaces }, selfClosing, next: pos + (selfClosing ? 2 : 1) };
+}
+
+/**
+ * Parse an XML document into its root element.
+ * @throws XmlParseError when the document is not well-formed
+ */
+export function parseXml(xml: string): XmlElement {
+  const stack: OpenElement[] = [];
+  const rootNamespaces = new Map<string, string | null>();
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  const addText = (text: string, offset: number) => {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.element.text += text;
+    } else if (text.trim() !== "") {
+      throw new XmlParseError("Text outside the root element", offset);
+    }
+  };
+
+  const attach = (open: OpenElement, offset: number) => {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.element.children.push(open.element);
+    } else if (root) {
+      throw new XmlParseError("Multiple root elements", offset);
+    } else {
+      root = open.element;
+    }
+  };
+
+  while (pos < xml.length) {
+    const tag = xml.indexOf("<", pos);
+    const textEnd = tag === -1 ? xml.length : tag;
+    if (textEnd > pos) addText(decodeEntities(xml.slice(pos, textEnd)), pos);
+    if (tag === -1) break;
+
+    if (xml.startsWith("<!--", tag)) {
+      pos = skipPast(xml, tag + 4, "-->", "comment");
+    } else if (xml.startsWith("<![CDATA[", tag)) {
+      const end = skipPast(xml, tag + 9, "]]>", "CDATA section");
+      addText(xml.slice(tag + 9, end - 3), tag);
+      pos = end;
+    } else if (xml.startsWith("<?", tag)) {
+      pos = skipPast(xml, tag + 2, "?>", "processing instruction");
+    } else if (xml.startsWith("<!", tag)) {
+      pos = skipDoctype(xml, tag + 2);
+    } else if (xml.startsWith("</", tag)) {
+      const qname = readName(xml, tag + 2);
+      const close = skipWhitespace(xml, tag + 2 + qname.length);
+      if (xml[close] !== ">") throw new XmlParseError(`Malformed end tag </${qname}>`, tag);
+      const open = stack.pop();
+      if (!open || open.qname !== qname) {
+        throw new XmlParseError(`Unexpected </${qname}>${open ? `, expected </${open.qname}>` : ""}`, tag);
+      }
+      pos = close + 1;
+      open.element.end = pos;
+    } else {
+      const parent = stack[stack.length - 1];
+      const { open, selfClosing, next } = parseStartTag(xml, tag, parent ? parent.namespaces : rootNamespaces);
+      attach(open, tag);
+      pos = next;
+      if (selfClosing) {
+        open.element.end = pos;
+      } else {
+        stack.push(open);
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new XmlParseError(`Unclosed <${stack[stack.length - 1].qname}>`, stack[stack.length - 1].element.start);
+  }
+  if (!root) throw new XmlParseError("No root element", 0);
+  return root;
+}
@@ -63,9 +63,15 @@ describe("buildAnalyticsEvent", () => {
       token_outcome: "absent",
       final_action: "allow",
       enforcement_mode: "observe",
+      policy_rule: null,
+      rate_limited: false,
       signature_agent: null,
       signature_input: null,
       signature: null,
+      web_bot_auth_outcome: null,
+      verified_agent: null,
+      crawler_id: null,
+      crawler_verified: null,
       // Capture v2 — portable header signals (none of these headers were sent).
       sec_fetch_mode: null,
       sec_fetch_site: null,
@@ -143,6 +149,20 @@ describe("buildAnalyticsEvent", () => {
       expect(event.signature_input).toBeNull();
       expect(event.signature).toBeNull();
     });
+
+    it("records the verification outcome, with verified_agent only on success", () => {
+      const verified = buildAnalyticsEvent(makeRequest(), baseDecision, ctx({
+        webBotAuth: { outcome: "verified", agent: "https://agent.example", keyId: "k1" },
+      }));
+      expect(verified.web_bot_auth_outcome).toBe("verified");
+      expect(verified.verified_agent).toBe("https://agent.example");
+
+      const invalid = buildAnalyticsEvent(makeRequest(), baseDecision, ctx({
+        webBotAuth: { outcome: "invalid_signature", agent: "https://agent.example", keyId: "k1" },
+      }));
+      expect(invalid.web_bot_auth_outcome).toBe("invalid_signature");
+      expect(invalid.verified_agent).toBeNull();
+    });
   });
 
   describe("final_action branches", () => {
@@ -501,10 +521,10 @@ describe("buildAnalyticsEvent", () => {
     });
   });
 
-  describe("Capture v2 — schema_version", () => {
-    it("emits schema_version 2", () => {
+  describe("schema_version", () => {
+    it("emits schema_version 3", () => {
       const event = buildAnalyticsEvent(makeRequest(), baseDecision, ctx());
-      expect(event.schema_version).toBe(2);
+      expect(event.schema_version).toBe(3);
     });
   });
 });
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { generateKeyPair, exportJWK, SignJWT } from "jose";
+import { audienceMatches } from "../src/audience";
+import { verifyLicenseToken } from "../src/license";
+import { LicenseTokenInvalidReason } from "../src/types";
+
+describe("audienceMatches", () => {
+  it("matches paths at segment boundaries", () => {
+    expect(audienceMatches("https://example.com/news", "https://example.com/news")).toBe(true);
+    expect(audienceMatches("https://example.com/news", "https://example.com/news/story")).toBe(true);
+    expect(audienceMatches("https://example.com/news", "https://example.com/newsletter-premium")).toBe(false);
+  });
+
+  it("treats a trailing slash on the audience as insignificant", () => {
+    expect(audienceMatches("https://example.com/news/", "https://example.com/news")).toBe(true);
+    expect(audienceMatches("https://example.com/", "https://example.com/anything")).toBe(true);
+  });
+
+  it("requires the exact origin", () => {
+    expect(audienceMatches("https://example.com", "https://example.com.evil.test/")).toBe(false);
+    expect(audienceMatches("https://example.com", "http://example.com/")).toBe(false);
+    expect(audienceMatches("https://example.com", "https://example.com:8443/")).toBe(false);
+    expect(audienceMatches("https://Example.COM", "https://example.com/a")).toBe(true);
+  });
+
+  it("honors wildcards and the $ anchor", () => {
+    expect(audienceMatches("https://example.com/*/premium", "https://example.com/news/premium/a")).toBe(true);
+    expect(audienceMatches("https://example.com/*/premium", "https://example.com/news/free")).toBe(false);
+    expect(audienceMatches("https://example.com/news$", "https://example.com/news")).toBe(true);
+    expect(audienceMatches("https://example.com/news$", "https://example.com/news/story")).toBe(false);
+  });
+
+  it("ignores the query string", () => {
+    expect(audienceMatches("https://example.com/news", "https://example.com/news/a?page=2")).toBe(true);
+  });
+
+  it("resolves host aliases on both sides", () => {
+    const aliases = { "www.example.com": "example.com", "staging.example.com": "example.com" };
+    expect(audienceMatches("https://example.com/news", "https://www.example.com/news/a", aliases)).toBe(true);
+    expect(audienceMatches("https://www.example.com/", "https://staging.example.com/a", aliases)).toBe(true);
+    expect(audienceMatches("https://example.com/", "https://www.example.com/a")).toBe(false);
+    expect(audienceMatches("https://example.com/", "https://other.example.com/a", aliases)).toBe(false);
+  });
+
+  it("rejects unparseable audiences", () => {
+    expect(audienceMatches("example.com/news", "https://example.com/news")).toBe(false);
+  });
+});
+
+describe("verifyLicenseToken audience", () => {
+  const BASE_URL = "https://api-connect.supertab.co";
+
+  async function verifyFor(aud: string, requestUrl: string, audienceHostAliases?: Record<string, string>) {
+    const { privateKey, publicKey } = await generateKeyPair("ES256");
+    const jwk = await exportJWK(publicKey);
+    const token = await new SignJWT({})
+      .setProtectedHeader({ alg: "ES256", kid: "kid-1" })
+      .setIssuer(BASE_URL)
+      .setAudience(aud)
+      .setExpirationTime("5m")
+      .sign(privateKey);
+    return verifyLicenseToken({
+      licenseToken: token,
+      requestUrl,
+      supertabBaseUrl: BASE_URL,
+      debug: false,
+      staticJwks: { jwks: { keys: [{ ...jwk, kid: "kid-1", alg: "ES256" }] }, mode: "override" },
+      audienceHostAliases,
+    });
+  }
+
+  it("rejects a sibling path that shares a string prefix", async () => {
+    expect(await verifyFor("https://example.com/news", "https://example.com/newsletter-premium")).toMatchObject({
+      valid: false,
+      reason: LicenseTokenInvalidReason.INVALID_AUDIENCE,
+    });
+  });
+
+  it("accepts an aliased host", async () => {
+    expect(
+      await verifyFor("https://example.com/news", "https://www.example.com/news/a", { "www.example.com": "example.com" })
+    ).toMatchObject({ valid: true });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  MemoryCacheStore,
+  CloudflareKVCacheStore,
+  CloudflareCacheApiStore,
+  FastlyKVCacheStore,
+  FastlySimpleCacheStore,
+  getCacheStore,
+  resetCacheStore,
+  setCacheStore,
+} from "../src/cache";
+import type { CacheStore, CacheApiLike, FastlySimpleCacheLike, KVNamespaceLike, FastlyKVStoreLike } from "../src/cache";
+import { fetchPlatformJwks, clearJwksCache } from "../src/jwks";
+import { SupertabConnect } from "../src/index";
+
+class FakeKV implements KVNamespaceLike {
+  data = new Map<string, string>();
+  puts: { key: string; options?: { expirationTtl?: number } }[] = [];
+  async get(key: string) {
+    const raw = this.data.get(key);
+    return raw === undefined ? null : JSON.parse(raw);
+  }
+  async put(key: string, value: string, options?: { expirationTtl?: number }) {
+    this.puts.push({ key, options });
+    this.data.set(key, value);
+  }
+  async delete(key: string) {
+    this.data.delete(key);
+  }
+}
+
+class FakeCacheApi implements CacheApiLike {
+  data = new Map<string, string>();
+  async match(request: Request | string) {
+    const raw = this.data.get(String(request));
+    return raw === undefined ? undefined : new Response(raw);
+  }
+  async put(request: Request | string, response: Response) {
+    this.data.set(String(request), await response.text());
+  }
+  async delete(request: Request | string) {
+    return this.data.delete(String(request));
+  }
+}
+
+class FakeFastlyKV implements FastlyKVStoreLike {
+  data = new Map<string, string>();
+  async get(key: string) {
+    const raw = this.data.get(key);
+    return raw === undefined ? null : { text: async () => raw };
+  }
+  async put(key: string, value: string) {
+    this.data.set(key, value);
+  }
+  async delete(key: string) {
+    this.data.delete(key);
+  }
+}
+
+class FakeSimpleCache implements FastlySimpleCacheLike {
+  data = new Map<string, string>();
+  get(key: string) {
+    const raw = this.data.get(key);
+    return raw === undefined ? null : { text: async () => raw };
+  }
+  async getOrSet(key: string, set: () => Promise<{ value: string; ttl: number }>) {
+    if (!this.data.has(key)) this.data.set(key, (await set()).value);
+    return this.get(key);
+  }
+  purge(key: string) {
+    this.data.delete(key);
+  }
+}
+
+const adapters: [string, () => CacheStore][] = [
+  ["MemoryCacheStore", () => new MemoryCacheStore()],
+  ["CloudflareKVCacheStore", () => new CloudflareKVCacheStore(new FakeKV())],
+  ["CloudflareCacheApiStore", () => new CloudflareCacheApiStore(new FakeCacheApi())],
+  ["FastlyKVCacheStore", () => new FastlyKVCacheStore(new FakeFastlyKV())],
+  ["FastlySimpleCacheStore", () => new FastlySimpleCacheStore(new FakeSimpleCache())],
+];
+
+describe.each(adapters)("%s", (_name, create) => {
+  afterEach(() => vi.useRealTimers());
+
+  it("round-trips JSON values", async () => {
+    const store = create();
+    await store.set("k", { keys: [{ kid: "a" }] }, 60);
+    expect(await store.get("k")).toEqual({ keys: [{ kid: "a" }] });
+  });
+
+  it("returns undefined for missing and deleted keys", async () => {
+    const store = create();
+    expect(await store.get("missing")).toBeUndefined();
+    await store.set("k", "v", 60);
+    await store.delete("k");
+    expect(await store.get("k")).toBeUndefined();
+  });
+
+  it("overwrites existing entries", async () => {
+    const store = create();
+    await store.set("k", "first", 60);
+    await store.set("k", "second", 60);
+    expect(await store.get("k")).toBe("second");
+  });
+
+  it("expires entries after their TTL", async () => {
+    vi.useFakeTimers();
+    const store = create();
+    await store.set("k", "v", 10);
+    vi.advanceTimersByTime(9_000);
+    expect(await store.get("k")).toBe("v");
+    vi.advanceTimersByTime(2_000);
+    expect(await store.get("k")).toBeUndefined();
+  });
+});
+
+describe("MemoryCacheStore eviction", () => {
+  it("evicts the least recently used entry past maxEntries", async () => {
+    const store = new MemoryCacheStore({ maxEntries: 2 });
+    await store.set("a", 1, 60);
+    await store.set("b", 2, 60);
+    await store.get("a");
+    await store.set("c", 3, 60);
+    expect(await store.get("a")).toBe(1);
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.get("c")).toBe(3);
+  });
+});
+
+describe("CloudflareKVCacheStore", () => {
+  it("applies the key prefix and clamps expirationTtl to the KV minimum", async () => {
+    const kv = new FakeKV();
+    await new CloudflareKVCacheStore(kv, { prefix: "site1:" }).set("k", "v", 10);
+    expect(kv.puts).toEqual([{ key: "site1:k", options: { expirationTtl: 60 } }]);
+  });
+});
+
+describe("shared cache store", () => {
+  const BASE_URL = "https://api-connect.supertab.co";
+  const jwks = { keys: [{ kid: "shared-kid", kty: "EC" }] };
+
+  beforeEach(() => resetCacheStore());
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetCacheStore();
+  });
+
+  it("is replaced via SupertabConnect.setCacheStore", () => {
+    const store = new MemoryCacheStore();
+    SupertabConnect.setCacheStore(store);
+    expect(getCacheStore()).toBe(store);
+  });
+
+  it("serves the platform JWKS from the configured store", async () => {
+    const kv = new FakeKV();
+    setCacheStore(new CloudflareKVCacheStore(kv));
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(JSON.stringify(jwks)));
+
+    await fetchPlatformJwks(BASE_URL, false);
+    expect(kv.data.has("stc:jwks:platform_jwks")).toBe(true);
+
+    // A fresh store backed by the same namespace (i.e. another isolate) skips the fetch.
+    setCacheStore(new CloudflareKVCacheStore(kv));
+    expect(await fetchPlatformJwks(BASE_URL, false)).toEqual(jwks);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    await clearJwksCache();
+    expect(kv.data.has("stc:jwks:platform_jwks")).toBe(false);
+  });
+
+  it("falls back to fetching when the store fails", async () => {
+    setCacheStore({
+      get: () => Promise.reject(new Error("KV unavailable")),
+      set: () => Promise.reject(new Error("KV unavailable")),
+      delete: () => Promise.resolve(),
+    });
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(JSON.stringify(jwks)));
+    expect(await fetchPlatformJwks(BASE_URL, false)).toEqual(jwks);
+  });
+});
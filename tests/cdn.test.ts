@@ -1,6 +1,12 @@
-import { describe, it, expect } from "vitest";
-import { parseAsn, extractCloudflareCdnSignals, handleFastlyRequest } from "../src/cdn";
-import { HandlerAction } from "../src/types";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { webcrypto } from "node:crypto";
+import { generateKeyPair, exportJWK, SignJWT } from "jose";
+import { parseAsn, extractCloudflareCdnSignals, handleFastlyRequest, handleAkamaiRequest, applyAkamaiSignalHeaders, handleNetlifyRequest } from "../src/cdn";
+import { HandlerAction, EnforcementMode } from "../src/types";
+import { SupertabConnect } from "../src/index";
+import { sdkFetch } from "../src/fetch";
+import { RecordingTransport } from "./helpers/status";
+import { FakeAkamaiRequest, FakeAkamaiResponse, fakeHttpRequest } from "./helpers/akamai";
 
 // Records the context handed to handleRequest and short-circuits with a RESPOND
 // so no origin fetch happens during the test.
@@ -139,3 +145,233 @@ describe("handleFastlyRequest client signals", () => {
     expect(handler.calls[0].ctx).toBe(ctx);
   });
 });
+
+describe("handleAkamaiRequest", () => {
+  const ewRequest = () =>
+    new FakeAkamaiRequest({
+      headers: { "User-Agent": "GPTBot/1.0" },
+      clientIp: "203.0.113.7",
+      userLocation: { country: "DE" },
+    });
+
+  it("maps the EdgeWorkers request into a Request and handler context", async () => {
+    const handler = recordingHandler();
+    let seen: Request | undefined;
+    const capture = {
+      handleRequest: async (req: Request, context?: any) => {
+        seen = req;
+        return handler.handleRequest(req, context);
+      },
+    };
+    await handleAkamaiRequest(capture, ewRequest());
+
+    expect(seen?.url).toBe("https://example.com/news/a?page=2");
+    expect(seen?.headers.get("user-agent")).toBe("GPTBot/1.0");
+    const ctx = handler.calls[0];
+    expect(ctx.sourceCdn).toBe("akamai");
+    expect(ctx.clientIp).toBe("203.0.113.7");
+    expect(ctx.requestCountry).toBe("DE");
+  });
+
+  it("answers BLOCK/RESPOND results with respondWith", async () => {
+    const request = ewRequest();
+    await handleAkamaiRequest(recordingHandler(), request);
+    expect(request.responded).toEqual({ status: 200, headers: {}, body: "ok" });
+  });
+
+  it("waits for waitUntil work before returning", async () => {
+    let settled = false;
+    const handler = {
+      handleRequest: async (_req: Request, context?: any) => {
+        context.ctx.waitUntil(new Promise<void>((resolve) => setTimeout(() => ((settled = true), resolve()), 5)));
+        return { action: HandlerAction.ALLOW as const };
+      },
+    };
+    await handleAkamaiRequest(handler, ewRequest());
+    expect(settled).toBe(true);
+  });
+
+  it("hands ALLOW signal headers to onClientResponse through the property variable", async () => {
+    const request = ewRequest();
+    const handler = {
+      handleRequest: async () => ({
+        action: HandlerAction.ALLOW as const,
+        headers: { "X-Supertab-Bot": "1" },
+      }),
+    };
+    await handleAkamaiRequest(handler, request, "PMUSER_STC");
+    expect(request.responded).toBeNull();
+
+    const response = new FakeAkamaiResponse();
+    applyAkamaiSignalHeaders(request, response, "PMUSER_STC");
+    expect(response.headers).toEqual({ "X-Supertab-Bot": "1" });
+  });
+
+  it("leaves the response untouched when no signal headers were stashed", () => {
+    const response = new FakeAkamaiResponse();
+    applyAkamaiSignalHeaders(ewRequest(), response);
+    expect(response.headers).toEqual({});
+  });
+});
+
+describe("SupertabConnect.akamaiHandleRequests", () => {
+  beforeEach(() => SupertabConnect.resetInstance());
+  afterEach(() => SupertabConnect.resetInstance());
+
+  const options = (enforcement: EnforcementMode) => ({
+    apiKey: "merchant-key",
+    enforcement,
+    botDetector: () => true,
+    analyticsTransport: new RecordingTransport(),
+  });
+
+  it("responds to blocked requests at the edge", async () => {
+    const request = new FakeAkamaiRequest();
+    await SupertabConnect.akamaiHandleRequests(request, options(EnforcementMode.ENFORCE));
+    expect(request.responded?.status).toBe(401);
+  });
+
+  it("lets allowed requests through and applies the signal headers on the response", async () => {
+    const request = new FakeAkamaiRequest();
+    await SupertabConnect.akamaiHandleRequests(request, options(EnforcementMode.OBSERVE));
+    expect(request.responded).toBeNull();
+
+    const response = new FakeAkamaiResponse();
+    SupertabConnect.akamaiHandleResponse(request, response);
+    expect(response.headers.Link).toContain("https://example.com/license.xml");
+  });
+
+  describe("on an EdgeWorkers runtime without global fetch or crypto", () => {
+    const BASE_URL = "https://api-connect.supertab.co";
+
+    afterEach(() => vi.unstubAllGlobals());
+
+    it("verifies a license token through http-request and the crypto module", async () => {
+      const { privateKey, publicKey } = await generateKeyPair("ES256");
+      const jwk = await exportJWK(publicKey);
+      const token = await new SignJWT({ license_id: "lic-1" })
+        .setProtectedHeader({ alg: "ES256", kid: "kid-1" })
+        .setIssuer(BASE_URL)
+        .setAudience("https://example.com/")
+        .setExpirationTime("5m")
+        .sign(privateKey);
+      const { httpRequest, calls } = fakeHttpRequest({
+        [`${BASE_URL}/.well-known/jwks.json/platform`]: { keys: [{ ...jwk, kid: "kid-1", alg: "ES256" }] },
+      });
+      vi.stubGlobal("fetch", undefined);
+      vi.stubGlobal("crypto", undefined);
+      vi.stubGlobal("Request", undefined);
+      vi.stubGlobal("Headers", undefined);
+
+      const request = new FakeAkamaiRequest({ headers: { Authorization: `License ${token}` } });
+      await SupertabConnect.akamaiHandleRequests(request, {
+        ...options(EnforcementMode.ENFORCE),
+        httpRequest,
+        crypto: webcrypto as Crypto,
+      });
+
+      expect(request.responded).toBeNull();
+      expect(calls.map((call) => call.url)).toContain(`${BASE_URL}/.well-known/jwks.json/platform`);
+      expect(calls.find((call) => call.url === `${BASE_URL}/events`)?.options).toMatchObject({
+        method: "POST",
+        body: expect.stringContaining("lic-1"),
+      });
+    });
+
+    it("removes the http-request and crypto overrides once the invocation settles", async () => {
+      const { httpRequest } = fakeHttpRequest({});
+      vi.stubGlobal("crypto", undefined);
+      const globalFetch = vi.fn(async () => new Response("global"));
+      vi.stubGlobal("fetch", globalFetch);
+
+      await SupertabConnect.akamaiHandleRequests(new FakeAkamaiRequest(), {
+        ...options(EnforcementMode.OBSERVE),
+        httpRequest,
+        crypto: webcrypto as Crypto,
+      });
+
+      expect(globalThis.crypto).toBeUndefined();
+      await sdkFetch("https://example.com/after");
+      expect(globalFetch).toHaveBeenCalledWith("https://example.com/after", undefined);
+    });
+  });
+});
+
+describe("handleNetlifyRequest", () => {
+  const netlifyContext = (overrides: Record<string, unknown> = {}) => ({
+    ip: "203.0.113.7",
+    requestId: "01HNETLIFY",
+    geo: { country: { code: "DE", name: "Germany" } },
+    next: vi.fn(async () => new Response("<html>", { headers: { "Content-Type": "text/html" } })),
+    ...overrides,
+  });
+
+  it("maps context.ip, context.geo.country and the request id into the handler context", async () => {
+    const handler = recordingHandler();
+    await handleNetlifyRequest(handler, new Request("https://example.com/news/a"), netlifyContext());
+
+    const ctx = handler.calls[0];
+    expect(ctx.sourceCdn).toBe("netlify");
+    expect(ctx.clientIp).toBe("203.0.113.7");
+    expect(ctx.requestCountry).toBe("DE");
+    expect(ctx.requestId).toBe("01HNETLIFY");
+  });
+
+  it("answers BLOCK/RESPOND results without calling context.next()", async () => {
+    const context = netlifyContext();
+    const response = await handleNetlifyRequest(recordingHandler(), new Request("https://example.com/"), context);
+    expect(await response.text()).toBe("ok");
+    expect(context.next).not.toHaveBeenCalled();
+  });
+
+  it("merges ALLOW signal headers into the origin response", async () => {
+    const handler = {
+      handleRequest: async () => ({ action: HandlerAction.ALLOW as const, headers: { "X-RSL-Status": "token_required" } }),
+    };
+    const response = await handleNetlifyRequest(handler, new Request("https://example.com/"), netlifyContext());
+    expect(await response.text()).toBe("<html>");
+    expect(response.headers.get("Content-Type")).toBe("text/html");
+    expect(response.headers.get("X-RSL-Status")).toBe("token_required");
+  });
+
+  it("uses context.waitUntil when the runtime provides it", async () => {
+    const waitUntil = vi.fn();
+    const handler = {
+      handleRequest: async (_req: Request, context?: any) => {
+        context.ctx.waitUntil(Promise.resolve());
+        return { action: HandlerAction.ALLOW as const };
+      },
+    };
+    await handleNetlifyRequest(handler, new Request("https://example.com/"), netlifyContext({ waitUntil }));
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("SupertabConnect.netlifyHandleRequests", () => {
+  beforeEach(() => SupertabConnect.resetInstance());
+  afterEach(() => {
+    vi.restoreAllMocks();
+    SupertabConnect.resetInstance();
+  });
+
+  it("tags analytics events with source_cdn netlify", async () => {
+    const transport = new RecordingTransport();
+    const response = await SupertabConnect.netlifyHandleRequests(
+      new Request("https://example.com/news/a"),
+      { ip: "203.0.113.7", next: async () => new Response("<html>") },
+      { apiKey: "merchant-key", enforcement: EnforcementMode.ENFORCE, botDetector: () => true, analyticsTransport: transport }
+    );
+    expect(response.status).toBe(401);
+    expect(transport.events[0]).toMatchObject({ source_cdn: "netlify", final_action: "block" });
+  });
+
+  it("fails open through context.next() when the SDK cannot be constructed", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const response = await SupertabConnect.netlifyHandleRequests(
+      new Request("https://example.com/news/a"),
+      { next: async () => new Response("<html>") },
+      { apiKey: "" }
+    );
+    expect(await response.text()).toBe("<html>");
+  });
+});
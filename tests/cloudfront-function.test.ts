@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { buildCloudFrontFunction, CLOUDFRONT_ROUTING_HEADER } from "../src/cloudfront-function";
+import { SupertabConnect, defaultBotDetector } from "../src/index";
+import { EnforcementMode } from "../src/types";
+import type { CloudFrontRequestEvent } from "../src/types";
+import { loadCloudFrontFunction, viewerRequestEvent, CloudFrontFunctionRequest } from "./helpers/cloudfront-function";
+
+const BROWSER_UA =
+  "Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Safari/605.1.15";
+
+describe("buildCloudFrontFunction", () => {
+  const handler = loadCloudFrontFunction(buildCloudFrontFunction());
+
+  it("passes browser traffic through untouched", () => {
+    const request = handler(viewerRequestEvent({ headers: { "User-Agent": BROWSER_UA } }));
+    expect(request.headers[CLOUDFRONT_ROUTING_HEADER]).toBeUndefined();
+    expect(request.headers["x-original-request-url"]).toBeUndefined();
+  });
+
+  it("routes token-bearing requests to the verifier", () => {
+    const request = handler(
+      viewerRequestEvent({ headers: { "User-Agent": BROWSER_UA, Authorization: "License eyJhbGciOi" } })
+    );
+    expect(request.headers[CLOUDFRONT_ROUTING_HEADER]).toEqual({ value: "token" });
+    expect(request.headers["x-original-request-url"]).toEqual({ value: "example.com/news/a" });
+  });
+
+  it("routes bots matched by User-Agent or a Web Bot Auth signature", () => {
+    const byUa = handler(viewerRequestEvent({ headers: { "User-Agent": "Mozilla/5.0 (compatible; GPTBot/1.2)" } }));
+    expect(byUa.headers[CLOUDFRONT_ROUTING_HEADER]).toEqual({ value: "bot" });
+
+    const signed = handler(
+      viewerRequestEvent({ headers: { "User-Agent": BROWSER_UA, "Signature-Input": 'sig1=("@authority")' } })
+    );
+    expect(signed.headers[CLOUDFRONT_ROUTING_HEADER]).toEqual({ value: "bot" });
+  });
+
+  it("does not treat other Authorization schemes as a license token", () => {
+    const request = handler(viewerRequestEvent({ headers: { "User-Agent": BROWSER_UA, Authorization: "Bearer abc" } }));
+    expect(request.headers[CLOUDFRONT_ROUTING_HEADER]).toBeUndefined();
+  });
+
+  it("rewrites /license.xml only when licenseXmlUri is set", () => {
+    expect(handler(viewerRequestEvent({ uri: "/license.xml" })).uri).toBe("/license.xml");
+
+    const rewriting = loadCloudFrontFunction(buildCloudFrontFunction({ licenseXmlUri: "/static/license.xml" }));
+    const request = rewriting(viewerRequestEvent({ uri: "/license.xml", headers: { "User-Agent": "GPTBot/1.0" } }));
+    expect(request.uri).toBe("/static/license.xml");
+    expect(request.headers[CLOUDFRONT_ROUTING_HEADER]).toBeUndefined();
+  });
+
+  it("accepts a custom User-Agent list", () => {
+    const custom = loadCloudFrontFunction(buildCloudFrontFunction({ botUserAgents: ["ExampleCrawler"] }));
+    expect(custom(viewerRequestEvent({ headers: { "User-Agent": "examplecrawler/2" } })).headers).toHaveProperty(
+      CLOUDFRONT_ROUTING_HEADER
+    );
+    expect(custom(viewerRequestEvent({ headers: { "User-Agent": "GPTBot/1.0" } })).headers).not.toHaveProperty(
+      CLOUDFRONT_ROUTING_HEADER
+    );
+  });
+
+  it("fits CloudFront's 10 KB function size limit", () => {
+    expect(new TextEncoder().encode(buildCloudFrontFunction()).length).toBeLessThan(10 * 1024);
+    expect(() => buildCloudFrontFunction({ botUserAgents: Array(2000).fill("somebot") })).toThrow(/10240-byte limit/);
+  });
+});
+
+describe("CloudFront Function → Lambda@Edge verifier", () => {
+  beforeEach(() => SupertabConnect.resetInstance());
+  afterEach(() => SupertabConnect.resetInstance());
+
+  const handler = loadCloudFrontFunction(buildCloudFrontFunction());
+
+  // CloudFront hands the function's output to the origin-request trigger in the Lambda@Edge shape.
+  const originRequestEvent = (request: CloudFrontFunctionRequest): CloudFrontRequestEvent => ({
+    Records: [
+      {
+        cf: {
+          config: { requestId: "req-1" },
+          request: {
+            clientIp: "203.0.113.7",
+            method: request.method,
+            uri: request.uri,
+            querystring: "",
+            headers: Object.fromEntries(
+              Object.entries(request.headers).map(([name, { value }]) => [name, [{ key: name, value }]])
+            ),
+          },
+        },
+      },
+    ],
+  });
+
+  const verify = (request: CloudFrontFunctionRequest) =>
+    SupertabConnect.cloudfrontHandleRequests(originRequestEvent(request), {
+      apiKey: "merchant-key",
+      enforcement: EnforcementMode.ENFORCE,
+      botDetector: defaultBotDetector,
+    });
+
+  it("blocks a routed bot in ENFORCE mode", async () => {
+    const result = await verify(handler(viewerRequestEvent({ headers: { "User-Agent": "GPTBot/1.0" } })));
+    expect(result).toHaveProperty("status", "401");
+  });
+
+  it("skips verification for unrouted browser traffic", async () => {
+    const result = await verify(handler(viewerRequestEvent({ headers: { "User-Agent": BROWSER_UA } })));
+    expect(result).toHaveProperty("uri", "/news/a");
+  });
+});
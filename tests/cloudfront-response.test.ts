@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { applyCloudfrontSignalHeaders, CLOUDFRONT_SIGNAL_HEADER, handleCloudfrontRequest } from "../src/cdn";
+import { SupertabConnect, HandlerAction, EnforcementMode, defaultBotDetector } from "../src/index";
+import type {
+  CloudFrontHeaders,
+  CloudFrontRequestEvent,
+  CloudFrontRequestResult,
+  CloudFrontResponseEvent,
+} from "../src/types";
+
+type CloudFrontRequest = CloudFrontRequestEvent["Records"][number]["cf"]["request"];
+
+const originRequestEvent = (headers: Record<string, string> = {}): CloudFrontRequestEvent => {
+  const cfHeaders: CloudFrontHeaders = { host: [{ key: "Host", value: "example.com" }] };
+  for (const [key, value] of Object.entries(headers)) {
+    cfHeaders[key.toLowerCase()] = [{ key, value }];
+  }
+  return {
+    Records: [
+      {
+        cf: {
+          config: { requestId: "req-1" },
+          request: { uri: "/news/a", method: "GET", querystring: "", headers: cfHeaders, clientIp: "203.0.113.7" },
+        },
+      },
+    ],
+  };
+};
+
+// An allowed origin-request result is the request itself, passed through to the origin.
+const passedThrough = (result: CloudFrontRequestResult): CloudFrontRequest => {
+  if (!("uri" in result)) throw new Error("expected a pass-through request");
+  return result as CloudFrontRequest;
+};
+
+// CloudFront hands the origin-request trigger's output back in the origin-response event.
+const originResponseEvent = (request: CloudFrontRequest): CloudFrontResponseEvent => ({
+  Records: [
+    {
+      cf: {
+        config: { requestId: "req-1" },
+        request,
+        response: {
+          status: "200",
+          statusDescription: "OK",
+          headers: { "content-type": [{ key: "Content-Type", value: "text/html" }] },
+        },
+      },
+    },
+  ],
+});
+
+describe("CloudFront signal headers", () => {
+  const allowWithSignals = {
+    handleRequest: async () => ({
+      action: HandlerAction.ALLOW as const,
+      headers: { Link: '<https://example.com/license.xml>; rel="license"', "X-RSL-Status": "token_required" },
+    }),
+  };
+
+  it("carries ALLOW signal headers from origin-request to origin-response", async () => {
+    const forwarded = passedThrough(await handleCloudfrontRequest(allowWithSignals, originRequestEvent()));
+
+    const response = applyCloudfrontSignalHeaders(originResponseEvent(forwarded));
+    expect(response.headers.link).toEqual([{ key: "Link", value: '<https://example.com/license.xml>; rel="license"' }]);
+    expect(response.headers["x-rsl-status"]).toEqual([{ key: "X-RSL-Status", value: "token_required" }]);
+    expect(response.headers["content-type"]).toEqual([{ key: "Content-Type", value: "text/html" }]);
+  });
+
+  it("leaves the response alone when the request phase recorded nothing", async () => {
+    const forwarded = passedThrough(
+      await handleCloudfrontRequest(
+        { handleRequest: async () => ({ action: HandlerAction.ALLOW as const }) },
+        originRequestEvent()
+      )
+    );
+    expect(forwarded.headers[CLOUDFRONT_SIGNAL_HEADER]).toBeUndefined();
+
+    const response = applyCloudfrontSignalHeaders(originResponseEvent(forwarded));
+    expect(Object.keys(response.headers)).toEqual(["content-type"]);
+  });
+});
+
+describe("SupertabConnect.cloudfrontHandleResponse", () => {
+  beforeEach(() => SupertabConnect.resetInstance());
+  afterEach(() => SupertabConnect.resetInstance());
+
+  const options = { apiKey: "merchant-key", enforcement: EnforcementMode.OBSERVE, botDetector: defaultBotDetector };
+
+  it("delivers the OBSERVE-mode licensing signal to bots", async () => {
+    const forwarded = passedThrough(
+      await SupertabConnect.cloudfrontHandleRequests(
+        originRequestEvent({ "User-Agent": "GPTBot/1.0", "x-license-auth": "bot" }),
+        options
+      )
+    );
+    const response = await SupertabConnect.cloudfrontHandleResponse(originResponseEvent(forwarded));
+    expect(response.headers["x-rsl-status"]?.[0].value).toBe("token_required");
+    expect(response.headers.link?.[0].value).toContain("https://example.com/license.xml");
+  });
+
+  it("drops a signal header supplied by the viewer", async () => {
+    const forwarded = passedThrough(
+      await SupertabConnect.cloudfrontHandleRequests(
+        originRequestEvent({ [CLOUDFRONT_SIGNAL_HEADER]: JSON.stringify({ "Set-Cookie": "session=attacker" }) }),
+        options
+      )
+    );
+    const response = await SupertabConnect.cloudfrontHandleResponse(originResponseEvent(forwarded));
+    expect(response.headers["set-cookie"]).toBeUndefined();
+  });
+
+  it("fails open on a malformed signal header", async () => {
+    const request = originRequestEvent({ [CLOUDFRONT_SIGNAL_HEADER]: "{not json" }).Records[0].cf.request;
+    const event = originResponseEvent(request);
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await SupertabConnect.cloudfrontHandleResponse(event)).toBe(event.Records[0].cf.response);
+    errorSpy.mockRestore();
+  });
+});
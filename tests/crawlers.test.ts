@@ -0,0 +1,295 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  ipInRanges,
+  parseCidr,
+  parsePublishedRanges,
+  reverseDnsName,
+  verifyCrawler,
+  isExemptCrawler,
+  DohDnsResolver,
+  clearCrawlerRangeMemo,
+} from "../src/crawlers";
+import type { DnsResolver, IpRange } from "../src/crawlers";
+import { getCacheStore, resetCacheStore } from "../src/cache";
+import { SupertabConnect, HandlerAction } from "../src/index";
+import { EnforcementMode } from "../src/types";
+import { RecordingTransport } from "./helpers/status";
+
+const GOOGLEBOT_UA = "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)";
+const GPTBOT_UA = "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; GPTBot/1.2; +https://openai.com/gptbot)";
+const URL_NEWS = "https://example.com/news/a";
+
+const request = (userAgent: string) => new Request(URL_NEWS, { headers: { "User-Agent": userAgent } });
+const ranges = (...cidrs: string[]) => cidrs.map(parseCidr) as IpRange[];
+
+describe("ip ranges", () => {
+  it("matches IPv4 CIDR blocks", () => {
+    const blocks = ranges("66.249.64.0/19");
+    expect(ipInRanges("66.249.66.1", blocks)).toBe(true);
+    expect(ipInRanges("66.249.96.1", blocks)).toBe(false);
+    expect(ipInRanges("::ffff:66.249.66.1", blocks)).toBe(true);
+  });
+
+  it("matches IPv6 CIDR blocks", () => {
+    const blocks = ranges("2001:4860:4801:10::/64");
+    expect(ipInRanges("2001:4860:4801:10::1", blocks)).toBe(true);
+    expect(ipInRanges("2001:4860:4801:11::1", blocks)).toBe(false);
+  });
+
+  it("rejects malformed input", () => {
+    expect(parseCidr("66.249.64.0/33")).toBeNull();
+    expect(parseCidr("not-an-ip/8")).toBeNull();
+    expect(ipInRanges("999.1.1.1", ranges("0.0.0.0/0"))).toBe(false);
+  });
+
+  it("reads the published prefixes format", () => {
+    expect(
+      parsePublishedRanges({
+        creationTime: "2026-01-01T00:00:00",
+        prefixes: [{ ipv4Prefix: "66.249.64.0/27" }, { ipv6Prefix: "2001:4860:4801:10::/64" }, {}],
+      })
+    ).toEqual(["66.249.64.0/27", "2001:4860:4801:10::/64"]);
+    expect(parsePublishedRanges("garbage")).toEqual([]);
+  });
+});
+
+describe("reverseDnsName", () => {
+  it("builds PTR names", () => {
+    expect(reverseDnsName("66.249.66.1")).toBe("1.66.249.66.in-addr.arpa");
+    expect(reverseDnsName("2001:db8::1")).toBe(
+      "1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa"
+    );
+  });
+});
+
+describe("verifyCrawler", () => {
+  beforeEach(() => {
+    resetCacheStore();
+    clearCrawlerRangeMemo();
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it("returns null when the User-Agent claims no known crawler", async () => {
+    expect(await verifyCrawler(request("curl/8.0"), "66.249.66.1", {})).toBeNull();
+  });
+
+  it("verifies a claim from the bundled ranges", async () => {
+    expect(await verifyCrawler(request(GOOGLEBOT_UA), "66.249.66.1", {})).toEqual({
+      id: "googlebot",
+      operator: "Google",
+      category: "search",
+      verified: true,
+      method: "ip_range",
+    });
+  });
+
+  it("verifies OpenAI and Perplexity claims from the bundled ranges without a refresh", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    expect(await verifyCrawler(request(GPTBOT_UA), "20.171.206.10", {})).toMatchObject({
+      id: "gptbot",
+      verified: true,
+    });
+    expect(
+      await verifyCrawler(request("Mozilla/5.0 (compatible; PerplexityBot/1.0)"), "18.97.9.100", {})
+    ).toMatchObject({ id: "perplexitybot", verified: true });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("flags a spoofed claim as unverified", async () => {
+    expect(await verifyCrawler(request(GOOGLEBOT_UA), "203.0.113.7", {})).toMatchObject({
+      id: "googlebot",
+      verified: false,
+      method: null,
+    });
+    expect(await verifyCrawler(request(GOOGLEBOT_UA), undefined, {})).toMatchObject({ verified: false });
+  });
+
+  it("refreshes published ranges once and caches them", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(
+      async () => new Response(JSON.stringify({ prefixes: [{ ipv4Prefix: "198.51.100.0/24" }] }))
+    );
+    const options = { refreshRanges: true };
+    expect(await verifyCrawler(request(GPTBOT_UA), "198.51.100.9", options)).toMatchObject({
+      id: "gptbot",
+      verified: true,
+    });
+    expect(await verifyCrawler(request(GPTBOT_UA), "198.51.100.10", options)).toMatchObject({ verified: true });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(fetchSpy.mock.calls[0][0]).toBe("https://openai.com/gptbot.json");
+  });
+
+  it("keeps the bundled ranges when a refresh fails", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("", { status: 503 }));
+    expect(await verifyCrawler(request(GOOGLEBOT_UA), "66.249.66.1", { refreshRanges: true })).toMatchObject({
+      verified: true,
+    });
+  });
+
+  it("reuses the parsed ranges without re-reading the cache store", async () => {
+    vi.spyOn(globalThis, "fetch").mockImplementation(
+      async () => new Response(JSON.stringify({ prefixes: [{ ipv4Prefix: "198.51.100.0/24" }] }))
+    );
+    const getSpy = vi.spyOn(getCacheStore(), "get");
+    const options = { refreshRanges: true };
+    await verifyCrawler(request(GPTBOT_UA), "198.51.100.9", options);
+    await verifyCrawler(request(GPTBOT_UA), "198.51.100.10", options);
+    expect(getSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not refetch a failed range file until the retry delay passes", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const fetchSpy = vi
+        .spyOn(globalThis, "fetch")
+        .mockImplementation(async () => new Response("", { status: 503 }));
+      const options = { refreshRanges: true };
+      await verifyCrawler(request(GPTBOT_UA), "198.51.100.9", options);
+      await verifyCrawler(request(GPTBOT_UA), "198.51.100.9", options);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+      await verifyCrawler(request(GPTBOT_UA), "198.51.100.9", options);
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  describe("reverse DNS", () => {
+    const resolver = (ptr: string[], addresses: string[]): DnsResolver => ({
+      reverse: vi.fn(async () => ptr),
+      forward: vi.fn(async () => addresses),
+    });
+
+    it("verifies with a forward-confirmed hostname under a documented suffix", async () => {
+      const dns = resolver(["crawl-203-0-113-7.googlebot.com"], ["203.0.113.7"]);
+      expect(await verifyCrawler(request(GOOGLEBOT_UA), "203.0.113.7", { dnsResolver: dns })).toMatchObject({
+        verified: true,
+        method: "reverse_dns",
+      });
+      // The outcome is cached, so a repeat request does not hit DNS again.
+      await verifyCrawler(request(GOOGLEBOT_UA), "203.0.113.7", { dnsResolver: dns });
+      expect(dns.reverse).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects a foreign suffix or a forward mismatch", async () => {
+      expect(
+        await verifyCrawler(request(GOOGLEBOT_UA), "203.0.113.7", {
+          dnsResolver: resolver(["googlebot.com.evil.test"], ["203.0.113.7"]),
+        })
+      ).toMatchObject({ verified: false });
+      expect(
+        await verifyCrawler(request(GOOGLEBOT_UA), "203.0.113.8", {
+          dnsResolver: resolver(["crawl.googlebot.com"], ["203.0.113.99"]),
+        })
+      ).toMatchObject({ verified: false });
+    });
+
+    it("remembers failed confirmations in-process without writing to the shared store", async () => {
+      const setSpy = vi.spyOn(getCacheStore(), "set");
+      const dns = resolver(["host.evil.test"], ["203.0.113.7"]);
+      await verifyCrawler(request(GOOGLEBOT_UA), "203.0.113.7", { dnsResolver: dns });
+      await verifyCrawler(request(GOOGLEBOT_UA), "203.0.113.7", { dnsResolver: dns });
+      expect(dns.reverse).toHaveBeenCalledTimes(1);
+      expect(setSpy).not.toHaveBeenCalled();
+    });
+
+    it("caps DNS lookups per minute for IP-rotating claims", async () => {
+      const dns = resolver([], []);
+      for (let i = 0; i < 70; i++) {
+        await verifyCrawler(request(GOOGLEBOT_UA), `203.0.113.${i}`, { dnsResolver: dns });
+      }
+      expect(dns.reverse).toHaveBeenCalledTimes(60);
+    });
+
+    it("fails open to unverified when the resolver throws", async () => {
+      const dns: DnsResolver = { reverse: () => Promise.reject(new Error("down")), forward: async () => [] };
+      expect(await verifyCrawler(request(GOOGLEBOT_UA), "203.0.113.7", { dnsResolver: dns })).toMatchObject({
+        verified: false,
+      });
+    });
+  });
+
+  it("DohDnsResolver queries the JSON API", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(
+      async () =>
+        new Response(JSON.stringify({ Answer: [{ type: 12, data: "crawl-66-249-66-1.googlebot.com." }] }))
+    );
+    expect(await new DohDnsResolver().reverse("66.249.66.1")).toEqual(["crawl-66-249-66-1.googlebot.com"]);
+    expect(fetchSpy.mock.calls[0][0]).toBe(
+      "https://cloudflare-dns.com/dns-query?name=1.66.249.66.in-addr.arpa&type=PTR"
+    );
+  });
+});
+
+describe("isExemptCrawler", () => {
+  const googlebot = { id: "googlebot", operator: "Google", category: "search" as const, verified: true, method: "ip_range" as const };
+
+  it("matches by id or category, verified crawlers only", () => {
+    expect(isExemptCrawler(googlebot, { exempt: ["search"] })).toBe(true);
+    expect(isExemptCrawler(googlebot, { exempt: ["googlebot"] })).toBe(true);
+    expect(isExemptCrawler(googlebot, { exempt: ["ai"] })).toBe(false);
+    expect(isExemptCrawler({ ...googlebot, verified: false }, { exempt: ["search"] })).toBe(false);
+    expect(isExemptCrawler(null, { exempt: ["search"] })).toBe(false);
+  });
+});
+
+describe("SupertabConnect.handleRequest with verifiedCrawlers", () => {
+  beforeEach(() => {
+    SupertabConnect.resetInstance();
+    resetCacheStore();
+  });
+  afterEach(() => SupertabConnect.resetInstance());
+
+  const sdk = (transport: RecordingTransport) =>
+    new SupertabConnect({
+      apiKey: "merchant-key",
+      enforcement: EnforcementMode.ENFORCE,
+      verifiedCrawlers: { exempt: ["search"] },
+      botDetector: (_request, _ctx, signals) => signals?.crawler != null,
+      analyticsTransport: transport,
+    });
+
+  it("lets an exempt verified crawler through and records it", async () => {
+    const transport = new RecordingTransport();
+    const result = await sdk(transport).handleRequest(request(GOOGLEBOT_UA), { clientIp: "66.249.66.1" });
+    expect(result).toEqual({ action: HandlerAction.ALLOW });
+    expect(transport.events[0]).toMatchObject({
+      final_action: "allow",
+      crawler_id: "googlebot",
+      crawler_verified: true,
+    });
+  });
+
+  it("blocks a spoofed crawler as a bot", async () => {
+    const transport = new RecordingTransport();
+    const result = await sdk(transport).handleRequest(request(GOOGLEBOT_UA), { clientIp: "203.0.113.7" });
+    expect(result).toMatchObject({ action: HandlerAction.BLOCK, status: 401 });
+    expect(transport.events[0]).toMatchObject({ crawler_id: "googlebot", crawler_verified: false });
+  });
+
+  it("does not treat a crawler claim as a bot without a detector", async () => {
+    const instance = new SupertabConnect({
+      apiKey: "merchant-key",
+      enforcement: EnforcementMode.ENFORCE,
+      verifiedCrawlers: {},
+      analyticsTransport: new RecordingTransport(),
+    });
+    const result = await instance.handleRequest(request(GOOGLEBOT_UA), { clientIp: "203.0.113.7" });
+    expect(result).toEqual({ action: HandlerAction.ALLOW });
+  });
+
+  it("passes the crawler to a custom bot detector", async () => {
+    const botDetector = vi.fn(() => false);
+    const instance = new SupertabConnect({
+      apiKey: "merchant-key",
+      verifiedCrawlers: {},
+      botDetector,
+      analyticsTransport: new RecordingTransport(),
+    });
+    await instance.handleRequest(request(GOOGLEBOT_UA), { clientIp: "66.249.66.1" });
+    expect(botDetector).toHaveBeenCalledWith(expect.any(Request), undefined, {
+      crawler: expect.objectContaining({ id: "googlebot", verified: true }),
+    });
+  });
+});
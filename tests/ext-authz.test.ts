@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { checkEnvoyRequest, envoyCheckToRequest, envoyHttpCheckRequest, startExtAuthzServer } from "../src/server";
+import { SupertabConnect } from "../src/index";
+import { EnforcementMode } from "../src/types";
+import { RecordingTransport } from "./helpers/status";
+import { envoyCheckRequest } from "./helpers/envoy";
+
+const sdk = (enforcement: EnforcementMode) =>
+  new SupertabConnect({
+    apiKey: "merchant-key",
+    enforcement,
+    botDetector: (request) => (request.headers.get("User-Agent") ?? "").includes("GPTBot"),
+    analyticsTransport: new RecordingTransport(),
+  });
+
+describe("envoyCheckToRequest", () => {
+  it("maps the check request onto Request and HandleRequestContext", () => {
+    const { request, context } = envoyCheckToRequest(envoyCheckRequest());
+    expect(request.url).toBe("https://example.com/news/a?page=2");
+    expect(request.method).toBe("GET");
+    expect(request.headers.get("user-agent")).toBe("GPTBot/1.0");
+    expect([...request.headers.keys()].some((name) => name.startsWith(":"))).toBe(false);
+    expect(context).toEqual({ clientIp: "203.0.113.7", requestId: "10520328722232349431" });
+  });
+});
+
+describe("envoyHttpCheckRequest", () => {
+  it("strips the path prefix and reads the client address from Envoy headers", () => {
+    const check = envoyHttpCheckRequest(
+      {
+        method: "GET",
+        url: "/ext_authz/news/a",
+        headers: { host: "example.com", "x-envoy-external-address": "198.51.100.1", "x-forwarded-proto": "https" },
+      },
+      "/ext_authz"
+    );
+    expect(check.attributes.request.http).toMatchObject({ path: "/news/a", host: "example.com", scheme: "https" });
+    expect(check.attributes.source?.address?.socketAddress?.address).toBe("198.51.100.1");
+  });
+
+  it("falls back to the rightmost x-forwarded-for entry", () => {
+    const check = envoyHttpCheckRequest({
+      method: "GET",
+      url: "/news/a",
+      headers: { host: "example.com", "x-forwarded-for": "66.249.66.1, 198.51.100.1" },
+    });
+    expect(check.attributes.source?.address?.socketAddress?.address).toBe("198.51.100.1");
+  });
+});
+
+describe("checkEnvoyRequest", () => {
+  beforeEach(() => SupertabConnect.resetInstance());
+  afterEach(() => SupertabConnect.resetInstance());
+
+  it("denies with the block status, body and headers", async () => {
+    const result = await checkEnvoyRequest(sdk(EnforcementMode.ENFORCE), envoyCheckRequest());
+    expect(result).toMatchObject({ allowed: false, status: 401 });
+    if (result.allowed) throw new Error("expected a denial");
+    expect(result.headers["WWW-Authenticate"]).toContain("License");
+    expect(result.body).not.toBe("");
+  });
+
+  it("allows with signal headers as mutations", async () => {
+    const result = await checkEnvoyRequest(sdk(EnforcementMode.OBSERVE), envoyCheckRequest());
+    expect(result.allowed).toBe(true);
+    expect(result.headers.Link).toContain("https://example.com/license.xml");
+  });
+
+  it("allows a human without headers", async () => {
+    const result = await checkEnvoyRequest(
+      sdk(EnforcementMode.ENFORCE),
+      envoyCheckRequest({ headers: { "user-agent": "Mozilla/5.0" } })
+    );
+    expect(result).toEqual({ allowed: true, headers: {} });
+  });
+
+  it("allows unless failOpen is false when handleRequest throws", async () => {
+    const throwing = { handleRequest: () => Promise.reject(new Error("boom")) };
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    expect(await checkEnvoyRequest(throwing, envoyCheckRequest())).toEqual({ allowed: true, headers: {} });
+    expect(await checkEnvoyRequest(throwing, envoyCheckRequest(), false)).toMatchObject({ allowed: false, status: 503 });
+    consoleError.mockRestore();
+  });
+});
+
+describe("startExtAuthzServer", () => {
+  let server: Server;
+
+  beforeEach(() => SupertabConnect.resetInstance());
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    SupertabConnect.resetInstance();
+  });
+
+  it("answers Envoy's HTTP authorization request", async () => {
+    server = await startExtAuthzServer({
+      apiKey: "merchant-key",
+      enforcement: EnforcementMode.ENFORCE,
+      botDetector: (request) => (request.headers.get("User-Agent") ?? "").includes("GPTBot"),
+      analyticsTransport: new RecordingTransport(),
+      port: 0,
+      pathPrefix: "/ext_authz",
+    });
+    const { port } = server.address() as AddressInfo;
+    const call = (userAgent: string) =>
+      fetch(`http://127.0.0.1:${port}/ext_authz/news/a`, {
+        headers: { "User-Agent": userAgent, "X-Forwarded-Proto": "https", "X-Envoy-External-Address": "203.0.113.7" },
+      });
+
+    const denied = await call("GPTBot/1.0");
+    expect(denied.status).toBe(401);
+    expect(denied.headers.get("www-authenticate")).toContain("License");
+    expect((await call("Mozilla/5.0")).status).toBe(200);
+  });
+
+  it("denies with 503 under ENFORCE when handleRequest throws", async () => {
+    vi.spyOn(SupertabConnect.prototype, "handleRequest").mockRejectedValue(new Error("boom"));
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    try {
+      server = await startExtAuthzServer({ apiKey: "merchant-key", enforcement: EnforcementMode.ENFORCE, port: 0 });
+      const { port } = server.address() as AddressInfo;
+      expect((await fetch(`http://127.0.0.1:${port}/news/a`)).status).toBe(503);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+});
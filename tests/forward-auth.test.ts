@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { forwardAuthClientIp, forwardAuthRequest, startForwardAuthServer } from "../src/server";
+import { SupertabConnect } from "../src/index";
+import { EnforcementMode } from "../src/types";
+import { RecordingTransport } from "./helpers/status";
+
+describe("forwardAuthRequest", () => {
+  it("rebuilds the original request from nginx headers", () => {
+    const request = forwardAuthRequest({
+      method: "GET",
+      url: "/auth",
+      headers: {
+        host: "auth.internal:8080",
+        "x-original-uri": "/news/a?page=2",
+        "x-original-method": "HEAD",
+        "x-forwarded-proto": "https",
+        "x-forwarded-host": "example.com",
+        "x-real-ip": "203.0.113.7",
+      },
+    });
+    expect(request.url).toBe("https://example.com/news/a?page=2");
+    expect(request.method).toBe("HEAD");
+    expect(request.headers.get("host")).toBe("example.com");
+  });
+
+  it("rebuilds the original request from Traefik/Caddy headers", () => {
+    const req = {
+      method: "GET",
+      url: "/",
+      headers: {
+        host: "auth:8080",
+        "x-forwarded-uri": "/news/b",
+        "x-forwarded-method": "POST",
+        "x-forwarded-proto": "http",
+        "x-forwarded-host": "example.com",
+        "x-forwarded-for": "66.249.66.1, 198.51.100.1",
+      },
+    };
+    const request = forwardAuthRequest(req);
+    expect(request.url).toBe("http://example.com/news/b");
+    expect(request.method).toBe("POST");
+    expect(forwardAuthClientIp(req)).toBe("198.51.100.1");
+  });
+});
+
+describe("startForwardAuthServer", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const start = async (enforcement: EnforcementMode, failOpen?: boolean) => {
+    server = await startForwardAuthServer({
+      apiKey: "merchant-key",
+      enforcement,
+      botDetector: (request) => (request.headers.get("User-Agent") ?? "").includes("GPTBot"),
+      analyticsTransport: new RecordingTransport(),
+      port: 0,
+      failOpen,
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+  const check = (userAgent: string) =>
+    fetch(`${baseUrl}/auth`, {
+      headers: {
+        "User-Agent": userAgent,
+        "X-Original-URI": "/news/a",
+        "X-Forwarded-Proto": "https",
+        "X-Forwarded-Host": "example.com",
+      },
+    });
+
+  beforeEach(() => SupertabConnect.resetInstance());
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    vi.restoreAllMocks();
+    SupertabConnect.resetInstance();
+  });
+
+  it("answers 200 for a request that may proceed", async () => {
+    await start(EnforcementMode.ENFORCE);
+    expect((await check("Mozilla/5.0")).status).toBe(200);
+  });
+
+  it("answers the block status with WWW-Authenticate", async () => {
+    await start(EnforcementMode.ENFORCE);
+    const response = await check("GPTBot/1.0");
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toContain("License");
+    expect(await response.text()).not.toBe("");
+  });
+
+  it("returns the signal headers for the proxy to copy in OBSERVE mode", async () => {
+    await start(EnforcementMode.OBSERVE);
+    const response = await check("GPTBot/1.0");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("link")).toContain("https://example.com/license.xml");
+  });
+
+  it("answers a status probe routed to it directly rather than as a subrequest", async () => {
+    await start(EnforcementMode.ENFORCE);
+    const response = await fetch(`${baseUrl}/.well-known/supertab/status`);
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ supertab: true });
+  });
+
+  describe("when handleRequest throws", () => {
+    beforeEach(() => {
+      vi.spyOn(SupertabConnect.prototype, "handleRequest").mockRejectedValue(new Error("boom"));
+      vi.spyOn(console, "error").mockImplementation(() => undefined);
+    });
+
+    it("answers 503 under ENFORCE", async () => {
+      await start(EnforcementMode.ENFORCE);
+      expect((await check("GPTBot/1.0")).status).toBe(503);
+    });
+
+    it("answers 200 in OBSERVE mode or with failOpen", async () => {
+      await start(EnforcementMode.OBSERVE);
+      expect((await check("GPTBot/1.0")).status).toBe(200);
+      await new Promise((resolve) => server.close(resolve));
+      SupertabConnect.resetInstance();
+      await start(EnforcementMode.ENFORCE, true);
+      expect((await check("GPTBot/1.0")).status).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import type {
+  AkamaiClientRequest,
+  AkamaiClientResponse,
+  AkamaiHttpRequest,
+  AkamaiUserLocation,
+} from "../../src/types";
+
+/**
+ * In-memory stand-in for EW.IngressClientRequest. Header names are lowercased, as EdgeWorkers
+ * reports them; `respondWith` and `setVariable` calls are recorded for assertions.
+ */
+export class FakeAkamaiRequest implements AkamaiClientRequest {
+  readonly scheme = "https";
+  readonly host = "example.com";
+  readonly method: string;
+  readonly url: string;
+  readonly clientIp?: string;
+  readonly userLocation?: AkamaiUserLocation;
+  readonly variables = new Map<string, string>();
+  responded: { status: number; headers: Record<string, string | string[]>; body: string } | null = null;
+  private readonly headers: Record<string, string[]>;
+
+  constructor(
+    init: {
+      method?: string;
+      url?: string;
+      headers?: Record<string, string>;
+      clientIp?: string;
+      userLocation?: AkamaiUserLocation;
+    } = {}
+  ) {
+    this.method = init.method ?? "GET";
+    this.url = init.url ?? "/news/a?page=2";
+    this.clientIp = init.clientIp;
+    this.userLocation = init.userLocation;
+    this.headers = { host: [this.host] };
+    for (const [name, value] of Object.entries(init.headers ?? {})) {
+      this.headers[name.toLowerCase()] = [value];
+    }
+  }
+
+  getHeaders(): Record<string, string[]> {
+    return this.headers;
+  }
+
+  getHeader(name: string): string[] | null {
+    return this.headers[name.toLowerCase()] ?? null;
+  }
+
+  getVariable(name: string): string | undefined {
+    return this.variables.get(name);
+  }
+
+  setVariable(name: string, value: string): void {
+    this.variables.set(name, value);
+  }
+
+  respondWith(status: number, headers: Record<string, string | string[]>, body: string): void {
+    this.responded = { status, headers, body };
+  }
+}
+
+/** Stand-in for EW.EgressClientResponse that records the headers set on it. */
+export class FakeAkamaiResponse implements AkamaiClientResponse {
+  readonly headers: Record<string, string | string[]> = {};
+
+  setHeader(name: string, value: string | string[]): void {
+    this.headers[name] = value;
+  }
+}
+
+/**
+ * Stand-in for the `http-request` built-in: answers from `routes` by URL and records each call.
+ * Unknown URLs get a 404, as an unconfigured origin would.
+ */
+export function fakeHttpRequest(routes: Record<string, unknown>) {
+  const calls: Array<{ url: string; options?: Parameters<AkamaiHttpRequest>[1] }> = [];
+  const httpRequest: AkamaiHttpRequest = async (url, options) => {
+    calls.push({ url, options });
+    const found = url in routes;
+    const body = found ? JSON.stringify(routes[url]) : "";
+    return {
+      status: found ? 200 : 404,
+      ok: found,
+      getHeader: (name) => (name.toLowerCase() === "content-type" && found ? ["application/json"] : null),
+      text: async () => body,
+      json: async () => JSON.parse(body),
+    };
+  };
+  return { httpRequest, calls };
+}
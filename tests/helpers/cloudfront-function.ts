@@ -0,0 +1,48 @@
+import { runInNewContext } from "node:vm";
+
+export interface CloudFrontFunctionRequest {
+  method: string;
+  uri: string;
+  querystring: Record<string, { value: string }>;
+  headers: Record<string, { value: string }>;
+  cookies: Record<string, { value: string }>;
+}
+
+export interface CloudFrontFunctionEvent {
+  version: "1.0";
+  context: { distributionDomainName: string; distributionId: string; eventType: "viewer-request"; requestId: string };
+  viewer: { ip: string };
+  request: CloudFrontFunctionRequest;
+}
+
+/**
+ * Evaluate generated CloudFront Function source in an isolated context, as the CloudFront Functions
+ * runtime does (no module system, no Node globals), and return its `handler`.
+ */
+export function loadCloudFrontFunction(source: string): (event: CloudFrontFunctionEvent) => CloudFrontFunctionRequest {
+  return runInNewContext(`${source}\nhandler;`, Object.create(null), { timeout: 1000 });
+}
+
+/** A viewer-request event as CloudFront Functions delivers it; header names are lowercase. */
+export function viewerRequestEvent(
+  overrides: { uri?: string; headers?: Record<string, string> } = {}
+): CloudFrontFunctionEvent {
+  const headers: Record<string, { value: string }> = {
+    host: { value: "example.com" },
+    accept: { value: "text/html" },
+  };
+  for (const [name, value] of Object.entries(overrides.headers ?? {})) {
+    headers[name.toLowerCase()] = { value };
+  }
+  return {
+    version: "1.0",
+    context: {
+      distributionDomainName: "d111111abcdef8.cloudfront.net",
+      distributionId: "EDFDVBD6EXAMPLE",
+      eventType: "viewer-request",
+      requestId: "4TyzHTaYWb1GX1qTfsHhEqV6HUDd_BzoBZnwfnvQc_1oF26ClkoUSEQ==",
+    },
+    viewer: { ip: "203.0.113.7" },
+    request: { method: "GET", uri: overrides.uri ?? "/news/a", querystring: {}, headers, cookies: {} },
+  };
+}
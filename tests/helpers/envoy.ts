@@ -0,0 +1,28 @@
+import type { EnvoyCheckRequest } from "../../src/server";
+
+/** A CheckRequest as Envoy sends it for a crawler fetching an article (trimmed to the fields the SDK reads). */
+export function envoyCheckRequest(overrides: { path?: string; headers?: Record<string, string> } = {}): EnvoyCheckRequest {
+  return {
+    attributes: {
+      source: { address: { socketAddress: { address: "203.0.113.7", portValue: 51234 } } },
+      request: {
+        http: {
+          id: "10520328722232349431",
+          method: "GET",
+          path: overrides.path ?? "/news/a?page=2",
+          host: "example.com",
+          scheme: "https",
+          headers: {
+            ":authority": "example.com",
+            ":method": "GET",
+            ":path": overrides.path ?? "/news/a?page=2",
+            "user-agent": "GPTBot/1.0",
+            "x-forwarded-proto": "https",
+            "x-request-id": "0f9b9d2c-5d2e-4d8e-9f0a-7c1e2b3a4d5e",
+            ...overrides.headers,
+          },
+        },
+      },
+    },
+  };
+}
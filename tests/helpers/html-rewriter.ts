@@ -0,0 +1,35 @@
+import type { HTMLRewriterElementLike, HTMLRewriterLike } from "../../src/types";
+
+/**
+ * Minimal stand-in for the Workers HTMLRewriter: supports element selectors by tag name and
+ * `append(..., { html: true })`, which inserts before the element's closing tag.
+ */
+export class FakeHTMLRewriter implements HTMLRewriterLike {
+  private readonly handlers: Array<{ tag: string; element?(element: HTMLRewriterElementLike): void }> = [];
+
+  on(selector: string, handlers: { element?(element: HTMLRewriterElementLike): void }): HTMLRewriterLike {
+    this.handlers.push({ tag: selector, ...handlers });
+    return this;
+  }
+
+  transform(response: Response): Response {
+    const rewrite = async () => {
+      let html = await response.text();
+      for (const { tag, element } of this.handlers) {
+        const close = html.indexOf(`</${tag}>`);
+        if (close === -1 || !element) continue;
+        const appended: string[] = [];
+        element({ append: (content) => void appended.push(content) });
+        html = html.slice(0, close) + appended.join("") + html.slice(close);
+      }
+      return html;
+    };
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        controller.enqueue(new TextEncoder().encode(await rewrite()));
+        controller.close();
+      },
+    });
+    return new Response(body, response);
+  }
+}
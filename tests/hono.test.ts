@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { honoClientIp } from "../src/hono";
+import { SupertabConnect, HandlerAction } from "../src/index";
+import { EnforcementMode } from "../src/types";
+import type { HonoContextLike } from "../src/types";
+import { RecordingTransport } from "./helpers/status";
+
+const botRequest = (headers: Record<string, string> = {}) =>
+  new Request("https://example.com/news/a", { headers: { "User-Agent": "GPTBot/1.0", ...headers } });
+
+function context(request: Request, extra: { env?: unknown; executionCtx?: unknown } = {}): HonoContextLike {
+  return {
+    req: { raw: request },
+    env: extra.env,
+    get executionCtx() {
+      // Like Hono, throw when the runtime has no execution context.
+      if (!extra.executionCtx) throw new Error("This context has no ExecutionContext");
+      return extra.executionCtx as HonoContextLike["executionCtx"];
+    },
+    res: new Response(null, { status: 404 }),
+  };
+}
+
+describe("honoClientIp", () => {
+  it("prefers getConnInfo, then the runtime's own sources", () => {
+    const getConnInfo = () => ({ remote: { address: "198.51.100.1" } });
+    expect(honoClientIp(context(botRequest()), getConnInfo)).toBe("198.51.100.1");
+    expect(honoClientIp(context(botRequest(), { env: { requestIP: () => ({ address: "192.0.2.1" }) } }))).toBe(
+      "192.0.2.1"
+    );
+    expect(honoClientIp(context(botRequest(), { env: { remoteAddr: { hostname: "192.0.2.2" } } }))).toBe("192.0.2.2");
+    expect(honoClientIp(context(botRequest()))).toBeUndefined();
+  });
+
+  it("trusts CF-Connecting-IP only on Workers", () => {
+    const spoofed = botRequest({ "CF-Connecting-IP": "66.249.66.1" });
+    expect(honoClientIp(context(spoofed))).toBeUndefined();
+    expect(
+      honoClientIp(context(spoofed, { env: { requestIP: () => ({ address: "192.0.2.1" }) } }))
+    ).toBe("192.0.2.1");
+
+    vi.stubGlobal("navigator", { userAgent: "Cloudflare-Workers" });
+    try {
+      expect(honoClientIp(context(botRequest({ "CF-Connecting-IP": "203.0.113.7" }), { env: {} }))).toBe(
+        "203.0.113.7"
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe("SupertabConnect.honoMiddleware", () => {
+  beforeEach(() => SupertabConnect.resetInstance());
+  afterEach(() => {
+    vi.restoreAllMocks();
+    SupertabConnect.resetInstance();
+  });
+
+  const middleware = (enforcement: EnforcementMode, failOpen?: boolean) =>
+    SupertabConnect.honoMiddleware({
+      apiKey: "merchant-key",
+      enforcement,
+      botDetector: () => true,
+      analyticsTransport: new RecordingTransport(),
+      failOpen,
+    });
+
+  it("returns the block response without calling next", async () => {
+    const next = vi.fn(async () => undefined);
+    const response = await middleware(EnforcementMode.ENFORCE)(context(botRequest()), next);
+    expect(response?.status).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("merges the signal headers into the downstream response", async () => {
+    const c = context(botRequest());
+    const next = vi.fn(async () => {
+      c.res = new Response("article", { headers: { "Content-Type": "text/html" } });
+    });
+    expect(await middleware(EnforcementMode.OBSERVE)(c, next)).toBeUndefined();
+    expect(await c.res.text()).toBe("article");
+    expect(c.res.headers.get("Content-Type")).toBe("text/html");
+    expect(c.res.headers.get("Link")).toContain("license.xml");
+  });
+
+  it("passes executionCtx where the runtime provides one", async () => {
+    const handleRequest = vi
+      .spyOn(SupertabConnect.prototype, "handleRequest")
+      .mockResolvedValue({ action: HandlerAction.ALLOW });
+    const executionCtx = { waitUntil: vi.fn() };
+    const next = async () => undefined;
+
+    await middleware(EnforcementMode.OBSERVE)(context(botRequest(), { executionCtx }), next);
+    expect(handleRequest.mock.calls[0][1]).toMatchObject({ ctx: executionCtx });
+
+    await middleware(EnforcementMode.OBSERVE)(context(botRequest()), next);
+    expect(handleRequest.mock.calls[1][1]?.ctx).toBeUndefined();
+  });
+
+  it("returns 503 under ENFORCE when handleRequest throws, and calls next with failOpen", async () => {
+    vi.spyOn(SupertabConnect.prototype, "handleRequest").mockRejectedValue(new Error("boom"));
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const next = vi.fn(async () => undefined);
+
+    expect((await middleware(EnforcementMode.ENFORCE)(context(botRequest()), next))?.status).toBe(503);
+    expect(next).not.toHaveBeenCalled();
+
+    SupertabConnect.resetInstance();
+    expect(await middleware(EnforcementMode.ENFORCE, true)(context(botRequest()), next)).toBeUndefined();
+    expect(next).toHaveBeenCalledOnce();
+  });
+});
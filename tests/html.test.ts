@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { allowedLicenseStatus, injectLicenseLink } from "../src/html";
+import { SupertabConnect } from "../src/index";
+import { EnforcementMode, HandlerAction } from "../src/types";
+import { FakeHTMLRewriter } from "./helpers/html-rewriter";
+import { makeCtx } from "./helpers/status";
+
+const PAGE = "<!doctype html><html><head><title>A</title></head><body>Story</body></html>";
+const URL_NEWS = "https://example.com/news/a";
+const htmlResponse = () => new Response(PAGE, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+
+describe("injectLicenseLink", () => {
+  beforeEach(() => vi.stubGlobal("HTMLRewriter", FakeHTMLRewriter));
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("adds the license link to <head>", async () => {
+    const response = injectLicenseLink(htmlResponse(), URL_NEWS, {}, "token_required");
+    expect(await response.text()).toContain(
+      '<title>A</title><link rel="license" type="application/rsl+xml" href="https://example.com/license.xml"></head>'
+    );
+  });
+
+  it("adds the status meta when enabled", async () => {
+    const response = injectLicenseLink(htmlResponse(), URL_NEWS, { meta: true }, "token_required");
+    expect(await response.text()).toContain('<meta name="rsl-status" content="token_required"></head>');
+  });
+
+  it("escapes a configured license URL", async () => {
+    const response = injectLicenseLink(htmlResponse(), URL_NEWS, { licenseUrl: 'https://x.test/l.xml?a=1&b="2"' }, null);
+    expect(await response.text()).toContain('href="https://x.test/l.xml?a=1&amp;b=&quot;2&quot;"');
+  });
+
+  it("leaves non-HTML responses alone", () => {
+    const json = new Response("{}", { headers: { "Content-Type": "application/json" } });
+    expect(injectLicenseLink(json, URL_NEWS, {}, null)).toBe(json);
+  });
+
+  it("leaves responses alone outside Workers", () => {
+    vi.unstubAllGlobals();
+    const response = htmlResponse();
+    expect(injectLicenseLink(response, URL_NEWS, { meta: true }, "licensed")).toBe(response);
+  });
+});
+
+describe("allowedLicenseStatus", () => {
+  it("prefers the RSL signal, then a verified license token", () => {
+    const allow = HandlerAction.ALLOW;
+    expect(allowedLicenseStatus({ action: allow, headers: { "X-RSL-Status": "token_required" } })).toBe("token_required");
+    expect(allowedLicenseStatus({ action: allow, licensed: true })).toBe("licensed");
+    expect(allowedLicenseStatus({ action: allow })).toBeNull();
+  });
+});
+
+describe("cloudflareHandleRequests with htmlLicenseLink", () => {
+  beforeEach(() => {
+    SupertabConnect.resetInstance();
+    vi.stubGlobal("HTMLRewriter", FakeHTMLRewriter);
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    SupertabConnect.resetInstance();
+  });
+
+  it("rewrites allowed HTML pages for observed bots", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(htmlResponse());
+    const response = await SupertabConnect.cloudflareHandleRequests(
+      new Request(URL_NEWS, { headers: { "User-Agent": "GPTBot/1.0" } }),
+      { MERCHANT_API_KEY: "merchant-key" },
+      makeCtx(),
+      { enforcement: EnforcementMode.OBSERVE, botDetector: () => true, htmlLicenseLink: { meta: true } }
+    );
+    const body = await response.text();
+    expect(response.headers.get("X-RSL-Status")).toBe("token_required");
+    expect(body).toContain('<link rel="license" type="application/rsl+xml" href="https://example.com/license.xml">');
+    expect(body).toContain('<meta name="rsl-status" content="token_required">');
+  });
+
+  it("adds the link without a meta status for human visitors", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(htmlResponse());
+    const response = await SupertabConnect.cloudflareHandleRequests(
+      new Request(URL_NEWS),
+      { MERCHANT_API_KEY: "merchant-key" },
+      makeCtx(),
+      { botDetector: () => false, htmlLicenseLink: { meta: true } }
+    );
+    const body = await response.text();
+    expect(body).toContain('<link rel="license"');
+    expect(body).not.toContain("rsl-status");
+  });
+
+  it("leaves out the meta status for a token that was not validated", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(htmlResponse());
+    const response = await SupertabConnect.cloudflareHandleRequests(
+      new Request(URL_NEWS, { headers: { "User-Agent": "GPTBot/1.0", Authorization: "License not-a-token" } }),
+      { MERCHANT_API_KEY: "merchant-key" },
+      makeCtx(),
+      { enforcement: EnforcementMode.DISABLED, botDetector: () => true, htmlLicenseLink: { meta: true } }
+    );
+    const body = await response.text();
+    expect(body).toContain('<link rel="license"');
+    expect(body).not.toContain("rsl-status");
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { generateKeyPair, exportJWK, SignJWT } from "jose";
+import { fetchPlatformJwks, clearJwksCache } from "../src/jwks";
+import { verifyLicenseToken } from "../src/license";
+import { verifyStatusChallenge } from "../src/status";
+import { EnforcementMode, LicenseTokenInvalidReason } from "../src/types";
+import { HandlerAction, SupertabConnect } from "../src/index";
+import { RecordingTransport } from "./helpers/status";
+
+const BASE_URL = "https://api-connect.supertab.co";
+const staticKeys = { keys: [{ kid: "static-kid", kty: "EC" }] };
+const networkKeys = { keys: [{ kid: "network-kid", kty: "EC" }] };
+
+describe("fetchPlatformJwks with static JWKS", () => {
+  beforeEach(() => clearJwksCache());
+  afterEach(() => vi.restoreAllMocks());
+
+  it("uses the static key set without fetching in override mode", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    const jwks = await fetchPlatformJwks(BASE_URL, false, { jwks: staticKeys, mode: "override" });
+    expect(jwks).toBe(staticKeys);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("calls a provider function", async () => {
+    const provider = vi.fn().mockResolvedValue(staticKeys);
+    expect(await fetchPlatformJwks(BASE_URL, false, { jwks: provider, mode: "override" })).toBe(staticKeys);
+    expect(provider).toHaveBeenCalledOnce();
+  });
+
+  it("prefers the network in fallback mode", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(JSON.stringify(networkKeys)));
+    expect(await fetchPlatformJwks(BASE_URL, false, { jwks: staticKeys })).toEqual(networkKeys);
+  });
+
+  it("falls back to the static key set when the fetch fails", async () => {
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new TypeError("fetch failed"));
+    expect(await fetchPlatformJwks(BASE_URL, false, { jwks: staticKeys })).toBe(staticKeys);
+  });
+
+  it("still throws when the fetch fails and no static key set is configured", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("", { status: 503 }));
+    await expect(fetchPlatformJwks(BASE_URL, false)).rejects.toThrow("Failed to fetch platform JWKS: 503");
+  });
+});
+
+describe("fetchPlatformJwks refresh for an unknown kid", () => {
+  const NOW = 1_800_000_000_000;
+  const rotatedKeys = { keys: [{ kid: "rotated-kid", kty: "EC" }] };
+
+  beforeEach(async () => {
+    await clearJwksCache();
+    vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("does not refetch a key set cached less than a minute ago", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response(JSON.stringify(networkKeys)));
+    await fetchPlatformJwks(BASE_URL, false);
+    expect(await fetchPlatformJwks(BASE_URL, false, undefined, true)).toEqual(networkKeys);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("refetches an older key set once a minute", async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(new Response(JSON.stringify(networkKeys)))
+      .mockResolvedValueOnce(new Response(JSON.stringify(rotatedKeys)));
+    await fetchPlatformJwks(BASE_URL, false);
+    vi.setSystemTime(NOW + 61_000);
+    expect(await fetchPlatformJwks(BASE_URL, false, undefined, true)).toEqual(rotatedKeys);
+    expect(await fetchPlatformJwks(BASE_URL, false)).toEqual(rotatedKeys);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps the cached key set when a refresh fails, and does not retry within a minute", async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockResolvedValueOnce(new Response(JSON.stringify(networkKeys)))
+      .mockResolvedValue(new Response("", { status: 503 }));
+    await fetchPlatformJwks(BASE_URL, false);
+    vi.setSystemTime(NOW + 61_000);
+    expect(await fetchPlatformJwks(BASE_URL, false, undefined, true)).toEqual(networkKeys);
+    vi.setSystemTime(NOW + 90_000);
+    expect(await fetchPlatformJwks(BASE_URL, false, undefined, true)).toEqual(networkKeys);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("offline verification", () => {
+  let privateKey: CryptoKey;
+  let jwks: { keys: Record<string, unknown>[] };
+
+  beforeEach(async () => {
+    await clearJwksCache();
+    const pair = await generateKeyPair("ES256");
+    privateKey = pair.privateKey;
+    const jwk = await exportJWK(pair.publicKey);
+    jwks = { keys: [{ ...jwk, kid: "offline-kid", alg: "ES256" }] };
+    // Any network access would be a test failure: the edge is "offline".
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new TypeError("network unreachable"));
+  });
+
+  afterEach(() => vi.restoreAllMocks());
+
+  it("verifies a license token against a static JWKS when the platform is unreachable", async () => {
+    const token = await new SignJWT({ license_id: "lic-1" })
+      .setProtectedHeader({ alg: "ES256", kid: "offline-kid" })
+      .setIssuer(`${BASE_URL}/`)
+      .setAudience("https://example.com/")
+      .setIssuedAt()
+      .setExpirationTime("5m")
+      .sign(privateKey);
+
+    const result = await verifyLicenseToken({
+      licenseToken: token,
+      requestUrl: "https://example.com/article",
+      supertabBaseUrl: BASE_URL,
+      debug: false,
+      staticJwks: { jwks: jwks as never },
+    });
+
+    expect(result).toMatchObject({ valid: true, licenseId: "lic-1" });
+  });
+
+  it("returns SERVER_ERROR without a static JWKS", async () => {
+    const token = await new SignJWT({})
+      .setProtectedHeader({ alg: "ES256", kid: "offline-kid" })
+      .setIssuer(BASE_URL)
+      .setAudience("https://example.com/")
+      .setExpirationTime("5m")
+      .sign(privateKey);
+
+    const result = await verifyLicenseToken({
+      licenseToken: token,
+      requestUrl: "https://example.com/article",
+      supertabBaseUrl: BASE_URL,
+      debug: false,
+    });
+
+    expect(result).toMatchObject({ valid: false, reason: LicenseTokenInvalidReason.SERVER_ERROR });
+  });
+
+  it("blocks a token with an unknown kid in ENFORCE mode instead of throwing", async () => {
+    const token = await new SignJWT({ license_id: "lic-forged" })
+      .setProtectedHeader({ alg: "ES256", kid: "nope" })
+      .setIssuer(BASE_URL)
+      .setAudience("https://example.com/")
+      .setExpirationTime("5m")
+      .sign(privateKey);
+    SupertabConnect.resetInstance();
+    const sdk = new SupertabConnect({
+      apiKey: "merchant-key",
+      enforcement: EnforcementMode.ENFORCE,
+      staticJwks: { jwks: jwks as never, mode: "override" },
+      analyticsTransport: new RecordingTransport(),
+    });
+
+    const result = await sdk.handleRequest(
+      new Request("https://example.com/article", { headers: { Authorization: `License ${token}` } })
+    );
+
+    expect(result).toMatchObject({ action: HandlerAction.BLOCK });
+    SupertabConnect.resetInstance();
+  });
+
+  it("verifies a status challenge against a static JWKS", async () => {
+    const challenge = await new SignJWT({ aud: "https://acme.com", purpose: "status-probe" })
+      .setProtectedHeader({ alg: "ES256", kid: "offline-kid" })
+      .setIssuedAt()
+      .setExpirationTime("60s")
+      .sign(privateKey);
+
+    expect(
+      await verifyStatusChallenge(challenge, {
+        expectedAudience: "https://acme.com",
+        baseUrl: BASE_URL,
+        staticJwks: { jwks: jwks as never, mode: "override" },
+      })
+    ).toBe(true);
+  });
+});
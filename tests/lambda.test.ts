@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { applyLambdaHeaders, lambdaEventToRequest, toLambdaProxyResult } from "../src/lambda";
+import { SupertabConnect, HandlerAction } from "../src/index";
+import { EnforcementMode } from "../src/types";
+import type { APIGatewayProxyEventLike, APIGatewayProxyEventV2Like } from "../src/types";
+import { RecordingTransport } from "./helpers/status";
+
+const restEvent = (overrides: Partial<APIGatewayProxyEventLike> = {}): APIGatewayProxyEventLike => ({
+  httpMethod: "GET",
+  path: "/news/a",
+  headers: { Host: "abc123.execute-api.eu-west-1.amazonaws.com", "User-Agent": "GPTBot/1.0" },
+  multiValueHeaders: {
+    Host: ["abc123.execute-api.eu-west-1.amazonaws.com"],
+    "User-Agent": ["GPTBot/1.0"],
+    Accept: ["text/html", "application/xhtml+xml"],
+  },
+  queryStringParameters: { tag: "b" },
+  multiValueQueryStringParameters: { tag: ["a", "b"] },
+  body: null,
+  isBase64Encoded: false,
+  requestContext: { requestId: "rest-req-1", path: "/prod/news/a", identity: { sourceIp: "203.0.113.7" } },
+  ...overrides,
+});
+
+const httpApiEvent = (overrides: Partial<APIGatewayProxyEventV2Like> = {}): APIGatewayProxyEventV2Like => ({
+  version: "2.0",
+  rawPath: "/news/a",
+  rawQueryString: "page=2",
+  headers: { host: "example.lambda-url.eu-west-1.on.aws", "user-agent": "GPTBot/1.0", "x-forwarded-proto": "https" },
+  cookies: ["a=1", "b=2"],
+  isBase64Encoded: false,
+  requestContext: {
+    requestId: "url-req-1",
+    domainName: "example.lambda-url.eu-west-1.on.aws",
+    http: { method: "GET", path: "/news/a", sourceIp: "198.51.100.1" },
+  },
+  ...overrides,
+});
+
+describe("lambdaEventToRequest", () => {
+  it("converts a REST API event with multi-value headers and query", () => {
+    const { request, context } = lambdaEventToRequest(restEvent());
+    expect(request.url).toBe("https://abc123.execute-api.eu-west-1.amazonaws.com/prod/news/a?tag=a&tag=b");
+    expect(request.headers.get("accept")).toBe("text/html, application/xhtml+xml");
+    expect(context).toEqual({ clientIp: "203.0.113.7", requestId: "rest-req-1" });
+  });
+
+  it("converts an HTTP API / Function URL event, restoring cookies", () => {
+    const { request, context } = lambdaEventToRequest(httpApiEvent());
+    expect(request.url).toBe("https://example.lambda-url.eu-west-1.on.aws/news/a?page=2");
+    expect(request.headers.get("cookie")).toBe("a=1; b=2");
+    expect(context).toEqual({ clientIp: "198.51.100.1", requestId: "url-req-1" });
+  });
+
+  it("decodes base64 bodies", async () => {
+    const { request } = lambdaEventToRequest(
+      httpApiEvent({
+        body: btoa("hello"),
+        isBase64Encoded: true,
+        requestContext: { http: { method: "POST" } },
+      })
+    );
+    expect(await request.text()).toBe("hello");
+  });
+});
+
+describe("proxy-integration responses", () => {
+  it("turns a block result into a proxy response", () => {
+    expect(
+      toLambdaProxyResult({ action: HandlerAction.BLOCK, status: 401, body: "no", headers: { "WWW-Authenticate": "License" } })
+    ).toEqual({ statusCode: 401, headers: { "WWW-Authenticate": "License" }, body: "no", isBase64Encoded: false });
+  });
+
+  it("replaces same-named entries in multiValueHeaders", () => {
+    const merged = applyLambdaHeaders(
+      { statusCode: 200, headers: { link: "<old>" }, multiValueHeaders: { Link: ["<a>", "<b>"], "Set-Cookie": ["x=1"] } },
+      { Link: "<new>" }
+    );
+    expect(merged.headers).toEqual({ Link: "<new>" });
+    expect(merged.multiValueHeaders).toEqual({ "Set-Cookie": ["x=1"] });
+  });
+});
+
+describe("SupertabConnect.lambdaHandleRequests", () => {
+  beforeEach(() => SupertabConnect.resetInstance());
+  afterEach(() => SupertabConnect.resetInstance());
+
+  const wrap = (enforcement: EnforcementMode, transport = new RecordingTransport(), failOpen?: boolean) => {
+    const inner = vi.fn(async () => ({ statusCode: 200, body: "<html>", isBase64Encoded: false }));
+    const handler = SupertabConnect.lambdaHandleRequests(inner, {
+      apiKey: "merchant-key",
+      enforcement,
+      botDetector: () => true,
+      analyticsTransport: transport,
+      failOpen,
+    });
+    return { handler, inner };
+  };
+
+  it("answers blocked requests without calling the inner handler", async () => {
+    const { handler, inner } = wrap(EnforcementMode.ENFORCE);
+    const result = await handler(restEvent(), {});
+    expect(result.statusCode).toBe(401);
+    expect(inner).not.toHaveBeenCalled();
+  });
+
+  it("passes allowed requests through and adds the signal headers", async () => {
+    const { handler, inner } = wrap(EnforcementMode.OBSERVE);
+    const event = httpApiEvent();
+    const result = await handler(event, { awsRequestId: "x" });
+    expect(inner).toHaveBeenCalledWith(event, { awsRequestId: "x" });
+    expect(result.body).toBe("<html>");
+    expect(result.headers?.Link).toContain("https://example.lambda-url.eu-west-1.on.aws/license.xml");
+  });
+
+  it("wraps payload 2.0 results without a statusCode", async () => {
+    const handler = SupertabConnect.lambdaHandleRequests(async () => ({ ok: true }), {
+      apiKey: "merchant-key",
+      analyticsTransport: new RecordingTransport(),
+    });
+    expect(await handler(httpApiEvent({ headers: { host: "example.com" } }), {})).toEqual({
+      statusCode: 200,
+      headers: { "content-type": "application/json" },
+      body: '{"ok":true}',
+    });
+  });
+
+  it("awaits analytics emits before returning", async () => {
+    let settled = false;
+    const transport = new RecordingTransport();
+    vi.spyOn(transport, "emit").mockImplementation((_event, ctx) => {
+      ctx?.waitUntil(new Promise<void>((resolve) => setTimeout(() => ((settled = true), resolve()), 10)));
+    });
+    const { handler } = wrap(EnforcementMode.ENFORCE, transport);
+    await handler(restEvent(), {});
+    expect(settled).toBe(true);
+  });
+
+  it("answers 503 under ENFORCE when handleRequest throws, and calls the handler with failOpen", async () => {
+    const handleRequest = vi.spyOn(SupertabConnect.prototype, "handleRequest").mockRejectedValue(new Error("boom"));
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const closed = wrap(EnforcementMode.ENFORCE);
+    expect((await closed.handler(restEvent(), {})).statusCode).toBe(503);
+    expect(closed.inner).not.toHaveBeenCalled();
+
+    SupertabConnect.resetInstance();
+    const open = wrap(EnforcementMode.ENFORCE, new RecordingTransport(), true);
+    expect((await open.handler(restEvent(), {})).body).toBe("<html>");
+    handleRequest.mockRestore();
+    consoleError.mockRestore();
+  });
+});
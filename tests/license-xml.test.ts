@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { hostRSLicenseXML } from "../src/license";
+import { resetCacheStore } from "../src/cache";
+import { SupertabConnect } from "../src/index";
+import type { CloudFrontRequestEvent, CloudFrontResultResponse } from "../src/types";
+import { makeCtx } from "./helpers/status";
+
+const BASE_URL = "https://api-connect.supertab.co";
+const URN = "urn:stc:merchant:system:abc";
+const HOSTED_URL = `${BASE_URL}/merchants/systems/${URN}/license.xml`;
+const LICENSE_XML = '<rsl xmlns="https://rslstandard.org/rsl"><content url="/"/></rsl>';
+
+// Serves the hosted license.xml with an ETag and answers matching If-None-Match with 304.
+function mockSupertab(etag = '"v1"') {
+  return vi.spyOn(globalThis, "fetch").mockImplementation(async (_input, init) => {
+    const headers = new Headers(init?.headers);
+    if (headers.get("If-None-Match") === etag) return new Response(null, { status: 304, headers: { ETag: etag } });
+    return new Response(LICENSE_XML, { status: 200, headers: { ETag: etag } });
+  });
+}
+
+describe("hostRSLicenseXML", () => {
+  beforeEach(() => {
+    resetCacheStore();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("serves the hosted file with its ETag and fetches it once while fresh", async () => {
+    const fetchSpy = mockSupertab();
+    const first = await hostRSLicenseXML(BASE_URL, URN);
+    const second = await hostRSLicenseXML(BASE_URL, URN);
+
+    expect(await second.text()).toBe(LICENSE_XML);
+    expect(first.headers.get("Content-Type")).toBe("application/rsl+xml");
+    expect(first.headers.get("ETag")).toBe('"v1"');
+    expect(first.headers.get("Cache-Control")).toBe("public, max-age=300");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(fetchSpy.mock.calls[0][0]).toBe(HOSTED_URL);
+  });
+
+  it("revalidates with If-None-Match once the cached copy is stale", async () => {
+    const fetchSpy = mockSupertab();
+    await hostRSLicenseXML(BASE_URL, URN);
+    vi.advanceTimersByTime(5 * 60 * 1000);
+
+    const response = await hostRSLicenseXML(BASE_URL, URN);
+    expect(await response.text()).toBe(LICENSE_XML);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(new Headers(fetchSpy.mock.calls[1][1]?.headers).get("If-None-Match")).toBe('"v1"');
+  });
+
+  it("answers a matching client If-None-Match with 304", async () => {
+    mockSupertab();
+    const request = new Request("https://example.com/license.xml", { headers: { "If-None-Match": 'W/"v1"' } });
+    const response = await hostRSLicenseXML(BASE_URL, URN, request);
+    expect(response.status).toBe(304);
+    expect(response.headers.get("ETag")).toBe('"v1"');
+  });
+
+  it("falls back to the stale copy when Supertab is unreachable", async () => {
+    const fetchSpy = mockSupertab();
+    await hostRSLicenseXML(BASE_URL, URN);
+    vi.advanceTimersByTime(10 * 60 * 1000);
+    fetchSpy.mockRejectedValue(new Error("network down"));
+
+    const response = await hostRSLicenseXML(BASE_URL, URN);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(LICENSE_XML);
+  });
+
+  it("returns 404 when no license is published", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("", { status: 404 }));
+    expect((await hostRSLicenseXML(BASE_URL, URN)).status).toBe(404);
+  });
+});
+
+describe("license.xml hosting on Cloudflare and CloudFront", () => {
+  beforeEach(() => {
+    resetCacheStore();
+    SupertabConnect.resetInstance();
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+    SupertabConnect.resetInstance();
+  });
+
+  it("serves /license.xml from the Cloudflare Worker without reaching the origin", async () => {
+    const fetchSpy = mockSupertab();
+    const response = await SupertabConnect.cloudflareHandleRequests(
+      new Request("https://example.com/license.xml"),
+      { MERCHANT_API_KEY: "merchant-key" },
+      makeCtx(),
+      { enableRSL: true, merchantSystemUrn: URN }
+    );
+    expect(await response.text()).toBe(LICENSE_XML);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(fetchSpy.mock.calls[0][0]).toBe(HOSTED_URL);
+  });
+
+  it("passes /license.xml to the origin when RSL hosting is off", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("origin"));
+    const request = new Request("https://example.com/license.xml");
+    const response = await SupertabConnect.cloudflareHandleRequests(request, { MERCHANT_API_KEY: "merchant-key" }, makeCtx());
+    expect(await response.text()).toBe("origin");
+    expect(fetchSpy).toHaveBeenCalledWith(request);
+  });
+
+  const cloudfrontEvent = (headers: Record<string, string> = {}): CloudFrontRequestEvent => ({
+    Records: [
+      {
+        cf: {
+          request: {
+            uri: "/license.xml",
+            method: "GET",
+            querystring: "",
+            headers: {
+              host: [{ key: "Host", value: "example.com" }],
+              ...Object.fromEntries(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), [{ key, value }]])),
+            },
+          },
+        },
+      },
+    ],
+  });
+
+  it("answers /license.xml from Lambda@Edge without the routing header", async () => {
+    mockSupertab();
+    const result = (await SupertabConnect.cloudfrontHandleRequests(cloudfrontEvent(), {
+      apiKey: "merchant-key",
+      enableRSL: true,
+      merchantSystemUrn: URN,
+    })) as CloudFrontResultResponse;
+    expect(result.status).toBe("200");
+    expect(result.statusDescription).toBe("OK");
+    expect(result.body).toBe(LICENSE_XML);
+    expect(result.headers?.etag).toEqual([{ key: "etag", value: '"v1"' }]);
+  });
+
+  it("passes conditional requests through to Supertab on CloudFront", async () => {
+    const fetchSpy = mockSupertab();
+    const result = (await SupertabConnect.cloudfrontHandleRequests(cloudfrontEvent({ "If-None-Match": '"v1"' }), {
+      apiKey: "merchant-key",
+      enableRSL: true,
+      merchantSystemUrn: URN,
+    })) as CloudFrontResultResponse;
+    expect(result.status).toBe("304");
+    expect(result.body).toBe("");
+    expect(result.headers?.["cache-control"]).toEqual([{ key: "cache-control", value: "public, max-age=300" }]);
+    expect(new Headers(fetchSpy.mock.calls[0][1]?.headers).get("If-None-Match")).toBe('"v1"');
+  });
+
+  it("does not answer 304 on CloudFront from a cached ETag Supertab has replaced", async () => {
+    const options = { apiKey: "merchant-key", enableRSL: true, merchantSystemUrn: URN };
+    mockSupertab('"v1"');
+    await SupertabConnect.cloudfrontHandleRequests(cloudfrontEvent(), options);
+    vi.restoreAllMocks();
+    mockSupertab('"v2"');
+
+    const result = (await SupertabConnect.cloudfrontHandleRequests(
+      cloudfrontEvent({ "If-None-Match": '"v1"' }),
+      options
+    )) as CloudFrontResultResponse;
+    expect(result.status).toBe("200");
+    expect(result.headers?.etag).toEqual([{ key: "etag", value: '"v2"' }]);
+  });
+});
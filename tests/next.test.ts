@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { isStaticAssetPath, nextRequestContext } from "../src/next";
+import { SupertabConnect, withSupertabConnect, HandlerAction } from "../src/index";
+import { EnforcementMode } from "../src/types";
+import type { NextRequestLike } from "../src/types";
+import { RecordingTransport } from "./helpers/status";
+
+// Mirrors next/server: NextResponse.next() marks the response with x-middleware-next.
+class FakeNextResponse extends Response {
+  static next(init?: ResponseInit): Response {
+    const headers = new Headers(init?.headers);
+    headers.set("x-middleware-next", "1");
+    return new Response(null, { ...init, headers });
+  }
+}
+
+const event = { waitUntil: vi.fn() };
+const botRequest = (path = "/news/a", init: RequestInit = {}) =>
+  new Request(`https://example.com${path}`, { ...init, headers: { "User-Agent": "GPTBot/1.0", ...init.headers } });
+
+describe("nextRequestContext", () => {
+  it("reads Vercel headers", () => {
+    const request = new Request("https://example.com/", {
+      headers: { "x-real-ip": "203.0.113.7", "x-vercel-ip-country": "DE", "x-vercel-id": "fra1::abc" },
+    });
+    expect(nextRequestContext(request, true)).toEqual({
+      clientIp: "203.0.113.7",
+      requestCountry: "DE",
+      requestId: "fra1::abc",
+    });
+  });
+
+  it("ignores IP headers without trustProxy", () => {
+    const request = new Request("https://example.com/", {
+      headers: { "x-real-ip": "66.249.66.1", "x-forwarded-for": "66.249.66.1" },
+    });
+    expect(nextRequestContext(request).clientIp).toBeUndefined();
+  });
+
+  it("takes the rightmost X-Forwarded-For entry", () => {
+    const request = new Request("https://example.com/", {
+      headers: { "x-forwarded-for": "66.249.66.1, 203.0.113.7" },
+    });
+    expect(nextRequestContext(request, true).clientIp).toBe("203.0.113.7");
+  });
+
+  it("prefers NextRequest ip/geo fields when present", () => {
+    const request = Object.assign(new Request("https://example.com/", { headers: { "x-real-ip": "10.0.0.1" } }), {
+      ip: "198.51.100.1",
+      geo: { country: "US" },
+    }) as NextRequestLike;
+    expect(nextRequestContext(request)).toMatchObject({ clientIp: "198.51.100.1", requestCountry: "US" });
+  });
+});
+
+describe("isStaticAssetPath", () => {
+  it("matches build output and static files only", () => {
+    expect(isStaticAssetPath("/_next/static/chunks/main.js")).toBe(true);
+    expect(isStaticAssetPath("/images/logo.svg")).toBe(true);
+    expect(isStaticAssetPath("/news/a")).toBe(false);
+  });
+});
+
+describe("withSupertabConnect", () => {
+  beforeEach(() => SupertabConnect.resetInstance());
+  afterEach(() => SupertabConnect.resetInstance());
+
+  const middleware = (enforcement: EnforcementMode, extra: object = {}) =>
+    withSupertabConnect({
+      apiKey: "merchant-key",
+      enforcement,
+      botDetector: () => true,
+      analyticsTransport: new RecordingTransport(),
+      NextResponse: FakeNextResponse,
+      ...extra,
+    });
+
+  it("returns the block response in ENFORCE mode", async () => {
+    const response = await middleware(EnforcementMode.ENFORCE)(botRequest(), event);
+    expect(response?.status).toBe(401);
+    expect(response?.headers.get("x-middleware-next")).toBeNull();
+  });
+
+  it("continues with the signal headers in OBSERVE mode", async () => {
+    const response = await middleware(EnforcementMode.OBSERVE)(botRequest(), event);
+    expect(response?.headers.get("x-middleware-next")).toBe("1");
+    expect(response?.headers.get("Link")).toContain("https://example.com/license.xml");
+  });
+
+  it("merges the signal headers into a chained middleware's response", async () => {
+    const chained = vi.fn(() => new Response("rewritten", { headers: { "x-custom": "1" } }));
+    const response = await middleware(EnforcementMode.OBSERVE, { middleware: chained })(botRequest(), event);
+    expect(await response?.text()).toBe("rewritten");
+    expect(response?.headers.get("x-custom")).toBe("1");
+    expect(response?.headers.get("Link")).toContain("license.xml");
+  });
+
+  it("skips static assets", async () => {
+    const handleRequest = vi.spyOn(SupertabConnect.prototype, "handleRequest");
+    const response = await middleware(EnforcementMode.ENFORCE)(botRequest("/_next/static/app.js"), event);
+    expect(response?.headers.get("x-middleware-next")).toBe("1");
+    expect(handleRequest).not.toHaveBeenCalled();
+    handleRequest.mockRestore();
+  });
+
+  it("passes the NextFetchEvent as the analytics execution context", async () => {
+    const handleRequest = vi
+      .spyOn(SupertabConnect.prototype, "handleRequest")
+      .mockResolvedValue({ action: HandlerAction.ALLOW });
+    await middleware(EnforcementMode.OBSERVE)(botRequest(), event);
+    expect(handleRequest.mock.calls[0][1]).toMatchObject({ ctx: event });
+    handleRequest.mockRestore();
+  });
+
+  it("answers 503 under ENFORCE when handleRequest throws, and continues with failOpen", async () => {
+    const handleRequest = vi.spyOn(SupertabConnect.prototype, "handleRequest").mockRejectedValue(new Error("boom"));
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    expect((await middleware(EnforcementMode.ENFORCE)(botRequest(), event))?.status).toBe(503);
+    SupertabConnect.resetInstance();
+    const response = await middleware(EnforcementMode.ENFORCE, { failOpen: true })(botRequest(), event);
+    expect(response?.headers.get("x-middleware-next")).toBe("1");
+    handleRequest.mockRestore();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { nodeClientIp, toWebRequest } from "../src/node";
+import { SupertabConnect } from "../src/index";
+import { EnforcementMode } from "../src/types";
+import type { NodeIncomingMessage } from "../src/types";
+import { RecordingTransport } from "./helpers/status";
+
+const incoming = (overrides: Partial<NodeIncomingMessage> = {}): NodeIncomingMessage => ({
+  method: "GET",
+  url: "/news/a?page=2",
+  headers: { host: "example.com", "user-agent": "GPTBot/1.0", "x-forwarded-for": "198.51.100.66, 203.0.113.7" },
+  socket: { remoteAddress: "10.0.0.1" },
+  ...overrides,
+});
+
+describe("toWebRequest", () => {
+  it("rebuilds the URL from the Host header and socket", () => {
+    const request = toWebRequest(incoming(), false);
+    expect(request.url).toBe("http://example.com/news/a?page=2");
+    expect(request.headers.get("user-agent")).toBe("GPTBot/1.0");
+    expect(toWebRequest(incoming({ socket: { encrypted: true } }), false).url).toBe("https://example.com/news/a?page=2");
+  });
+
+  it("uses X-Forwarded-Proto/Host only behind a trusted proxy", () => {
+    const req = incoming({
+      headers: { host: "internal:3000", "x-forwarded-proto": "https", "x-forwarded-host": "example.com" },
+    });
+    expect(toWebRequest(req, true).url).toBe("https://example.com/news/a?page=2");
+    expect(toWebRequest(req, false).url).toBe("http://internal:3000/news/a?page=2");
+  });
+
+  it("joins repeated headers", () => {
+    const request = toWebRequest(incoming({ headers: { host: "example.com", accept: ["text/html", "*/*"] } }), false);
+    expect(request.headers.get("accept")).toBe("text/html, */*");
+  });
+});
+
+describe("nodeClientIp", () => {
+  it("takes the rightmost X-Forwarded-For entry behind a trusted proxy", () => {
+    expect(nodeClientIp(incoming(), true)).toBe("203.0.113.7");
+    expect(nodeClientIp(incoming(), false)).toBe("10.0.0.1");
+  });
+
+  it("ignores entries a client prepends to X-Forwarded-For", () => {
+    const spoofed = incoming({ headers: { host: "example.com", "x-forwarded-for": "66.249.66.1, 203.0.113.7" } });
+    expect(nodeClientIp(spoofed, true)).toBe("203.0.113.7");
+  });
+});
+
+describe("Node middlewares", () => {
+  beforeEach(() => SupertabConnect.resetInstance());
+  afterEach(() => SupertabConnect.resetInstance());
+
+  const options = (enforcement: EnforcementMode) => ({
+    apiKey: "merchant-key",
+    enforcement,
+    botDetector: () => true,
+    analyticsTransport: new RecordingTransport(),
+  });
+
+  const fakeResponse = () => {
+    const headers: Record<string, string> = {};
+    return {
+      statusCode: 200,
+      headers,
+      setHeader: vi.fn((name: string, value: string) => (headers[name.toLowerCase()] = value)),
+      end: vi.fn(),
+    };
+  };
+
+  it("express: blocks without calling next", async () => {
+    const middleware = SupertabConnect.expressMiddleware(options(EnforcementMode.ENFORCE));
+    const res = fakeResponse();
+    const next = vi.fn();
+    await middleware(incoming(), res, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+    expect(res.end).toHaveBeenCalledOnce();
+  });
+
+  it("express: sets signal headers and continues on ALLOW", async () => {
+    const middleware = SupertabConnect.expressMiddleware(options(EnforcementMode.OBSERVE));
+    const res = fakeResponse();
+    const next = vi.fn();
+    await middleware({ ...incoming(), originalUrl: "/blog/news/a" }, res, next);
+    expect(next).toHaveBeenCalledOnce();
+    expect(res.headers["link"]).toContain("http://example.com/license.xml");
+  });
+
+  it("express: works as a plain node:http handler", async () => {
+    const middleware = SupertabConnect.expressMiddleware(options(EnforcementMode.ENFORCE));
+    const server = createServer((req, res) => {
+      void middleware(req, res, () => res.end("origin"));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await fetch(`http://127.0.0.1:${port}/news/a`, { headers: { "User-Agent": "GPTBot/1.0" } });
+      expect(response.status).toBe(401);
+      expect(response.headers.get("www-authenticate")).toContain("License");
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("fastify: sends BLOCK results from the onRequest hook", async () => {
+    const hook = SupertabConnect.fastifyOnRequest(options(EnforcementMode.ENFORCE));
+    const reply = { code: vi.fn(), header: vi.fn(), send: vi.fn() };
+    reply.code.mockReturnValue(reply);
+    reply.header.mockReturnValue(reply);
+    reply.send.mockReturnValue(reply);
+    expect(await hook({ raw: incoming() }, reply)).toBe(reply);
+    expect(reply.code).toHaveBeenCalledWith(401);
+    expect(reply.send).toHaveBeenCalledOnce();
+  });
+
+  it("koa: sets the body on BLOCK and calls next on ALLOW", async () => {
+    const ctx = () => ({ req: incoming(), status: 404, body: undefined as unknown, set: vi.fn() });
+    const next = vi.fn(async () => undefined);
+
+    const blocked = ctx();
+    await SupertabConnect.koaMiddleware(options(EnforcementMode.ENFORCE))(blocked, next);
+    expect(blocked.status).toBe(401);
+    expect(blocked.body).toEqual(expect.any(String));
+    expect(next).not.toHaveBeenCalled();
+
+    SupertabConnect.resetInstance();
+    const allowed = ctx();
+    await SupertabConnect.koaMiddleware(options(EnforcementMode.OBSERVE))(allowed, next);
+    expect(next).toHaveBeenCalledOnce();
+    expect(allowed.set).toHaveBeenCalledWith("Link", expect.stringContaining("license.xml"));
+  });
+
+  it("koa: matches enforcement rules against the unmounted path", async () => {
+    // koa-mount("/news", app) hands the mounted app a req.url relative to the mount point.
+    const ctx = {
+      req: incoming({ url: "/a?page=2" }),
+      originalUrl: "/news/a?page=2",
+      status: 404,
+      body: undefined as unknown,
+      set: vi.fn(),
+    };
+    const middleware = SupertabConnect.koaMiddleware({
+      ...options(EnforcementMode.OBSERVE),
+      enforcementRules: [{ pattern: "/news/*", enforcement: EnforcementMode.ENFORCE }],
+    });
+    await middleware(ctx, vi.fn(async () => undefined));
+    expect(ctx.status).toBe(401);
+  });
+
+  describe("when handleRequest throws", () => {
+    beforeEach(() => {
+      vi.spyOn(SupertabConnect.prototype, "handleRequest").mockRejectedValue(new Error("boom"));
+      vi.spyOn(console, "error").mockImplementation(() => undefined);
+    });
+    afterEach(() => vi.restoreAllMocks());
+
+    it("fails closed under ENFORCE", async () => {
+      const res = fakeResponse();
+      const next = vi.fn();
+      await SupertabConnect.expressMiddleware(options(EnforcementMode.ENFORCE))(incoming(), res, next);
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(503);
+    });
+
+    it("fails open in other modes or with failOpen", async () => {
+      const next = vi.fn();
+      await SupertabConnect.expressMiddleware(options(EnforcementMode.OBSERVE))(incoming(), fakeResponse(), next);
+      SupertabConnect.resetInstance();
+      await SupertabConnect.expressMiddleware({ ...options(EnforcementMode.ENFORCE), failOpen: true })(
+        incoming(),
+        fakeResponse(),
+        next
+      );
+      expect(next).toHaveBeenCalledTimes(2);
+    });
+
+    it("fails closed only on paths an enforcement rule enforces", async () => {
+      const withRules = {
+        ...options(EnforcementMode.OBSERVE),
+        enforcementRules: [{ pattern: "/news/*", enforcement: EnforcementMode.ENFORCE }],
+      };
+      const closed = fakeResponse();
+      const next = vi.fn();
+      await SupertabConnect.expressMiddleware(withRules)(incoming(), closed, next);
+      expect(closed.statusCode).toBe(503);
+      expect(next).not.toHaveBeenCalled();
+
+      SupertabConnect.resetInstance();
+      await SupertabConnect.expressMiddleware(withRules)(incoming({ url: "/about" }), fakeResponse(), next);
+      expect(next).toHaveBeenCalledOnce();
+    });
+
+    it("fastify and koa answer 503 when failing closed", async () => {
+      const reply = { code: vi.fn(), header: vi.fn(), send: vi.fn() };
+      reply.code.mockReturnValue(reply);
+      reply.header.mockReturnValue(reply);
+      reply.send.mockReturnValue(reply);
+      await SupertabConnect.fastifyOnRequest(options(EnforcementMode.ENFORCE))({ raw: incoming() }, reply);
+      expect(reply.code).toHaveBeenCalledWith(503);
+
+      SupertabConnect.resetInstance();
+      const ctx = { req: incoming(), status: 404, body: undefined as unknown, set: vi.fn() };
+      const next = vi.fn(async () => undefined);
+      await SupertabConnect.koaMiddleware({ ...options(EnforcementMode.OBSERVE), failOpen: false })(ctx, next);
+      expect(ctx.status).toBe(503);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+});
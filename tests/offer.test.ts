@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { buildPaymentRequiredResult } from "../src/offer";
+import { resetCacheStore } from "../src/cache";
+import { SupertabConnect, HandlerAction } from "../src/index";
+import { EnforcementMode } from "../src/types";
+import { RecordingTransport } from "./helpers/status";
+
+const LICENSE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<rsl xmlns="https://rslstandard.org/rsl">
+  <content url="/news/*" server="https://api-connect.supertab.co">
+    <license>
+      <permits type="usage">ai-input search</permits>
+      <prohibits type="usage">ai-train</prohibits>
+      <permits type="geo">US CA</permits>
+      <payment type="use">
+        <amount currency="USD">0.015</amount>
+      </payment>
+    </license>
+  </content>
+  <content url="/free/*">
+    <license>
+      <permits type="usage">all</permits>
+    </license>
+  </content>
+</rsl>`;
+
+describe("buildPaymentRequiredResult", () => {
+  beforeEach(() => resetCacheStore());
+  afterEach(() => vi.restoreAllMocks());
+
+  it("returns a 402 with the matching license offer", async () => {
+    const result = await buildPaymentRequiredResult(
+      "https://example.com/news/story",
+      { licenseXml: LICENSE_XML },
+      false
+    );
+    expect(result).toMatchObject({ action: HandlerAction.BLOCK, status: 402 });
+    if (result?.action !== HandlerAction.BLOCK) throw new Error("expected a block");
+    expect(result.headers["Content-Type"]).toBe("application/json; charset=UTF-8");
+    expect(result.headers.Link).toBe('<https://example.com/license.xml>; rel="license"; type="application/rsl+xml"');
+    expect(JSON.parse(result.body)).toEqual({
+      error: "payment_required",
+      error_description: "A license is required to access this resource",
+      resource: "https://example.com/news/story",
+      license_url: "https://example.com/license.xml",
+      offer: {
+        content_url: "/news/*",
+        server: "https://api-connect.supertab.co",
+        token_endpoint: "https://api-connect.supertab.co/token",
+        terms: {
+          permits: { usage: ["ai-input", "search"], geo: ["US", "CA"] },
+          prohibits: { usage: ["ai-train"] },
+        },
+        payment: { type: "use", amount: "0.015", currency: "USD" },
+      },
+    });
+  });
+
+  it("returns null for content that does not need a token", async () => {
+    expect(
+      await buildPaymentRequiredResult("https://example.com/free/a", { licenseXml: LICENSE_XML }, false)
+    ).toBeNull();
+    expect(
+      await buildPaymentRequiredResult("https://example.com/other", { licenseXml: LICENSE_XML }, false)
+    ).toBeNull();
+  });
+
+  it("fetches the origin license.xml once and caches it", async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, "fetch")
+      .mockImplementation(async () => new Response(LICENSE_XML));
+    await buildPaymentRequiredResult("https://example.com/news/a", {}, false);
+    const result = await buildPaymentRequiredResult("https://example.com/news/b", {}, false);
+    expect(result?.action).toBe(HandlerAction.BLOCK);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(fetchSpy.mock.calls[0][0]).toBe("https://example.com/license.xml");
+  });
+
+  it("returns null when license.xml cannot be fetched", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("", { status: 404 }));
+    expect(await buildPaymentRequiredResult("https://example.com/news/a", {}, false)).toBeNull();
+  });
+
+  it("does not refetch a missing license.xml for a minute", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const fetchSpy = vi
+        .spyOn(globalThis, "fetch")
+        .mockImplementation(async () => new Response("", { status: 404 }));
+      await buildPaymentRequiredResult("https://example.com/news/a", {}, false);
+      expect(await buildPaymentRequiredResult("https://example.com/news/b", {}, false)).toBeNull();
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+      fetchSpy.mockImplementation(async () => new Response(LICENSE_XML));
+      vi.advanceTimersByTime(61_000);
+      expect((await buildPaymentRequiredResult("https://example.com/news/c", {}, false))?.status).toBe(402);
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("SupertabConnect.handleRequest with paymentRequired", () => {
+  beforeEach(() => SupertabConnect.resetInstance());
+  afterEach(() => SupertabConnect.resetInstance());
+
+  const sdk = (enforcement: EnforcementMode) =>
+    new SupertabConnect({
+      apiKey: "merchant-key",
+      enforcement,
+      paymentRequired: { licenseXml: LICENSE_XML },
+      botDetector: () => true,
+      analyticsTransport: new RecordingTransport(),
+    });
+
+  it("answers an unlicensed bot with 402 in ENFORCE mode", async () => {
+    const result = await sdk(EnforcementMode.ENFORCE).handleRequest(new Request("https://example.com/news/a"));
+    expect(result).toMatchObject({ action: HandlerAction.BLOCK, status: 402 });
+  });
+
+  it("falls back to the 401 block outside token-gated content", async () => {
+    const result = await sdk(EnforcementMode.ENFORCE).handleRequest(new Request("https://example.com/other"));
+    expect(result).toMatchObject({ action: HandlerAction.BLOCK, status: 401 });
+  });
+
+  it("keeps signalling without blocking in OBSERVE mode", async () => {
+    const result = await sdk(EnforcementMode.OBSERVE).handleRequest(new Request("https://example.com/news/a"));
+    expect(result.action).toBe(HandlerAction.ALLOW);
+  });
+});
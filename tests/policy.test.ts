@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { resolveEnforcement, applyRuleBlockResponse } from "../src/policy";
+import { SupertabConnect, HandlerAction } from "../src/index";
+import { EnforcementMode, EnforcementRule } from "../src/types";
+import { RecordingTransport } from "./helpers/status";
+
+const rules: EnforcementRule[] = [
+  { pattern: "/news/*", enforcement: EnforcementMode.ENFORCE, name: "news" },
+  { pattern: "/about", enforcement: EnforcementMode.DISABLED },
+  { pattern: "/news/free/*", enforcement: EnforcementMode.OBSERVE },
+  { pattern: "https://other.example/sports/*", enforcement: EnforcementMode.DISABLED },
+];
+
+describe("resolveEnforcement", () => {
+  it("falls back to the default mode when no rules are configured", () => {
+    expect(resolveEnforcement(undefined, "https://example.com/news/a", EnforcementMode.OBSERVE)).toEqual({
+      enforcement: EnforcementMode.OBSERVE,
+      rule: null,
+    });
+  });
+
+  it("picks the matching rule", () => {
+    const decision = resolveEnforcement(rules, "https://example.com/news/story", EnforcementMode.OBSERVE);
+    expect(decision.enforcement).toBe(EnforcementMode.ENFORCE);
+    expect(decision.rule?.name).toBe("news");
+  });
+
+  it("prefers the most specific rule", () => {
+    const decision = resolveEnforcement(rules, "https://example.com/news/free/story", EnforcementMode.OBSERVE);
+    expect(decision.enforcement).toBe(EnforcementMode.OBSERVE);
+    expect(decision.rule?.pattern).toBe("/news/free/*");
+  });
+
+  it("matches prefix patterns at segment boundaries only", () => {
+    expect(resolveEnforcement(rules, "https://example.com/about/team", EnforcementMode.OBSERVE).enforcement)
+      .toBe(EnforcementMode.DISABLED);
+    expect(resolveEnforcement(rules, "https://example.com/about-us", EnforcementMode.OBSERVE).rule).toBeNull();
+  });
+
+  it("applies absolute-URL rules only to their host", () => {
+    expect(resolveEnforcement(rules, "https://other.example/sports/a", EnforcementMode.OBSERVE).enforcement)
+      .toBe(EnforcementMode.DISABLED);
+  });
+
+  it("falls back to the default mode when nothing matches", () => {
+    expect(resolveEnforcement(rules, "https://example.com/sports", EnforcementMode.OBSERVE)).toEqual({
+      enforcement: EnforcementMode.OBSERVE,
+      rule: null,
+    });
+  });
+
+  it("applies verifiedAgents rules only to the listed identities", () => {
+    const agentRules: EnforcementRule[] = [
+      ...rules,
+      { pattern: "/news/*", enforcement: EnforcementMode.DISABLED, verifiedAgents: ["googlebot"] },
+    ];
+    const url = "https://example.com/news/story";
+    expect(resolveEnforcement(agentRules, url, EnforcementMode.OBSERVE).enforcement).toBe(EnforcementMode.ENFORCE);
+    expect(resolveEnforcement(agentRules, url, EnforcementMode.OBSERVE, false, ["https://chatgpt.com"]).enforcement)
+      .toBe(EnforcementMode.ENFORCE);
+    expect(resolveEnforcement(agentRules, url, EnforcementMode.OBSERVE, false, ["googlebot"]).enforcement)
+      .toBe(EnforcementMode.DISABLED);
+  });
+});
+
+describe("applyRuleBlockResponse", () => {
+  const block = {
+    action: HandlerAction.BLOCK as const,
+    status: 401,
+    body: "default",
+    headers: { Link: "<https://example.com/license.xml>", "Content-Type": "text/plain" },
+  };
+
+  it("returns the result unchanged without a custom response", () => {
+    expect(applyRuleBlockResponse(block, rules[0])).toBe(block);
+  });
+
+  it("merges the custom response over the default block", () => {
+    const result = applyRuleBlockResponse(block, {
+      pattern: "/x",
+      enforcement: EnforcementMode.ENFORCE,
+      blockResponse: { status: 403, headers: { "Content-Type": "text/html" } },
+    });
+    expect(result).toEqual({
+      action: HandlerAction.BLOCK,
+      status: 403,
+      body: "default",
+      headers: { Link: "<https://example.com/license.xml>", "Content-Type": "text/html" },
+    });
+  });
+});
+
+describe("SupertabConnect.handleRequest with enforcementRules", () => {
+  const botRequest = (path: string) =>
+    new Request(`https://example.com${path}`, { headers: { "User-Agent": "curl/8.0" } });
+
+  beforeEach(() => SupertabConnect.resetInstance());
+  afterEach(() => SupertabConnect.resetInstance());
+
+  function sdk(transport = new RecordingTransport()) {
+    return new SupertabConnect({
+      apiKey: "merchant-key",
+      enforcement: EnforcementMode.OBSERVE,
+      enforcementRules: [
+        {
+          pattern: "/news/*",
+          enforcement: EnforcementMode.ENFORCE,
+          name: "news",
+          blockResponse: { status: 402, body: "Subscribe" },
+        },
+        { pattern: "/about", enforcement: EnforcementMode.DISABLED },
+      ],
+      botDetector: () => true,
+      analyticsTransport: transport,
+    });
+  }
+
+  it("blocks with the rule's custom response under an ENFORCE rule", async () => {
+    const transport = new RecordingTransport();
+    const result = await sdk(transport).handleRequest(botRequest("/news/story"));
+    expect(result).toMatchObject({ action: HandlerAction.BLOCK, status: 402, body: "Subscribe" });
+    expect(transport.events[0].enforcement_mode).toBe("enforce");
+    expect(transport.events[0].policy_rule).toBe("news");
+  });
+
+  it("uses the rule's custom response for an invalid token too", async () => {
+    const request = new Request("https://example.com/news/story", {
+      headers: { "User-Agent": "curl/8.0", Authorization: "License not-a-jwt" },
+    });
+    const result = await sdk().handleRequest(request);
+    expect(result).toMatchObject({ action: HandlerAction.BLOCK, status: 402, body: "Subscribe" });
+    expect(result.headers?.["WWW-Authenticate"]).toBeDefined();
+  });
+
+  it("allows without signals under a DISABLED rule", async () => {
+    const transport = new RecordingTransport();
+    const result = await sdk(transport).handleRequest(botRequest("/about"));
+    expect(result).toEqual({ action: HandlerAction.ALLOW });
+    expect(transport.events[0].policy_rule).toBe("/about");
+  });
+
+  it("uses the instance default where no rule matches", async () => {
+    const transport = new RecordingTransport();
+    const result = await sdk(transport).handleRequest(botRequest("/sports"));
+    expect(result.action).toBe(HandlerAction.ALLOW);
+    expect(result.headers?.["X-RSL-Status"]).toBe("token_required");
+    expect(transport.events[0].enforcement_mode).toBe("observe");
+    expect(transport.events[0].policy_rule).toBeNull();
+  });
+});
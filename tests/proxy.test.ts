@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createServer, Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { loadProxyConfig, startProxyServer } from "../src/server";
+import { SupertabConnect } from "../src/index";
+import { EnforcementMode } from "../src/types";
+
+describe("loadProxyConfig", () => {
+  const file = JSON.stringify({
+    apiKey: "file-key",
+    origin: "http://127.0.0.1:3000",
+    enforcement: "observe",
+    enforcementRules: [{ pattern: "/premium/*", enforcement: "enforce", name: "premium" }],
+    analyticsEnabled: true,
+    port: 9000,
+  });
+
+  it("reads the config file", () => {
+    expect(loadProxyConfig({}, file)).toMatchObject({
+      apiKey: "file-key",
+      origin: "http://127.0.0.1:3000",
+      enforcement: EnforcementMode.OBSERVE,
+      enforcementRules: [{ pattern: "/premium/*", enforcement: EnforcementMode.ENFORCE, name: "premium" }],
+      analyticsEnabled: true,
+      port: 9000,
+    });
+  });
+
+  it("lets the environment override the file", () => {
+    const options = loadProxyConfig(
+      {
+        MERCHANT_API_KEY: "env-key",
+        SUPERTAB_ENFORCEMENT: "ENFORCE",
+        SUPERTAB_ANALYTICS: "false",
+        SUPERTAB_FAIL_OPEN: "true",
+        PORT: "8081",
+      },
+      file
+    );
+    expect(options).toMatchObject({
+      apiKey: "env-key",
+      enforcement: EnforcementMode.ENFORCE,
+      analyticsEnabled: false,
+      failOpen: true,
+      port: 8081,
+    });
+  });
+
+  it("works from the environment alone", () => {
+    expect(loadProxyConfig({ MERCHANT_API_KEY: "k", SUPERTAB_ORIGIN: "https://origin.example" })).toMatchObject({
+      apiKey: "k",
+      origin: "https://origin.example",
+      enforcement: undefined,
+    });
+  });
+
+  it("rejects missing or invalid values", () => {
+    expect(() => loadProxyConfig({ SUPERTAB_ORIGIN: "http://o" })).toThrow(/MERCHANT_API_KEY/);
+    expect(() => loadProxyConfig({ MERCHANT_API_KEY: "k" })).toThrow(/SUPERTAB_ORIGIN/);
+    expect(() => loadProxyConfig({ MERCHANT_API_KEY: "k", SUPERTAB_ORIGIN: "origin" })).toThrow(/absolute URL/);
+    expect(() =>
+      loadProxyConfig({ MERCHANT_API_KEY: "k", SUPERTAB_ORIGIN: "http://o", SUPERTAB_ENFORCEMENT: "strict" })
+    ).toThrow(/SUPERTAB_ENFORCEMENT/);
+    expect(() => loadProxyConfig({}, "{not json")).toThrow(/not valid JSON/);
+  });
+});
+
+describe("startProxyServer", () => {
+  let origin: Server;
+  let proxy: Server;
+
+  const close = (server: Server) => new Promise((resolve) => server.close(resolve));
+  const portOf = (server: Server) => (server.address() as AddressInfo).port;
+
+  beforeEach(async () => {
+    SupertabConnect.resetInstance();
+    // Echoes what it received, so the test can see what the proxy forwarded.
+    origin = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        res.setHeader("Content-Type", "application/json");
+        res.end(
+          JSON.stringify({
+            method: req.method,
+            url: req.url,
+            host: req.headers.host,
+            forwardedFor: req.headers["x-forwarded-for"],
+            forwardedHost: req.headers["x-forwarded-host"],
+            forwardedProto: req.headers["x-forwarded-proto"],
+            body,
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => origin.listen(0, "127.0.0.1", resolve));
+  });
+  afterEach(async () => {
+    proxy.closeAllConnections();
+    await close(proxy);
+    if (origin.listening) await close(origin);
+    SupertabConnect.resetInstance();
+  });
+
+  const start = async (
+    enforcement: EnforcementMode,
+    originUrl = `http://127.0.0.1:${portOf(origin)}`,
+    failOpen?: boolean
+  ) => {
+    proxy = await startProxyServer({
+      apiKey: "merchant-key",
+      enforcement,
+      botDetector: (request) => (request.headers.get("User-Agent") ?? "").includes("GPTBot"),
+      origin: originUrl,
+      host: "127.0.0.1",
+      port: 0,
+      failOpen,
+    });
+    return `http://127.0.0.1:${portOf(proxy)}`;
+  };
+
+  it("streams allowed requests to the origin", async () => {
+    const base = await start(EnforcementMode.ENFORCE);
+    const response = await fetch(`${base}/news/a?x=1`, { method: "POST", body: "hello", headers: { "User-Agent": "Mozilla/5.0" } });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      method: "POST",
+      url: "/news/a?x=1",
+      host: `127.0.0.1:${portOf(origin)}`,
+      forwardedFor: "127.0.0.1",
+      forwardedHost: base.slice("http://".length),
+      forwardedProto: "http",
+      body: "hello",
+    });
+  });
+
+  it("overwrites client-sent X-Forwarded-* headers without trustProxy", async () => {
+    const base = await start(EnforcementMode.ENFORCE);
+    const response = await fetch(`${base}/`, {
+      headers: {
+        "User-Agent": "Mozilla/5.0",
+        "X-Forwarded-For": "66.249.66.1",
+        "X-Forwarded-Host": "evil.example",
+        "X-Forwarded-Proto": "https",
+      },
+    });
+    expect(await response.json()).toMatchObject({
+      forwardedFor: "127.0.0.1",
+      forwardedHost: base.slice("http://".length),
+      forwardedProto: "http",
+    });
+  });
+
+  it("cancels the origin request when the client goes away", async () => {
+    let originClosed!: () => void;
+    const closed = new Promise<void>((resolve) => (originClosed = resolve));
+    const hanging = createServer((_req, res) => res.on("close", originClosed));
+    await new Promise<void>((resolve) => hanging.listen(0, "127.0.0.1", resolve));
+    try {
+      const base = await start(EnforcementMode.OBSERVE, `http://127.0.0.1:${portOf(hanging)}`);
+      const controller = new AbortController();
+      const pending = fetch(`${base}/`, { headers: { "User-Agent": "Mozilla/5.0" }, signal: controller.signal });
+      setTimeout(() => controller.abort(), 100);
+      await expect(pending).rejects.toThrow();
+      await closed;
+    } finally {
+      hanging.closeAllConnections();
+      await close(hanging);
+    }
+  });
+
+  it("blocks bots without a token in ENFORCE mode", async () => {
+    const base = await start(EnforcementMode.ENFORCE);
+    const response = await fetch(`${base}/news/a`, { headers: { "User-Agent": "GPTBot/1.0" } });
+    expect(response.status).toBe(401);
+    expect(response.headers.get("www-authenticate")).toContain("License");
+  });
+
+  it("applies the signal headers to proxied responses in OBSERVE mode", async () => {
+    const base = await start(EnforcementMode.OBSERVE);
+    const response = await fetch(`${base}/news/a`, { headers: { "User-Agent": "GPTBot/1.0" } });
+    expect(response.status).toBe(200);
+    expect(response.headers.get("link")).toContain("/license.xml");
+    expect(response.headers.get("content-type")).toBe("application/json");
+  });
+
+  it("answers 502 when the origin is unreachable", async () => {
+    const closedOrigin = `http://127.0.0.1:${portOf(origin)}`;
+    await close(origin);
+    const base = await start(EnforcementMode.OBSERVE, closedOrigin);
+    const response = await fetch(`${base}/`, { headers: { "User-Agent": "Mozilla/5.0" } });
+    expect(response.status).toBe(502);
+  });
+
+  describe("when handleRequest throws", () => {
+    beforeEach(() => {
+      vi.spyOn(SupertabConnect.prototype, "handleRequest").mockRejectedValue(new Error("boom"));
+      vi.spyOn(console, "error").mockImplementation(() => undefined);
+    });
+    afterEach(() => vi.restoreAllMocks());
+
+    it("answers 503 under ENFORCE", async () => {
+      const base = await start(EnforcementMode.ENFORCE);
+      expect((await fetch(`${base}/news/a`)).status).toBe(503);
+    });
+
+    it("forwards to the origin with failOpen", async () => {
+      const base = await start(EnforcementMode.ENFORCE, undefined, true);
+      const response = await fetch(`${base}/news/a`);
+      expect(response.status).toBe(200);
+      expect((await response.json()).url).toBe("/news/a");
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { generateKeyPair, exportJWK, SignJWT } from "jose";
+import {
+  buildRateLimitResult,
+  checkRateLimit,
+  unlicensedBotIdentity,
+  MemoryRateLimitStore,
+  CacheRateLimitStore,
+  DurableObjectRateLimitStore,
+  RateLimitCounterObject,
+} from "../src/rate-limit";
+import type { RateLimitOptions } from "../src/rate-limit";
+import { CloudflareKVCacheStore, MemoryCacheStore } from "../src/cache";
+import { SupertabConnect, HandlerAction } from "../src/index";
+import { EnforcementMode } from "../src/types";
+import { RecordingTransport } from "./helpers/status";
+
+const URL_NEWS = "https://example.com/news/a";
+
+describe("checkRateLimit", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+  });
+  afterEach(() => vi.useRealTimers());
+
+  const options = (): RateLimitOptions => ({
+    store: new MemoryRateLimitStore(),
+    rules: [
+      { pattern: "/news/*", limits: [{ requests: 2, windowSeconds: 60 }, { requests: 3, windowSeconds: 3600 }] },
+      { pattern: "/free/*", limits: [{ requests: 1, windowSeconds: 60 }], appliesTo: "unlicensed" },
+    ],
+  });
+  const licensed = { kind: "licensed" as const, id: "lic-1" };
+
+  it("allows requests within the limit and reports the exceeded window", async () => {
+    const opts = options();
+    expect(await checkRateLimit(opts, URL_NEWS, licensed, false)).toBeNull();
+    expect(await checkRateLimit(opts, URL_NEWS, licensed, false)).toBeNull();
+    const exceeded = await checkRateLimit(opts, URL_NEWS, licensed, false);
+    expect(exceeded?.limit).toEqual({ requests: 2, windowSeconds: 60 });
+    expect(exceeded?.retryAfterSeconds).toBe(60);
+  });
+
+  it("resets when the window rolls over, but keeps counting the quota", async () => {
+    const opts = options();
+    for (let i = 0; i < 3; i++) await checkRateLimit(opts, URL_NEWS, licensed, false);
+    vi.advanceTimersByTime(60_000);
+    const exceeded = await checkRateLimit(opts, URL_NEWS, licensed, false);
+    expect(exceeded?.limit).toEqual({ requests: 3, windowSeconds: 3600 });
+    expect(exceeded?.retryAfterSeconds).toBe(3540);
+  });
+
+  it("counts subjects separately", async () => {
+    const opts = options();
+    await checkRateLimit(opts, URL_NEWS, licensed, false);
+    await checkRateLimit(opts, URL_NEWS, licensed, false);
+    expect(await checkRateLimit(opts, URL_NEWS, { kind: "licensed", id: "lic-2" }, false)).toBeNull();
+  });
+
+  it("skips rules that do not apply to the subject or path", async () => {
+    const opts = options();
+    for (let i = 0; i < 3; i++) {
+      expect(await checkRateLimit(opts, "https://example.com/free/a", licensed, false)).toBeNull();
+      expect(await checkRateLimit(opts, "https://example.com/other", licensed, false)).toBeNull();
+    }
+  });
+
+  it("fails open when the store throws", async () => {
+    const opts = { ...options(), store: { increment: () => Promise.reject(new Error("down")) } };
+    for (let i = 0; i < 5; i++) {
+      expect(await checkRateLimit(opts, URL_NEWS, licensed, false)).toBeNull();
+    }
+  });
+});
+
+describe("buildRateLimitResult", () => {
+  it("returns 429 with Retry-After", () => {
+    const result = buildRateLimitResult({
+      rule: { pattern: "/news/*", limits: [] },
+      limit: { requests: 10, windowSeconds: 60 },
+      retryAfterSeconds: 42,
+    });
+    expect(result).toMatchObject({
+      action: HandlerAction.BLOCK,
+      status: 429,
+      headers: { "Retry-After": "42", "RateLimit-Limit": "10", "RateLimit-Remaining": "0" },
+    });
+  });
+});
+
+describe("unlicensedBotIdentity", () => {
+  const request = new Request(URL_NEWS, { headers: { "User-Agent": "GPTBot/1.0" } });
+  it("prefers the verified agent, then the client IP, then the User-Agent", () => {
+    expect(unlicensedBotIdentity(request, "203.0.113.7", "https://openai.com")).toBe("agent:https://openai.com");
+    expect(unlicensedBotIdentity(request, "203.0.113.7", null)).toBe("ip:203.0.113.7");
+    expect(unlicensedBotIdentity(request, undefined, null)).toBe("ua:GPTBot/1.0");
+  });
+});
+
+describe("counter stores", () => {
+  it("CacheRateLimitStore counts through a CacheStore", async () => {
+    const store = new CacheRateLimitStore(new MemoryCacheStore());
+    expect(await store.increment("k", 60)).toBe(1);
+    expect(await store.increment("k", 60)).toBe(2);
+  });
+
+  it("CacheRateLimitStore counts through a KV store", async () => {
+    const data = new Map<string, string>();
+    const kv = {
+      get: async (key: string) => JSON.parse(data.get(key) ?? "null"),
+      put: async (key: string, value: string) => void data.set(key, value),
+      delete: async (key: string) => void data.delete(key),
+    };
+    const store = new CacheRateLimitStore(new CloudflareKVCacheStore(kv));
+    expect(await store.increment("k", 60)).toBe(1);
+    expect(await store.increment("k", 60)).toBe(2);
+  });
+
+  it("MemoryRateLimitStore restarts a counter after its window", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      const store = new MemoryRateLimitStore();
+      expect(await store.increment("k", 60)).toBe(1);
+      expect(await store.increment("k", 60)).toBe(2);
+      vi.advanceTimersByTime(61_000);
+      expect(await store.increment("other", 60)).toBe(1);
+      expect(await store.increment("k", 60)).toBe(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("MemoryRateLimitStore evicts the least recently counted key beyond maxEntries", async () => {
+    const store = new MemoryRateLimitStore({ maxEntries: 2 });
+    await store.increment("a", 60);
+    await store.increment("b", 60);
+    await store.increment("a", 60);
+    await store.increment("c", 60);
+    expect(await store.increment("a", 60)).toBe(3);
+    expect(await store.increment("b", 60)).toBe(1);
+  });
+
+  it("DurableObjectRateLimitStore counts through RateLimitCounterObject", async () => {
+    const objects = new Map<string, RateLimitCounterObject>();
+    const storage = () => {
+      const data = new Map<string, unknown>();
+      return {
+        get: async <T>(key: string) => data.get(key) as T | undefined,
+        put: async <T>(key: string, value: T) => void data.set(key, value),
+        delete: async (key: string) => data.delete(key),
+      };
+    };
+    const namespace = {
+      idFromName: (name: string) => name,
+      get: (id: unknown) => {
+        const name = String(id);
+        if (!objects.has(name)) objects.set(name, new RateLimitCounterObject({ storage: storage() }));
+        const object = objects.get(name)!;
+        return { fetch: (input: string, init?: RequestInit) => object.fetch(new Request(input, init)) };
+      },
+    };
+    const store = new DurableObjectRateLimitStore(namespace);
+    expect(await store.increment("a", 60)).toBe(1);
+    expect(await store.increment("a", 60)).toBe(2);
+    expect(await store.increment("b", 60)).toBe(1);
+  });
+});
+
+describe("SupertabConnect.handleRequest with rateLimits", () => {
+  const BASE_URL = "https://api-connect.supertab.co";
+
+  beforeEach(() => {
+    SupertabConnect.resetInstance();
+    // Swallow the license event that verifyAndRecordEvent posts.
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(null, { status: 204 }));
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+    SupertabConnect.resetInstance();
+  });
+
+  it("answers an over-limit license with 429", async () => {
+    const { privateKey, publicKey } = await generateKeyPair("ES256");
+    const jwk = await exportJWK(publicKey);
+    const token = await new SignJWT({ license_id: "lic-1" })
+      .setProtectedHeader({ alg: "ES256", kid: "kid-1" })
+      .setIssuer(BASE_URL)
+      .setAudience("https://example.com/")
+      .setExpirationTime("5m")
+      .sign(privateKey);
+    const transport = new RecordingTransport();
+    const sdk = new SupertabConnect({
+      apiKey: "merchant-key",
+      enforcement: EnforcementMode.ENFORCE,
+      staticJwks: { jwks: { keys: [{ ...jwk, kid: "kid-1", alg: "ES256" }] }, mode: "override" },
+      rateLimits: { store: new MemoryRateLimitStore(), rules: [{ pattern: "/", limits: [{ requests: 1, windowSeconds: 60 }] }] },
+      analyticsTransport: transport,
+    });
+    const request = () => new Request(URL_NEWS, { headers: { Authorization: `License ${token}` } });
+
+    expect(await sdk.handleRequest(request())).toEqual({ action: HandlerAction.ALLOW, licensed: true });
+    const limited = await sdk.handleRequest(request());
+    expect(limited).toMatchObject({ action: HandlerAction.BLOCK, status: 429 });
+    expect(transport.events[1]).toMatchObject({ token_outcome: "valid", final_action: "block", rate_limited: true });
+  });
+
+  it("caps observed bots by identity", async () => {
+    const sdk = new SupertabConnect({
+      apiKey: "merchant-key",
+      enforcement: EnforcementMode.OBSERVE,
+      botDetector: () => true,
+      rateLimits: { store: new MemoryRateLimitStore(), rules: [{ pattern: "/news/*", limits: [{ requests: 1, windowSeconds: 60 }] }] },
+      analyticsTransport: new RecordingTransport(),
+    });
+    const context = { clientIp: "203.0.113.7" };
+
+    expect((await sdk.handleRequest(new Request(URL_NEWS), context)).action).toBe(HandlerAction.ALLOW);
+    expect(await sdk.handleRequest(new Request(URL_NEWS), context)).toMatchObject({ status: 429 });
+    expect((await sdk.handleRequest(new Request(URL_NEWS), { clientIp: "198.51.100.1" })).action).toBe(
+      HandlerAction.ALLOW
+    );
+  });
+
+  it("caps unlicensed bots under DISABLED as under OBSERVE", async () => {
+    const transport = new RecordingTransport();
+    const sdk = new SupertabConnect({
+      apiKey: "merchant-key",
+      enforcement: EnforcementMode.DISABLED,
+      botDetector: () => true,
+      rateLimits: { store: new MemoryRateLimitStore(), rules: [{ pattern: "/news/*", limits: [{ requests: 1, windowSeconds: 60 }] }] },
+      analyticsTransport: transport,
+    });
+    const context = { clientIp: "203.0.113.7" };
+
+    expect(await sdk.handleRequest(new Request(URL_NEWS), context)).toEqual({ action: HandlerAction.ALLOW });
+    expect(await sdk.handleRequest(new Request(URL_NEWS), context)).toMatchObject({ status: 429 });
+    expect(transport.events[1]).toMatchObject({ enforcement_mode: "disabled", final_action: "block", rate_limited: true });
+  });
+});
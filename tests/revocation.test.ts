@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { generateKeyPair, exportJWK, SignJWT } from "jose";
+import { verifyLicenseToken, buildBlockResult } from "../src/license";
+import { clearRevocationCache } from "../src/revocation";
+import type { RevocationOptions } from "../src/revocation";
+import { resetCacheStore } from "../src/cache";
+import { LicenseTokenInvalidReason } from "../src/types";
+import { TOKEN_OUTCOME_BY_REASON } from "../src/analytics/types";
+import { SupertabConnect } from "../src/index";
+
+const BASE_URL = "https://api-connect.supertab.co";
+const REVOCATION_URL = "https://licenses.example.com/revocations.json";
+const LIST = { listUrl: REVOCATION_URL };
+
+describe("license revocation", () => {
+  let privateKey: CryptoKey;
+  let jwks: { keys: Record<string, unknown>[] };
+
+  beforeEach(async () => {
+    await clearRevocationCache();
+    resetCacheStore();
+    const pair = await generateKeyPair("ES256");
+    privateKey = pair.privateKey;
+    jwks = { keys: [{ ...(await exportJWK(pair.publicKey)), kid: "kid-1", alg: "ES256" }] };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const signToken = (licenseId: string) =>
+    new SignJWT({ license_id: licenseId })
+      .setProtectedHeader({ alg: "ES256", kid: "kid-1" })
+      .setIssuer(BASE_URL)
+      .setAudience("https://example.com/")
+      .setIssuedAt()
+      .setExpirationTime("5m")
+      .sign(privateKey);
+
+  const verify = async (licenseId: string, revocation?: RevocationOptions) =>
+    verifyLicenseToken({
+      licenseToken: await signToken(licenseId),
+      requestUrl: "https://example.com/article",
+      supertabBaseUrl: BASE_URL,
+      debug: false,
+      staticJwks: { jwks: jwks as never, mode: "override" },
+      revocation,
+    });
+
+  const mockRevocationList = (revoked: string[]) =>
+    vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response(JSON.stringify({ revoked })));
+
+  it("does not check revocation unless configured", async () => {
+    const fetchSpy = mockRevocationList(["lic-revoked"]);
+    expect(await verify("lic-revoked")).toMatchObject({ valid: true });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("rejects a revoked license with REVOKED", async () => {
+    const fetchSpy = mockRevocationList(["lic-revoked"]);
+    expect(await verify("lic-revoked", LIST)).toEqual({
+      valid: false,
+      reason: LicenseTokenInvalidReason.REVOKED,
+      error: "The license has been revoked",
+      licenseId: "lic-revoked",
+    });
+    expect(fetchSpy.mock.calls[0][0]).toBe(REVOCATION_URL);
+  });
+
+  it("accepts a license that is not on the list", async () => {
+    mockRevocationList(["lic-revoked"]);
+    expect(await verify("lic-ok", LIST)).toMatchObject({ valid: true, licenseId: "lic-ok" });
+  });
+
+  it("reuses the list until refreshSeconds elapses", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const fetchSpy = mockRevocationList([]);
+    await verify("lic-1", { ...LIST, refreshSeconds: 60 });
+    await verify("lic-1", { ...LIST, refreshSeconds: 60 });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(61_000);
+    await verify("lic-1", { ...LIST, refreshSeconds: 60 });
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps using the last known list when a refresh fails", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    mockRevocationList(["lic-revoked"]);
+    await verify("lic-revoked", { ...LIST, refreshSeconds: 60 });
+
+    vi.advanceTimersByTime(61_000);
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("", { status: 503 }));
+    expect(await verify("lic-revoked", { ...LIST, refreshSeconds: 60 })).toMatchObject({
+      valid: false,
+      reason: LicenseTokenInvalidReason.REVOKED,
+    });
+  });
+
+  it("fails open by default when the list is unavailable", async () => {
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("", { status: 503 }));
+    expect(await verify("lic-1", LIST)).toMatchObject({ valid: true });
+  });
+
+  it("fails closed with SERVER_ERROR when configured", async () => {
+    vi.spyOn(globalThis, "fetch").mockRejectedValue(new TypeError("fetch failed"));
+    expect(await verify("lic-1", { ...LIST, failClosed: true })).toMatchObject({
+      valid: false,
+      reason: LicenseTokenInvalidReason.SERVER_ERROR,
+    });
+  });
+
+  it("does not refetch an unavailable list for 30 seconds", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response("", { status: 503 }));
+    expect(await verify("lic-1", LIST)).toMatchObject({ valid: true });
+    expect(await verify("lic-1", { ...LIST, failClosed: true })).toMatchObject({
+      valid: false,
+      reason: LicenseTokenInvalidReason.SERVER_ERROR,
+    });
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(31_000);
+    await verify("lic-1", LIST);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it("uses a custom checker instead of the list", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    const check = vi.fn().mockResolvedValue(true);
+    expect(await verify("lic-1", { check })).toMatchObject({ reason: LicenseTokenInvalidReason.REVOKED });
+    expect(check).toHaveBeenCalledWith("lic-1", expect.objectContaining({ license_id: "lic-1" }));
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("fails closed without a listUrl or check instead of guessing a list endpoint", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    expect(await verify("lic-1", { failClosed: true } as RevocationOptions)).toMatchObject({
+      valid: false,
+      reason: LicenseTokenInvalidReason.SERVER_ERROR,
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("rejects a revocation config without a listUrl or check at construction", () => {
+    expect(
+      () => new SupertabConnect({ apiKey: "merchant-key", revocation: {} as RevocationOptions }, true)
+    ).toThrow(/listUrl or a check/);
+    SupertabConnect.resetInstance();
+  });
+
+  it("maps REVOKED to an invalid_token block and the revoked analytics outcome", () => {
+    const result = buildBlockResult({
+      reason: LicenseTokenInvalidReason.REVOKED,
+      error: "The license has been revoked",
+      requestUrl: "https://example.com/article",
+    });
+    expect(result).toMatchObject({ status: 401 });
+    expect(result.headers?.["WWW-Authenticate"]).toContain('error="invalid_token"');
+    expect(TOKEN_OUTCOME_BY_REASON[LicenseTokenInvalidReason.REVOKED]).toBe("revoked");
+  });
+});
@@ -0,0 +1,280 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { buildRobotsDisallowGroup, rewriteRobotsTxt, serveRobotsTxt } from "../src/robots";
+import { SupertabConnect } from "../src/index";
+import { EnforcementMode } from "../src/types";
+import type { CloudFrontRequestEvent, CloudFrontResponseEvent } from "../src/types";
+import { makeCtx } from "./helpers/status";
+
+const URL_ROBOTS = "https://example.com/robots.txt";
+const ORIGIN_ROBOTS = "User-agent: *\nDisallow: /admin/\n";
+const observe = { enforcement: EnforcementMode.OBSERVE };
+
+describe("rewriteRobotsTxt", () => {
+  it("adds the License directive at the top of the file", () => {
+    expect(rewriteRobotsTxt(ORIGIN_ROBOTS, URL_ROBOTS, {}, observe)).toBe(
+      "License: https://example.com/license.xml\nUser-agent: *\nDisallow: /admin/\n"
+    );
+  });
+
+  it("keeps a single copy of an existing directive and leaves other licenses alone", () => {
+    const robots = [
+      "License: https://example.com/license.xml",
+      "License: https://example.com/attribution.xml",
+      "User-agent: *",
+      "license: https://example.com/license.xml",
+    ].join("\r\n");
+    expect(rewriteRobotsTxt(robots, URL_ROBOTS, {}, observe)).toBe(
+      ["License: https://example.com/license.xml", "License: https://example.com/attribution.xml", "User-agent: *"].join(
+        "\r\n"
+      )
+    );
+  });
+
+  it("uses a configured license URL", () => {
+    const rewritten = rewriteRobotsTxt("", URL_ROBOTS, { licenseUrl: "https://cdn.example.com/rsl.xml" }, observe);
+    expect(rewritten).toBe("License: https://cdn.example.com/rsl.xml\n");
+  });
+
+  it("appends a Disallow group for the enforced paths", () => {
+    const rewritten = rewriteRobotsTxt(
+      ORIGIN_ROBOTS,
+      URL_ROBOTS,
+      { disallowCrawlers: ["GPTBot", "ClaudeBot"] },
+      { enforcement: EnforcementMode.OBSERVE, enforcementRules: [{ pattern: "/news/*", enforcement: EnforcementMode.ENFORCE }] }
+    );
+    expect(rewritten).toBe(
+      [
+        "License: https://example.com/license.xml",
+        "User-agent: *",
+        "Disallow: /admin/",
+        "",
+        "# Supertab Connect: a license is required for these paths",
+        "User-agent: GPTBot",
+        "User-agent: ClaudeBot",
+        "Disallow: /news/*",
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("buildRobotsDisallowGroup", () => {
+  it("disallows everything but the open paths under a site-wide ENFORCE", () => {
+    const group = buildRobotsDisallowGroup(
+      ["GPTBot"],
+      {
+        enforcement: EnforcementMode.ENFORCE,
+        enforcementRules: [
+          { pattern: "/free/*", enforcement: EnforcementMode.DISABLED },
+          { pattern: "https://other.example/preview/*", enforcement: EnforcementMode.OBSERVE },
+          { pattern: "https://example.com/blog/*", enforcement: EnforcementMode.OBSERVE },
+        ],
+      },
+      "example.com"
+    );
+    expect(group?.split("\n").slice(1)).toEqual(["User-agent: GPTBot", "Disallow: /", "Allow: /free/*", "Allow: /blog/*"]);
+  });
+
+  it("returns null when nothing is enforced", () => {
+    expect(buildRobotsDisallowGroup(["GPTBot"], observe, "example.com")).toBeNull();
+  });
+
+  it("ignores rules scoped to verified agents", () => {
+    const agentRules = (enforcement: EnforcementMode) => [
+      { pattern: "/news/*", enforcement, verifiedAgents: ["googlebot"] },
+    ];
+    expect(
+      buildRobotsDisallowGroup(
+        ["GPTBot"],
+        { enforcement: EnforcementMode.OBSERVE, enforcementRules: agentRules(EnforcementMode.ENFORCE) },
+        "example.com"
+      )
+    ).toBeNull();
+    const group = buildRobotsDisallowGroup(
+      ["GPTBot"],
+      { enforcement: EnforcementMode.ENFORCE, enforcementRules: agentRules(EnforcementMode.DISABLED) },
+      "example.com"
+    );
+    expect(group?.split("\n").slice(1)).toEqual(["User-agent: GPTBot", "Disallow: /"]);
+  });
+});
+
+describe("serveRobotsTxt", () => {
+  it("keeps the origin's caching headers and weakens its ETag", async () => {
+    const origin = new Response(ORIGIN_ROBOTS, {
+      headers: {
+        "Content-Type": "text/plain",
+        "Content-Length": String(ORIGIN_ROBOTS.length),
+        "Cache-Control": "public, max-age=86400",
+        "Last-Modified": "Wed, 01 Jan 2026 00:00:00 GMT",
+        ETag: '"abc"',
+      },
+    });
+    const response = await serveRobotsTxt(origin, URL_ROBOTS, {}, observe);
+    expect(await response.text()).toContain("License: https://example.com/license.xml");
+    expect(response.headers.get("Cache-Control")).toBe("public, max-age=86400");
+    expect(response.headers.get("Last-Modified")).toBe("Wed, 01 Jan 2026 00:00:00 GMT");
+    expect(response.headers.get("ETag")).toBe('W/"abc"');
+    expect(response.headers.get("Content-Length")).toBeNull();
+  });
+
+  it("creates a robots.txt when the origin has none", async () => {
+    const response = await serveRobotsTxt(new Response("", { status: 404 }), URL_ROBOTS, {}, observe);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe("License: https://example.com/license.xml\n");
+  });
+
+  it("passes origin errors through", async () => {
+    const origin = new Response("down", { status: 503 });
+    expect(await serveRobotsTxt(origin, URL_ROBOTS, {}, observe)).toBe(origin);
+  });
+});
+
+describe("robots.txt on the CDN handlers", () => {
+  beforeEach(() => SupertabConnect.resetInstance());
+  afterEach(() => {
+    vi.restoreAllMocks();
+    SupertabConnect.resetInstance();
+  });
+
+  it("rewrites the origin robots.txt on Cloudflare", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(ORIGIN_ROBOTS));
+    const response = await SupertabConnect.cloudflareHandleRequests(
+      new Request(URL_ROBOTS),
+      { MERCHANT_API_KEY: "merchant-key" },
+      makeCtx(),
+      { robotsTxt: { disallowCrawlers: ["GPTBot"] }, enforcement: EnforcementMode.ENFORCE }
+    );
+    const body = await response.text();
+    expect(body.startsWith("License: https://example.com/license.xml\n")).toBe(true);
+    expect(body).toContain("User-agent: GPTBot\nDisallow: /");
+    expect((fetchSpy.mock.calls[0][0] as Request).url).toBe(URL_ROBOTS);
+  });
+
+  it("lets CloudFront fetch robots.txt from the origin itself", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    const event: CloudFrontRequestEvent = {
+      Records: [
+        {
+          cf: {
+            request: {
+              uri: "/robots.txt",
+              method: "GET",
+              querystring: "",
+              headers: { host: [{ key: "Host", value: "example.com" }] },
+              origin: { s3: { domainName: "bucket.s3.amazonaws.com" } },
+            },
+          },
+        },
+      ],
+    };
+    const result = await SupertabConnect.cloudfrontHandleRequests(event, {
+      apiKey: "merchant-key",
+      robotsTxt: {},
+    });
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(result).toBe(event.Records[0].cf.request);
+  });
+
+  describe("on the CloudFront origin-response trigger", () => {
+    type Origin = CloudFrontRequestEvent["Records"][number]["cf"]["request"]["origin"];
+    const responseEvent = (status: string, origin?: Origin): CloudFrontResponseEvent => ({
+      Records: [
+        {
+          cf: {
+            request: {
+              uri: "/robots.txt",
+              method: "GET",
+              querystring: "",
+              headers: {
+                host: [{ key: "Host", value: "bucket.s3.amazonaws.com" }],
+                "x-original-request-url": [{ key: "X-Original-Request-URL", value: "example.com/robots.txt" }],
+              },
+              origin,
+            },
+            response: { status, headers: { "cache-control": [{ key: "Cache-Control", value: "max-age=60" }] } },
+          },
+        },
+      ],
+    });
+
+    it("serves the directives when the origin has no robots.txt", async () => {
+      const response = await SupertabConnect.cloudfrontHandleResponse(responseEvent("404"), {
+        robotsTxt: { disallowCrawlers: ["GPTBot"] },
+        enforcement: EnforcementMode.ENFORCE,
+      });
+
+      expect(response.status).toBe("200");
+      expect(response.headers["content-type"][0].value).toBe("text/plain; charset=utf-8");
+      expect(response.body).toBe(
+        [
+          "License: https://example.com/license.xml",
+          "",
+          "# Supertab Connect: a license is required for these paths",
+          "User-agent: GPTBot",
+          "Disallow: /",
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("treats a 403 from an S3 origin as a missing robots.txt", async () => {
+      const response = await SupertabConnect.cloudfrontHandleResponse(
+        responseEvent("403", { s3: { domainName: "bucket.s3.amazonaws.com" } }),
+        { robotsTxt: {} }
+      );
+      expect(response.status).toBe("200");
+      expect(response.body).toContain("License: https://example.com/license.xml");
+    });
+
+    it("rewrites an existing origin robots.txt fetched from the origin", async () => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(ORIGIN_ROBOTS));
+      const event = responseEvent("200", {
+        custom: {
+          domainName: "origin.example.net",
+          port: 8443,
+          customHeaders: { "x-origin-secret": [{ key: "X-Origin-Secret", value: "s3cret" }] },
+        },
+      });
+      event.Records[0].cf.response.headers["content-length"] = [{ key: "Content-Length", value: "33" }];
+      event.Records[0].cf.response.headers.etag = [{ key: "ETag", value: '"abc"' }];
+
+      const response = await SupertabConnect.cloudfrontHandleResponse(event, { robotsTxt: {} });
+
+      expect(fetchSpy).toHaveBeenCalledWith("https://origin.example.net:8443/robots.txt", {
+        headers: { "X-Origin-Secret": "s3cret" },
+      });
+      expect(response.status).toBe("200");
+      expect(response.body).toBe(`License: https://example.com/license.xml\n${ORIGIN_ROBOTS}`);
+      expect(response.headers["content-length"]).toBeUndefined();
+      expect(response.headers.etag[0].value).toBe('W/"abc"');
+      expect(response.headers["cache-control"][0].value).toBe("max-age=60");
+    });
+
+    it("leaves the origin robots.txt as it is when it cannot be fetched again", async () => {
+      vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("Forbidden", { status: 403 }));
+      const response = await SupertabConnect.cloudfrontHandleResponse(
+        responseEvent("200", { s3: { domainName: "bucket.s3.amazonaws.com" } }),
+        { robotsTxt: {} }
+      );
+      expect(response.body).toBeUndefined();
+    });
+
+    it("leaves other errors untouched", async () => {
+      const fetchSpy = vi.spyOn(globalThis, "fetch");
+      for (const status of ["403", "500"]) {
+        const response = await SupertabConnect.cloudfrontHandleResponse(responseEvent(status), { robotsTxt: {} });
+        expect(response.status).toBe(status);
+        expect(response.body).toBeUndefined();
+        expect(response.headers["cache-control"][0].value).toBe("max-age=60");
+      }
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it("does nothing without robotsTxt", async () => {
+      const response = await SupertabConnect.cloudfrontHandleResponse(responseEvent("404"));
+      expect(response.status).toBe("404");
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import { parseRslDocument, rslLicensePermitsUsage } from "../src/rsl";
+import { parseXml, XmlParseError } from "../src/xml";
+import { parseContentElements } from "../src/customer";
+
+const FULL_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE rsl>
+<rsl xmlns="https://rslstandard.org/rsl">
+  <!-- News is licensed per use -->
+  <content url="/news/*" server="https://api-connect.supertab.co" encrypted="false" lastmod="2026-01-01T00:00:00Z">
+    <schema>https://schema.org/NewsArticle</schema>
+    <copyright type="organization" contactEmail="licensing@example.com" contactUrl="https://example.com/contact">Example &amp; Co</copyright>
+    <terms>https://example.com/terms</terms>
+    <license>
+      <permits type="usage">ai-input search</permits>
+      <permits type="user">commercial</permits>
+      <permits type="geo">US CA</permits>
+      <prohibits type="usage">ai-train</prohibits>
+      <payment type="use">
+        <standard>https://rslcollective.org/license</standard>
+        <custom>https://example.com/licensing</custom>
+        <amount currency="USD">0.015</amount>
+      </payment>
+      <legal type="warranty">ownership authority</legal>
+    </license>
+  </content>
+</rsl>`;
+
+describe("parseRslDocument", () => {
+  it("reads the RSL 1.0 model", () => {
+    expect(parseRslDocument(FULL_XML)).toEqual({
+      contents: [
+        {
+          url: "/news/*",
+          server: "https://api-connect.supertab.co",
+          encrypted: false,
+          lastmod: "2026-01-01T00:00:00Z",
+          schema: "https://schema.org/NewsArticle",
+          copyright: {
+            type: "organization",
+            holder: "Example & Co",
+            contactEmail: "licensing@example.com",
+            contactUrl: "https://example.com/contact",
+          },
+          terms: "https://example.com/terms",
+          licenses: [
+            {
+              permits: { usage: ["ai-input", "search"], user: ["commercial"], geo: ["US", "CA"] },
+              prohibits: { usage: ["ai-train"], user: [], geo: [] },
+              payments: [
+                {
+                  type: "use",
+                  standard: ["https://rslcollective.org/license"],
+                  custom: ["https://example.com/licensing"],
+                  amounts: [{ value: "0.015", currency: "USD" }],
+                },
+              ],
+              legal: [{ type: "warranty", values: ["ownership", "authority"] }],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("handles prefixed namespaces, single quotes, CDATA and self-closing elements", () => {
+    const xml = `<r:rsl xmlns:r="https://rslstandard.org/rsl" xmlns:dc="http://purl.org/dc/terms/">
+      <r:content url='/a/*' server='https://license.example'>
+        <dc:license>https://creativecommons.org/licenses/by/4.0/</dc:license>
+        <r:license>
+          <r:permits type='usage'><![CDATA[search ai-index]]></r:permits>
+          <r:payment type="free"/>
+        </r:license>
+      </r:content>
+    </r:rsl>`;
+    const [content] = parseRslDocument(xml).contents;
+    expect(content.url).toBe("/a/*");
+    expect(content.licenses).toHaveLength(1);
+    expect(content.licenses[0].permits.usage).toEqual(["search", "ai-index"]);
+    expect(content.licenses[0].payments).toEqual([{ type: "free", standard: [], custom: [], amounts: [] }]);
+  });
+
+  it("only reads direct <license> children of <content>", () => {
+    const xml = `<rsl>
+      <content url="/*">
+        <alternate><license><permits>all</permits></license></alternate>
+        <license><permits type="usage">search</permits></license>
+      </content>
+    </rsl>`;
+    const [content] = parseRslDocument(xml).contents;
+    expect(content.licenses.map((license) => license.permits.usage)).toEqual([["search"]]);
+  });
+
+  it("skips content without a url", () => {
+    expect(parseRslDocument(`<rsl><content><license/></content></rsl>`).contents).toEqual([]);
+  });
+
+  it("throws on malformed XML", () => {
+    expect(() => parseRslDocument(`<rsl><content url="/*"></rsl>`)).toThrow(XmlParseError);
+    expect(() => parseRslDocument(`<rsl><x:content url="/*"/></rsl>`)).toThrow(/Unbound namespace prefix/);
+  });
+});
+
+describe("parseXml", () => {
+  it("decodes entities and records source offsets", () => {
+    const xml = `<a title="&quot;x&quot; &#x26; &#38;"><b>1 &lt; 2</b></a>`;
+    const root = parseXml(xml);
+    expect(root.attributes.title).toBe('"x" & &');
+    expect(root.children[0].text).toBe("1 < 2");
+    expect(xml.slice(root.children[0].start, root.children[0].end)).toBe("<b>1 &lt; 2</b>");
+  });
+
+  it("rejects a second root element", () => {
+    expect(() => parseXml("<a/><b/>")).toThrow(/Multiple root elements/);
+  });
+});
+
+describe("rslLicensePermitsUsage", () => {
+  const [license] = parseRslDocument(FULL_XML).contents[0].licenses;
+
+  it("lets prohibits take precedence over permits", () => {
+    expect(rslLicensePermitsUsage(license, "search")).toBe(true);
+    expect(rslLicensePermitsUsage(license, "ai-train")).toBe(false);
+    expect(rslLicensePermitsUsage(license, "ai-index")).toBe(false);
+  });
+});
+
+describe("parseContentElements with the XML parser", () => {
+  it("keeps the source of the first <license> for each block", () => {
+    const xml = `<rsl xmlns="https://rslstandard.org/rsl">
+      <content url='/a/*' server='https://license.example'><license type='x'/></content>
+    </rsl>`;
+    expect(parseContentElements(xml)).toEqual([
+      { urlPattern: "/a/*", server: "https://license.example", licenseXml: "<license type='x'/>" },
+    ]);
+  });
+
+  it("returns no blocks for malformed XML", () => {
+    expect(parseContentElements("<rsl><content url='/a/*'><license></content>")).toEqual([]);
+  });
+
+  it("keeps the blocks that parse in a partially malformed document", () => {
+    const xml = `<r:rsl xmlns:r="https://rslstandard.org/rsl">
+      <r:content url='/a/*'><r:license><r:permits></r:license></r:content>
+      <r:content url='/b/*' server='https://license.example'><r:license type='b'/></r:content>
+      <r:content url='/c/*'><r:license type='c'/>
+    </r:rsl>`;
+    expect(parseContentElements(xml)).toEqual([
+      { urlPattern: "/b/*", server: "https://license.example", licenseXml: "<r:license type='b'/>" },
+    ]);
+  });
+});
@@ -76,8 +76,6 @@ describe("verifyStatusChallenge", () => {
       .mockResolvedValueOnce(staleJwks as never)
       .mockResolvedValueOnce(freshJwks as never);
 
-    const clearCacheSpy = vi.spyOn(jwks, "clearJwksCache");
-
     const token = await new SignJWT({ aud: "https://acme.com", purpose: "status-probe" })
       .setProtectedHeader({ alg: "ES256", kid: "rotated-kid" })
       .setIssuedAt()
@@ -90,8 +88,8 @@ describe("verifyStatusChallenge", () => {
     });
 
     expect(result).toBe(true);
-    expect(clearCacheSpy).toHaveBeenCalledTimes(1);
     expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(fetchSpy).toHaveBeenLastCalledWith("https://api", false, undefined, true);
 
     vi.restoreAllMocks();
   });
@@ -104,8 +102,6 @@ describe("verifyStatusChallenge", () => {
       .mockResolvedValueOnce(staleJwks as never)
       .mockResolvedValueOnce(staleJwks as never);
 
-    const clearCacheSpy = vi.spyOn(jwks, "clearJwksCache");
-
     // Sign with a key whose kid matches neither fetch
     const { privateKey } = await generateKeyPair("ES256");
     const token = await new SignJWT({ aud: "https://acme.com", purpose: "status-probe" })
@@ -120,8 +116,8 @@ describe("verifyStatusChallenge", () => {
     });
 
     expect(result).toBe(false);
-    expect(clearCacheSpy).toHaveBeenCalledTimes(1);
     expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(fetchSpy).toHaveBeenLastCalledWith("https://api", false, undefined, true);
 
     vi.restoreAllMocks();
   });
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { scorePathPattern } from "../src/url-pattern";
+import { findBestPatternMatch, scorePathPattern } from "../src/url-pattern";
 
 describe("scorePathPattern", () => {
   describe("prefix matching without wildcards", () => {
@@ -101,3 +101,20 @@ describe("scorePathPattern", () => {
     });
   });
 });
+
+describe("findBestPatternMatch", () => {
+  const url = new URL("https://example.com/news/a");
+  const match = (patterns: string[]) => findBestPatternMatch(patterns, (pattern) => pattern, url)?.item ?? null;
+
+  it("prefers an exact path, then the most specific pattern, then the first declared", () => {
+    expect(match(["/news/*", "/news/a", "/*"])).toBe("/news/a");
+    expect(match(["/*", "/news/*"])).toBe("/news/*");
+    expect(match(["/new*s", "/news*"])).toBe("/new*s");
+  });
+
+  it("applies absolute-URL patterns to their own host only and skips invalid ones", () => {
+    expect(match(["https://other.example/news/*", "/*"])).toBe("/*");
+    expect(match(["https://example.com/news/*", "/*"])).toBe("https://example.com/news/*");
+    expect(match(["http://[bad", "/blog/*"])).toBeNull();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { generateKeyPair, exportJWK, SignJWT } from "jose";
+import { grantedUsages, resolveRequiredUsage, usagePermitted } from "../src/usage";
+import { verifyLicenseToken } from "../src/license";
+import { SupertabConnect, HandlerAction, UsageType } from "../src/index";
+import { EnforcementMode, LicenseTokenInvalidReason } from "../src/types";
+import type { StaticJwksOptions } from "../src/jwks";
+import { RecordingTransport } from "./helpers/status";
+
+const BASE_URL = "https://api-connect.supertab.co";
+
+describe("grantedUsages", () => {
+  it("reads a usage string, a usage array, or the OAuth scope", () => {
+    expect(grantedUsages({ usage: "ai-train" })).toEqual(["ai-train"]);
+    expect(grantedUsages({ usage: ["search", "ai-input"] })).toEqual(["search", "ai-input"]);
+    expect(grantedUsages({ scope: "search ai-index" })).toEqual(["search", "ai-index"]);
+    expect(grantedUsages({})).toEqual([]);
+  });
+});
+
+describe("usagePermitted", () => {
+  it("requires every usage to be granted", () => {
+    expect(usagePermitted(["ai-index"], [UsageType.AI_INDEX])).toBe(true);
+    expect(usagePermitted(["ai-index"], [UsageType.AI_TRAIN])).toBe(false);
+    expect(usagePermitted(["ai-index"], [UsageType.AI_INDEX, UsageType.SEARCH])).toBe(false);
+  });
+
+  it("treats all and ai-all as umbrella usages", () => {
+    expect(usagePermitted(["all"], [UsageType.SEARCH, UsageType.AI_TRAIN])).toBe(true);
+    expect(usagePermitted(["ai-all"], [UsageType.AI_TRAIN, UsageType.AI_INPUT])).toBe(true);
+    expect(usagePermitted(["ai-all"], [UsageType.SEARCH])).toBe(false);
+  });
+});
+
+describe("resolveRequiredUsage", () => {
+  const rules = [
+    { pattern: "/news/*", usage: UsageType.AI_INPUT },
+    { pattern: "/archive/*", usage: [UsageType.AI_TRAIN, UsageType.AI_INDEX] },
+  ];
+
+  it("uses the most specific matching rule", () => {
+    expect(resolveRequiredUsage(rules, undefined, new Request("https://example.com/news/a"))).toEqual([
+      UsageType.AI_INPUT,
+    ]);
+    expect(resolveRequiredUsage(rules, undefined, new Request("https://example.com/sports"))).toEqual([]);
+  });
+
+  it("lets the per-request resolver take precedence", () => {
+    const resolver = (request: Request) =>
+      request.headers.get("X-Purpose") === "train" ? UsageType.AI_TRAIN : undefined;
+    const train = new Request("https://example.com/news/a", { headers: { "X-Purpose": "train" } });
+    expect(resolveRequiredUsage(rules, resolver, train)).toEqual([UsageType.AI_TRAIN]);
+    expect(resolveRequiredUsage(rules, resolver, new Request("https://example.com/news/a"))).toEqual([
+      UsageType.AI_INPUT,
+    ]);
+  });
+});
+
+describe("usage enforcement", () => {
+  let privateKey: CryptoKey;
+  let staticJwks: StaticJwksOptions;
+
+  beforeEach(async () => {
+    SupertabConnect.resetInstance();
+    const pair = await generateKeyPair("ES256");
+    privateKey = pair.privateKey;
+    const jwk = await exportJWK(pair.publicKey);
+    staticJwks = { jwks: { keys: [{ ...jwk, kid: "kid-1", alg: "ES256" }] }, mode: "override" };
+    // Swallow the license event that verifyAndRecordEvent posts.
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response(null, { status: 204 }));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    SupertabConnect.resetInstance();
+  });
+
+  const signToken = (claims: Record<string, unknown>) =>
+    new SignJWT({ license_id: "lic-1", ...claims })
+      .setProtectedHeader({ alg: "ES256", kid: "kid-1" })
+      .setIssuer(BASE_URL)
+      .setAudience("https://example.com/")
+      .setIssuedAt()
+      .setExpirationTime("5m")
+      .sign(privateKey);
+
+  it("rejects a token whose usage does not cover the requirement", async () => {
+    const result = await verifyLicenseToken({
+      licenseToken: await signToken({ usage: "ai-index" }),
+      requestUrl: "https://example.com/news/a",
+      supertabBaseUrl: BASE_URL,
+      debug: false,
+      staticJwks,
+      requiredUsage: [UsageType.AI_TRAIN],
+    });
+    expect(result).toMatchObject({ valid: false, reason: LicenseTokenInvalidReason.INSUFFICIENT_SCOPE });
+  });
+
+  it("rejects a token without a usage claim when a usage is required", async () => {
+    const result = await verifyLicenseToken({
+      licenseToken: await signToken({}),
+      requestUrl: "https://example.com/news/a",
+      supertabBaseUrl: BASE_URL,
+      debug: false,
+      staticJwks,
+      requiredUsage: [UsageType.SEARCH],
+    });
+    expect(result).toMatchObject({ valid: false, reason: LicenseTokenInvalidReason.INSUFFICIENT_SCOPE });
+  });
+
+  it("blocks with insufficient_scope from handleRequest", async () => {
+    const transport = new RecordingTransport();
+    const sdk = new SupertabConnect({
+      apiKey: "merchant-key",
+      enforcement: EnforcementMode.ENFORCE,
+      usageRules: [{ pattern: "/news/*", usage: UsageType.AI_TRAIN }],
+      staticJwks,
+      analyticsTransport: transport,
+    });
+    const token = await signToken({ usage: ["ai-index"] });
+    const request = (path: string) =>
+      new Request(`https://example.com${path}`, { headers: { Authorization: `License ${token}` } });
+
+    const blocked = await sdk.handleRequest(request("/news/a"));
+    expect(blocked).toMatchObject({ action: HandlerAction.BLOCK, status: 403 });
+    expect(blocked.headers?.["WWW-Authenticate"]).toContain('error="insufficient_scope"');
+    expect(transport.events[0].token_outcome).toBe("insufficient_scope");
+
+    expect(await sdk.handleRequest(request("/about"))).toEqual({ action: HandlerAction.ALLOW, licensed: true });
+  });
+});
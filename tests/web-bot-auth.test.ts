@@ -0,0 +1,345 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { generateKeyPair, exportJWK, calculateJwkThumbprint } from "jose";
+import {
+  verifyWebBotAuth,
+  clearSignatureDirectoryCache,
+  SIGNATURE_DIRECTORY_PATH,
+} from "../src/web-bot-auth";
+import { SupertabConnect, HandlerAction, defaultBotDetector } from "../src/index";
+import { EnforcementMode } from "../src/types";
+import { RecordingTransport } from "./helpers/status";
+
+const AGENT = "https://agent.example";
+const NOW = 1_800_000_000;
+const OPTIONS = { now: NOW, trustedAgents: [AGENT] };
+
+async function makeAgentKey() {
+  const { publicKey, privateKey } = await generateKeyPair("Ed25519", { extractable: true });
+  const jwk = await exportJWK(publicKey);
+  const keyId = await calculateJwkThumbprint(jwk, "sha256");
+  return { jwk, keyId, privateKey };
+}
+
+function stubDirectory(keys: unknown[]) {
+  return vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+    expect(String(input)).toBe(`${AGENT}${SIGNATURE_DIRECTORY_PATH}`);
+    return new Response(JSON.stringify({ keys }), { status: 200 });
+  });
+}
+
+async function signedRequest(
+  privateKey: CryptoKey,
+  keyId: string,
+  opts: {
+    url?: string;
+    created?: number;
+    expires?: number;
+    components?: string[];
+    tamperHost?: string;
+    alg?: "ed25519" | "rsa-pss-sha512";
+  } = {}
+): Promise<Request> {
+  const url = new URL(opts.url ?? "https://example.com/article");
+  const components = opts.components ?? ["@authority", "signature-agent"];
+  const created = opts.created ?? NOW - 10;
+  const expires = opts.expires ?? NOW + 60;
+  const agentHeader = `"${AGENT}"`;
+  const inner = `(${components.map((c) => `"${c}"`).join(" ")});created=${created};expires=${expires};keyid="${keyId}";alg="${opts.alg ?? "ed25519"}";tag="web-bot-auth"`;
+
+  const values: Record<string, string> = { "@authority": url.host, "signature-agent": agentHeader };
+  const base = [
+    ...components.map((c) => `"${c}": ${values[c]}`),
+    `"@signature-params": ${inner}`,
+  ].join("\n");
+  const sig = new Uint8Array(
+    await crypto.subtle.sign(
+      opts.alg === "rsa-pss-sha512" ? { name: "RSA-PSS", saltLength: 64 } : "Ed25519",
+      privateKey,
+      new TextEncoder().encode(base)
+    )
+  );
+  const sigB64 = btoa(String.fromCharCode(...sig));
+
+  const target = opts.tamperHost ? `https://${opts.tamperHost}${url.pathname}` : url.href;
+  return new Request(target, {
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; GPTBot/1.0)",
+      "Signature-Agent": agentHeader,
+      "Signature-Input": `sig1=${inner}`,
+      Signature: `sig1=:${sigB64}:`,
+    },
+  });
+}
+
+describe("verifyWebBotAuth", () => {
+  beforeEach(() => clearSignatureDirectoryCache());
+  afterEach(() => vi.restoreAllMocks());
+
+  it("returns absent without fetching when the request is unsigned", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    const result = await verifyWebBotAuth(new Request("https://example.com/"));
+    expect(result).toEqual({ outcome: "absent", agent: null, keyId: null });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("verifies a valid Ed25519 signature against the agent key directory", async () => {
+    const { jwk, keyId, privateKey } = await makeAgentKey();
+    stubDirectory([jwk]);
+    const result = await verifyWebBotAuth(await signedRequest(privateKey, keyId), OPTIONS);
+    expect(result).toEqual({ outcome: "verified", agent: AGENT, keyId });
+  });
+
+  it("reports an agent outside trustedAgents without fetching its directory", async () => {
+    const { jwk, keyId, privateKey } = await makeAgentKey();
+    const fetchSpy = stubDirectory([jwk]);
+    const result = await verifyWebBotAuth(await signedRequest(privateKey, keyId), { now: NOW });
+    expect(result).toEqual({ outcome: "untrusted_agent", agent: AGENT, keyId });
+    expect(
+      (await verifyWebBotAuth(await signedRequest(privateKey, keyId), { now: NOW, trustedAgents: ["https://other.example"] }))
+        .outcome
+    ).toBe("untrusted_agent");
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("caches the key directory across requests", async () => {
+    const { jwk, keyId, privateKey } = await makeAgentKey();
+    const fetchSpy = stubDirectory([jwk]);
+    await verifyWebBotAuth(await signedRequest(privateKey, keyId), OPTIONS);
+    await verifyWebBotAuth(await signedRequest(privateKey, keyId), OPTIONS);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects a signature replayed against a different authority", async () => {
+    const { jwk, keyId, privateKey } = await makeAgentKey();
+    stubDirectory([jwk]);
+    const request = await signedRequest(privateKey, keyId, { tamperHost: "other.example" });
+    expect((await verifyWebBotAuth(request, OPTIONS)).outcome).toBe("invalid_signature");
+  });
+
+  it("rejects an expired signature", async () => {
+    const { jwk, keyId, privateKey } = await makeAgentKey();
+    stubDirectory([jwk]);
+    const request = await signedRequest(privateKey, keyId, { created: NOW - 600, expires: NOW - 300 });
+    expect((await verifyWebBotAuth(request, OPTIONS)).outcome).toBe("expired");
+  });
+
+  it("rejects a signature that does not cover @authority", async () => {
+    const { jwk, keyId, privateKey } = await makeAgentKey();
+    stubDirectory([jwk]);
+    const request = await signedRequest(privateKey, keyId, { components: ["signature-agent"] });
+    expect((await verifyWebBotAuth(request, OPTIONS)).outcome).toBe("malformed");
+  });
+
+  it("reports unknown_key without refetching a freshly fetched directory", async () => {
+    const { keyId, privateKey } = await makeAgentKey();
+    const other = await makeAgentKey();
+    const fetchSpy = stubDirectory([other.jwk]);
+    const result = await verifyWebBotAuth(await signedRequest(privateKey, keyId), OPTIONS);
+    expect(result.outcome).toBe("unknown_key");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("refreshes the directory for an unknown key at most once a minute", async () => {
+    vi.useFakeTimers({ now: NOW * 1000, toFake: ["Date"] });
+    try {
+      const { jwk, keyId, privateKey } = await makeAgentKey();
+      const other = await makeAgentKey();
+      const fetchSpy = stubDirectory([other.jwk]);
+      await verifyWebBotAuth(await signedRequest(privateKey, keyId), OPTIONS);
+      await verifyWebBotAuth(await signedRequest(privateKey, "random-keyid"), OPTIONS);
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+      // The agent rotated in a new key; it is picked up once the refresh interval has passed.
+      fetchSpy.mockResolvedValue(new Response(JSON.stringify({ keys: [other.jwk, jwk] }), { status: 200 }));
+      vi.setSystemTime((NOW + 61) * 1000);
+      const result = await verifyWebBotAuth(await signedRequest(privateKey, keyId), OPTIONS);
+      expect(result.outcome).toBe("verified");
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("reports directory_error when the key directory cannot be fetched, and caches the failure", async () => {
+    const { keyId, privateKey } = await makeAgentKey();
+    const fetchSpy = vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response("nope", { status: 500 }));
+    const result = await verifyWebBotAuth(await signedRequest(privateKey, keyId), OPTIONS);
+    expect(result.outcome).toBe("directory_error");
+    await verifyWebBotAuth(await signedRequest(privateKey, keyId), OPTIONS);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("aborts a directory fetch that does not answer in time", async () => {
+    const { keyId, privateKey } = await makeAgentKey();
+    vi.spyOn(globalThis, "fetch").mockImplementation(
+      (_input, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+        })
+    );
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    try {
+      const pending = verifyWebBotAuth(await signedRequest(privateKey, keyId), OPTIONS);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect((await pending).outcome).toBe("directory_error");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("verifies an RSA-PSS signature", async () => {
+    const { publicKey, privateKey } = await generateKeyPair("PS512", { extractable: true });
+    const jwk = await exportJWK(publicKey);
+    const keyId = await calculateJwkThumbprint(jwk, "sha256");
+    stubDirectory([jwk]);
+    const request = await signedRequest(privateKey, keyId, { alg: "rsa-pss-sha512" });
+    expect((await verifyWebBotAuth(request, OPTIONS)).outcome).toBe("verified");
+  });
+
+  it("rejects a key that does not match the signature algorithm", async () => {
+    const { jwk, keyId, privateKey } = await makeAgentKey();
+    stubDirectory([{ ...jwk, kty: "RSA", kid: keyId }]);
+    const result = await verifyWebBotAuth(await signedRequest(privateKey, keyId), OPTIONS);
+    expect(result.outcome).toBe("unsupported_algorithm");
+  });
+});
+
+describe("SupertabConnect.handleRequest with verifyWebBotAuth", () => {
+  beforeEach(() => {
+    SupertabConnect.resetInstance();
+    clearSignatureDirectoryCache();
+  });
+
+  afterEach(() => {
+    SupertabConnect.resetInstance();
+    vi.restoreAllMocks();
+  });
+
+  it("passes the verified identity to the bot detector and records it in analytics", async () => {
+    vi.useFakeTimers({ now: NOW * 1000, toFake: ["Date"] });
+    try {
+      const { jwk, keyId, privateKey } = await makeAgentKey();
+      stubDirectory([jwk]);
+      const transport = new RecordingTransport();
+      const botDetector = vi.fn().mockReturnValue(true);
+      const sdk = new SupertabConnect({
+        apiKey: "merchant-key",
+        enforcement: EnforcementMode.ENFORCE,
+        verifyWebBotAuth: { trustedAgents: [AGENT] },
+        botDetector,
+        analyticsTransport: transport,
+      });
+
+      const result = await sdk.handleRequest(await signedRequest(privateKey, keyId));
+
+      expect(result.action).toBe(HandlerAction.BLOCK);
+      expect(botDetector.mock.calls[0][2]).toEqual({
+        webBotAuth: { outcome: "verified", agent: AGENT, keyId },
+      });
+      expect(transport.events[0].web_bot_auth_outcome).toBe("verified");
+      expect(transport.events[0].verified_agent).toBe(AGENT);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("does not treat a signed request as a bot when no detector is configured", async () => {
+    const { keyId, privateKey } = await makeAgentKey();
+    vi.spyOn(globalThis, "fetch").mockResolvedValue(new Response("nope", { status: 500 }));
+    const sdk = new SupertabConnect({
+      apiKey: "merchant-key",
+      enforcement: EnforcementMode.OBSERVE,
+      verifyWebBotAuth: { trustedAgents: [AGENT] },
+    });
+
+    const result = await sdk.handleRequest(await signedRequest(privateKey, keyId));
+
+    expect(result).toEqual({ action: HandlerAction.ALLOW });
+  });
+
+  it("matches a verifiedAgents rule only for a verified signature", async () => {
+    vi.useFakeTimers({ now: NOW * 1000, toFake: ["Date"] });
+    try {
+      const { jwk, keyId, privateKey } = await makeAgentKey();
+      stubDirectory([jwk]);
+      const sdk = new SupertabConnect({
+        apiKey: "merchant-key",
+        enforcement: EnforcementMode.ENFORCE,
+        enforcementRules: [{ pattern: "/article", enforcement: EnforcementMode.DISABLED, verifiedAgents: [AGENT] }],
+        verifyWebBotAuth: { trustedAgents: [AGENT] },
+        botDetector: () => true,
+        analyticsTransport: new RecordingTransport(),
+      });
+
+      expect(await sdk.handleRequest(await signedRequest(privateKey, keyId))).toEqual({
+        action: HandlerAction.ALLOW,
+      });
+      const tampered = await sdk.handleRequest(
+        await signedRequest(privateKey, keyId, { tamperHost: "example.org" })
+      );
+      expect(tampered.action).toBe(HandlerAction.BLOCK);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("skips verification when it cannot change the decision", async () => {
+    const { keyId, privateKey } = await makeAgentKey();
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    const sdk = new SupertabConnect({
+      apiKey: "merchant-key",
+      enforcement: EnforcementMode.DISABLED,
+      verifyWebBotAuth: { trustedAgents: [AGENT] },
+      botDetector: () => true,
+    });
+
+    const result = await sdk.handleRequest(await signedRequest(privateKey, keyId));
+
+    expect(result).toEqual({ action: HandlerAction.ALLOW });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("leaves web_bot_auth_outcome null when verification is not enabled", async () => {
+    const transport = new RecordingTransport();
+    const sdk = new SupertabConnect({ apiKey: "merchant-key", analyticsTransport: transport });
+    await sdk.handleRequest(new Request("https://example.com/"));
+    expect(transport.events[0].web_bot_auth_outcome).toBeNull();
+  });
+});
+
+describe("defaultBotDetector with Web Bot Auth", () => {
+  const browserRequest = () =>
+    new Request("https://example.com/", {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (Macintosh) Safari/605.1.15",
+        Accept: "text/html",
+        "Accept-Language": "en",
+        "sec-ch-ua": '"Chromium";v="120"',
+        "Signature-Input": 'sig1=("@authority");keyid="k";tag="web-bot-auth"',
+      },
+    });
+
+  it("treats a verified signature as a bot", () => {
+    expect(
+      defaultBotDetector(browserRequest(), undefined, {
+        webBotAuth: { outcome: "verified", agent: AGENT, keyId: "k" },
+      })
+    ).toBe(true);
+  });
+
+  it("does not treat an invalid signature as a bot by itself", () => {
+    expect(
+      defaultBotDetector(browserRequest(), undefined, {
+        webBotAuth: { outcome: "invalid_signature", agent: AGENT, keyId: "k" },
+      })
+    ).toBe(false);
+  });
+
+  it("does not treat an unverified crawler claim as a bot by itself", () => {
+    expect(
+      defaultBotDetector(browserRequest(), undefined, {
+        crawler: { id: "oai-searchbot", operator: "OpenAI", category: "search", verified: false, method: null },
+      })
+    ).toBe(false);
+  });
+});
@@ -8,7 +8,13 @@ const __dirname = dirname(__filename);
 const pkg = JSON.parse(readFileSync(resolve(__dirname, "package.json"), "utf-8"));
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  // `server` is the Node-only entry (forward-auth and similar services); see src/server/index.ts.
+  // `supertab-connect-proxy` is the CLI published as the package's `bin`.
+  entry: {
+    index: "src/index.ts",
+    server: "src/server/index.ts",
+    "supertab-connect-proxy": "src/cli/supertab-connect-proxy.ts",
+  },
   format: ["cjs", "esm"],
   outDir: "dist",
   dts: true,